@@ -1,25 +1,80 @@
+import { requireUser } from "@/lib/auth/session";
+import { REC_CONVERSION_WINDOW_DAYS, REC_KEPT_PLAY_COUNT } from "@/lib/recommendations/hit-rate";
+import { getRecommendationHitRates } from "@/lib/recommendations/outcomes";
 import { DailyRecsClient } from "@/components/daily-recs-client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+function formatRate(rate: number | null): string {
+  return rate === null ? "-" : `${Math.round(rate * 100)}%`;
+}
 
 export default async function DailyRecsPage({
   searchParams,
 }: {
   searchParams: Promise<Record<string, string | string[] | undefined>>;
 }) {
+  const user = await requireUser();
   const params = await searchParams;
   const demoMode = typeof params.demo === "string" && params.demo === "1";
+  const hitRates = await getRecommendationHitRates(user.id);
 
   return (
     <div className="space-y-5">
       <div>
         <h1 className="text-2xl font-semibold tracking-tight">Daily Recommendations</h1>
         <p className="text-sm text-zinc-400">
-          New-to-you picks generated from your listening profile: 10 songs and 3 albums.
+          New-to-you picks generated from your listening profile: 10 songs and 3 albums unless you change it in
+          Settings → Recommendations. Your feedback on each pick shapes the next runs.
         </p>
         <p className="mt-1 text-xs text-zinc-500">
           Need a UI check? Open <code>/daily-recs?demo=1</code> for demo recommendation data.
         </p>
       </div>
       <DailyRecsClient demoMode={demoMode} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rec Hit Rate</CardTitle>
+          <CardDescription>
+            Share of past picks you played within {REC_CONVERSION_WINDOW_DAYS} days (hit) and played at least{" "}
+            {REC_KEPT_PLAY_COUNT} times since (kept), by the seed strategy that produced them. Picks still inside
+            their {REC_CONVERSION_WINDOW_DAYS}-day window are pending.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {hitRates.length === 0 ? (
+            <p className="text-sm text-zinc-400">No past recommendations to measure yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Strategy</TableHead>
+                  <TableHead className="text-right">Picks</TableHead>
+                  <TableHead className="text-right">Pending</TableHead>
+                  <TableHead className="text-right">Hit Rate</TableHead>
+                  <TableHead className="text-right">Kept</TableHead>
+                  <TableHead className="text-right">Avg. Plays</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {hitRates.map((row) => (
+                  <TableRow key={row.strategy}>
+                    <TableCell>
+                      <code className="text-xs">{row.strategy}</code>
+                    </TableCell>
+                    <TableCell className="text-right">{row.recommended}</TableCell>
+                    <TableCell className="text-right text-zinc-400">{row.pending}</TableCell>
+                    <TableCell className="text-right">{formatRate(row.hitRate)}</TableCell>
+                    <TableCell className="text-right">{formatRate(row.keepRate)}</TableCell>
+                    <TableCell className="text-right">{row.averagePlays ?? "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -1,33 +1,26 @@
 import Link from "next/link";
 
-import { getDashboardStats } from "@/lib/analytics/service";
-import { parseTimeRangeFromSearchParams } from "@/lib/date-range";
+import { getDashboardStats, getListeningClock, getListeningMilestones } from "@/lib/analytics/service";
+import type { MetricDelta } from "@/lib/analytics/types";
+import { buildRangeQuery, parseTimeRangeFromSearchParams, resolveTimeZone } from "@/lib/date-range";
 import { requireUser } from "@/lib/auth/session";
+import { formatStreak, MilestoneList } from "@/components/analytics/milestone-list";
 import { StatCard } from "@/components/analytics/stat-card";
 import { TimeRangeFilter } from "@/components/analytics/time-range-filter";
 import { TopPreview } from "@/components/analytics/top-preview";
+import { ListeningClockHeatmap } from "@/components/charts/listening-clock-heatmap";
 import { ListeningOverTimeChart } from "@/components/charts/listening-over-time-chart";
 import { TopBreakdownChart } from "@/components/charts/top-breakdown-chart";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 
-function buildRangeQuery(params: Record<string, string | string[] | undefined>): string {
-  const query = new URLSearchParams();
-
-  const preset = typeof params.preset === "string" ? params.preset : undefined;
-  const from = typeof params.from === "string" ? params.from : undefined;
-  const to = typeof params.to === "string" ? params.to : undefined;
-
-  if (preset) {
-    query.set("preset", preset);
-  }
-
-  if (from && to) {
-    query.set("from", from);
-    query.set("to", to);
+function formatDelta(delta: MetricDelta | undefined, unit = ""): string | undefined {
+  if (!delta) {
+    return undefined;
   }
 
-  const output = query.toString();
-  return output ? `?${output}` : "";
+  const sign = delta.change > 0 ? "+" : "";
+  const percent = delta.percentChange === null ? "" : ` (${sign}${delta.percentChange}%)`;
+  return `${sign}${delta.change}${unit}${percent} vs. previous period`;
 }
 
 export default async function DashboardPage({
@@ -37,8 +30,15 @@ export default async function DashboardPage({
 }) {
   const user = await requireUser();
   const params = await searchParams;
-  const range = parseTimeRangeFromSearchParams(params);
-  const stats = await getDashboardStats(user.id, range);
+  const timeZone = resolveTimeZone(user.timeZone);
+  const range = parseTimeRangeFromSearchParams(params, timeZone);
+  const clockArtist = typeof params.clockArtist === "string" ? params.clockArtist : undefined;
+  const clockGenre = typeof params.clockGenre === "string" ? params.clockGenre : undefined;
+  const [stats, clock, milestones] = await Promise.all([
+    getDashboardStats(user.id, range, { compare: params.compare === "1" && range.preset !== "all" }),
+    getListeningClock(user.id, range, clockArtist ? { artistId: clockArtist } : { genre: clockGenre }),
+    getListeningMilestones(user.id),
+  ]);
   const rangeQuery = buildRangeQuery(params);
   const isAllTime = range.preset === "all";
 
@@ -50,8 +50,14 @@ export default async function DashboardPage({
           <p className="text-sm text-zinc-400">
             {isAllTime
               ? "Listening summary for all time"
-              : `Listening summary from ${range.from.toLocaleDateString()} to ${range.to.toLocaleDateString()}`}
+              : `Listening summary from ${range.from.toLocaleDateString(undefined, { timeZone })} to ${range.to.toLocaleDateString(undefined, { timeZone })}`}
           </p>
+          {stats.comparison ? (
+            <p className="text-xs text-zinc-500">
+              Compared with {stats.comparison.previousRange.from.toLocaleDateString(undefined, { timeZone })} to{" "}
+              {stats.comparison.previousRange.to.toLocaleDateString(undefined, { timeZone })}
+            </p>
+          ) : null}
         </div>
         <Link href={`/api/export/pdf${rangeQuery}`} className="text-sm text-[#1ed760] hover:underline">
           Export PDF snapshot
@@ -61,10 +67,26 @@ export default async function DashboardPage({
       <TimeRangeFilter />
 
       <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
-        <StatCard title="Total Listening (Hours)" value={stats.totalListeningHours} />
-        <StatCard title="Total Unique Songs" value={stats.totalUniqueSongs} />
-        <StatCard title="Total Unique Artists" value={stats.totalUniqueArtists} />
-        <StatCard title="Total Unique Albums" value={stats.totalUniqueAlbums} />
+        <StatCard
+          title="Total Listening (Hours)"
+          value={stats.totalListeningHours}
+          subtitle={formatDelta(stats.comparison?.totalListeningHours, " h")}
+        />
+        <StatCard
+          title="Total Unique Songs"
+          value={stats.totalUniqueSongs}
+          subtitle={formatDelta(stats.comparison?.totalUniqueSongs)}
+        />
+        <StatCard
+          title="Total Unique Artists"
+          value={stats.totalUniqueArtists}
+          subtitle={formatDelta(stats.comparison?.totalUniqueArtists)}
+        />
+        <StatCard
+          title="Total Unique Albums"
+          value={stats.totalUniqueAlbums}
+          subtitle={formatDelta(stats.comparison?.totalUniqueAlbums)}
+        />
       </div>
 
       <div className="grid gap-4 xl:grid-cols-3">
@@ -93,16 +115,71 @@ export default async function DashboardPage({
       </div>
 
       <div className="grid gap-4 lg:grid-cols-3">
-        <TopPreview title="Top Songs" items={stats.topSongsPreview} viewAllHref={`/top-songs${rangeQuery}`} />
+        <StatCard
+          title="Current Listening Streak"
+          value={`${milestones.listeningStreak.current?.days ?? 0} days`}
+          subtitle={`Longest: ${formatStreak(milestones.listeningStreak.longest)}`}
+        />
+        <StatCard
+          title={
+            milestones.topArtistStreak ? `${milestones.topArtistStreak.artistName} Streak` : "Top Artist Streak"
+          }
+          value={`${milestones.topArtistStreak?.current?.days ?? 0} days`}
+          subtitle={
+            milestones.topArtistStreak
+              ? `Longest: ${formatStreak(milestones.topArtistStreak.longest)}`
+              : "No plays in the last 30 days"
+          }
+        />
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Milestones</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <MilestoneList
+              milestones={milestones.milestones.slice(0, 5)}
+              timeZone={timeZone}
+              emptyMessage="Keep listening to reach your first milestone."
+            />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Listening Clock</CardTitle>
+          <CardDescription>When you listen, by day of week and hour of day.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ListeningClockHeatmap
+            clock={clock}
+            artistOptions={stats.topArtistsPreview.map((artist) => ({ id: artist.id, name: artist.name }))}
+            genreOptions={stats.topGenresPreview.map((genre) => ({ id: genre.id, name: genre.name }))}
+          />
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 lg:grid-cols-3">
+        <TopPreview
+          title="Top Songs"
+          items={stats.topSongsPreview}
+          viewAllHref={`/top-songs${rangeQuery}`}
+          entityType="track"
+          rangeQuery={rangeQuery}
+        />
         <TopPreview
           title="Top Artists"
           items={stats.topArtistsPreview}
           viewAllHref={`/top-artists${rangeQuery}`}
+          entityType="artist"
+          rangeQuery={rangeQuery}
         />
         <TopPreview
           title="Top Albums"
           items={stats.topAlbumsPreview}
           viewAllHref={`/top-albums${rangeQuery}`}
+          entityType="album"
+          rangeQuery={rangeQuery}
         />
       </div>
     </div>
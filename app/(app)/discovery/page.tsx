@@ -0,0 +1,137 @@
+import Link from "next/link";
+
+import { isDiscoveryPeriod } from "@/lib/analytics/discovery";
+import { entityDetailHref } from "@/lib/analytics/entity-links";
+import { getDiscoveryReport } from "@/lib/analytics/service";
+import type { Discovery, DiscoveryPeriod } from "@/lib/analytics/types";
+import { requireUser } from "@/lib/auth/session";
+import { buildRangeQuery, parseTimeRangeFromSearchParams, resolveTimeZone } from "@/lib/date-range";
+import { StatCard } from "@/components/analytics/stat-card";
+import { TimeRangeFilter } from "@/components/analytics/time-range-filter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+// Longer lists are cut off per period and type, with a "+N more" note.
+const DISCOVERY_LIST_LIMIT = 25;
+
+const DISCOVERY_GROUPS: Array<{ type: Discovery["type"]; label: string }> = [
+  { type: "artist", label: "Artists" },
+  { type: "track", label: "Tracks" },
+  { type: "genre", label: "Genres" },
+];
+
+function formatRatio(ratio: number | null): string {
+  return ratio === null ? "-" : `${Math.round(ratio * 100)}%`;
+}
+
+function formatPeriod(periodStart: string, period: DiscoveryPeriod): string {
+  const date = new Date(`${periodStart}T00:00:00Z`);
+  return period === "month"
+    ? date.toLocaleDateString(undefined, { timeZone: "UTC", month: "long", year: "numeric" })
+    : `Week of ${date.toLocaleDateString(undefined, { timeZone: "UTC" })}`;
+}
+
+export default async function DiscoveryPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const user = await requireUser();
+  const params = await searchParams;
+  const range = parseTimeRangeFromSearchParams(params, resolveTimeZone(user.timeZone));
+  const period: DiscoveryPeriod = isDiscoveryPeriod(params.period) ? params.period : "week";
+
+  const report = await getDiscoveryReport(user.id, range, period);
+  const rangeQuery = buildRangeQuery(params);
+
+  const periodHref = (target: DiscoveryPeriod) => {
+    const query = new URLSearchParams(rangeQuery.slice(1));
+    query.set("period", target);
+    return `/discovery?${query.toString()}`;
+  };
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <h1 className="text-2xl font-semibold tracking-tight">Discovery</h1>
+        <p className="text-sm text-zinc-400">Artists, tracks and genres you heard for the first time ever.</p>
+      </div>
+
+      <TimeRangeFilter />
+
+      <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+        <StatCard title="New Artists" value={report.totals.newArtists} />
+        <StatCard title="New Tracks" value={report.totals.newTracks} />
+        <StatCard title="New Genres" value={report.totals.newGenres} />
+        <StatCard
+          title="Novelty Ratio"
+          value={formatRatio(report.totals.noveltyRatio)}
+          subtitle={`Minutes on tracks first heard in the last ${report.noveltyWindowDays} days`}
+        />
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-3">
+          <div>
+            <CardTitle>Discoveries by {period === "week" ? "Week" : "Month"}</CardTitle>
+            <CardDescription>Newest first, in {report.timeZone}.</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button asChild variant={period === "week" ? "default" : "secondary"} size="sm">
+              <Link href={periodHref("week")}>Weekly</Link>
+            </Button>
+            <Button asChild variant={period === "month" ? "default" : "secondary"} size="sm">
+              <Link href={periodHref("month")}>Monthly</Link>
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {report.periods.length === 0 ? (
+            <p className="text-sm text-zinc-400">No listening events in this range yet.</p>
+          ) : (
+            report.periods.map((summary) => (
+              <details key={summary.periodStart} className="rounded-xl border border-zinc-800 bg-zinc-950/70 p-3">
+                <summary className="flex cursor-pointer flex-wrap items-baseline justify-between gap-2">
+                  <span className="font-medium text-zinc-100">{formatPeriod(summary.periodStart, period)}</span>
+                  <span className="text-xs text-zinc-400">
+                    {summary.newArtists} artists · {summary.newTracks} tracks · {summary.newGenres} genres · novelty{" "}
+                    {formatRatio(summary.noveltyRatio)} of {summary.listenedMinutes} min
+                  </span>
+                </summary>
+                <div className="mt-3 grid gap-3 md:grid-cols-3">
+                  {DISCOVERY_GROUPS.map((group) => {
+                    const items = summary.discoveries.filter((discovery) => discovery.type === group.type);
+                    return (
+                      <div key={group.type}>
+                        <p className="mb-1 text-xs font-medium uppercase tracking-wide text-zinc-500">{group.label}</p>
+                        {items.length === 0 ? (
+                          <p className="text-sm text-zinc-500">None</p>
+                        ) : (
+                          <ul className="space-y-1 text-sm">
+                            {items.slice(0, DISCOVERY_LIST_LIMIT).map((discovery) => (
+                              <li key={discovery.id} className="line-clamp-1">
+                                <Link
+                                  href={entityDetailHref({ type: discovery.type, id: discovery.id }, rangeQuery)}
+                                  className="text-zinc-200 hover:text-[#1ed760] hover:underline"
+                                >
+                                  {discovery.name}
+                                </Link>
+                              </li>
+                            ))}
+                            {items.length > DISCOVERY_LIST_LIMIT ? (
+                              <li className="text-zinc-500">+{items.length - DISCOVERY_LIST_LIMIT} more</li>
+                            ) : null}
+                          </ul>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </details>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { AppShell } from "@/components/layout/app-shell";
 import { LogoutButton } from "@/components/layout/logout-button";
+import { TimeZoneSync } from "@/components/layout/time-zone-sync";
 import { Badge } from "@/components/ui/badge";
 import { requireUser } from "@/lib/auth/session";
 
@@ -18,6 +19,7 @@ export default async function ProtectedLayout({ children }: { children: React.Re
           <LogoutButton />
         </div>
       </header>
+      {user.timeZone ? null : <TimeZoneSync />}
       {children}
     </AppShell>
   );
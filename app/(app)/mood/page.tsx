@@ -0,0 +1,120 @@
+import Link from "next/link";
+
+import { entityDetailHref } from "@/lib/analytics/entity-links";
+import { getMoodReport } from "@/lib/analytics/service";
+import type { MoodQuadrant } from "@/lib/analytics/types";
+import { requireUser } from "@/lib/auth/session";
+import { buildRangeQuery, parseTimeRangeFromSearchParams, resolveTimeZone } from "@/lib/date-range";
+import { TimeRangeFilter } from "@/components/analytics/time-range-filter";
+import { FeatureHistogramChart } from "@/components/charts/feature-histogram-chart";
+import { MoodQuadrantChart } from "@/components/charts/mood-quadrant-chart";
+import { MoodTimelineChart } from "@/components/charts/mood-timeline-chart";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+const QUADRANT_TRACK_PREVIEW = 5;
+
+const QUADRANTS: Array<{ quadrant: MoodQuadrant; label: string; description: string }> = [
+  { quadrant: "upbeat", label: "Upbeat", description: "High energy, positive" },
+  { quadrant: "intense", label: "Intense", description: "High energy, negative" },
+  { quadrant: "peaceful", label: "Peaceful", description: "Low energy, positive" },
+  { quadrant: "melancholic", label: "Melancholic", description: "Low energy, negative" },
+];
+
+export default async function MoodPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const user = await requireUser();
+  const params = await searchParams;
+  const range = parseTimeRangeFromSearchParams(params, resolveTimeZone(user.timeZone));
+
+  const report = await getMoodReport(user.id, range);
+  const rangeQuery = buildRangeQuery(params);
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <h1 className="text-2xl font-semibold tracking-tight">Mood</h1>
+        <p className="text-sm text-zinc-400">
+          Energy, valence, danceability and tempo of what you played.{" "}
+          {report.totalPlays > 0
+            ? `${report.playsWithFeatures} of ${report.totalPlays} plays in this range have audio features.`
+            : null}
+        </p>
+      </div>
+
+      <TimeRangeFilter />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Mood Over Time</CardTitle>
+          <CardDescription>Weekly averages, weighted by listening time ({report.timeZone}).</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <MoodTimelineChart data={report.timeline} />
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Energy</CardTitle>
+            <CardDescription>Plays by track energy, from calm to energetic.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <FeatureHistogramChart data={report.energyHistogram} />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>Valence</CardTitle>
+            <CardDescription>Plays by track valence, from sad to happy.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <FeatureHistogramChart data={report.valenceHistogram} color="#facc15" />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Mood Quadrant</CardTitle>
+          <CardDescription>Your most played tracks by valence and energy; larger dots were played more.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <MoodQuadrantChart data={report.quadrantTracks} />
+          <div className="grid gap-3 md:grid-cols-2 xl:grid-cols-4">
+            {QUADRANTS.map(({ quadrant, label, description }) => {
+              const tracks = report.quadrantTracks.filter((track) => track.quadrant === quadrant);
+              return (
+                <div key={quadrant} className="rounded-xl border border-zinc-800 bg-zinc-950/70 p-3">
+                  <p className="font-medium text-zinc-100">
+                    {label} <span className="text-xs text-zinc-500">({tracks.length})</span>
+                  </p>
+                  <p className="mb-2 text-xs text-zinc-500">{description}</p>
+                  {tracks.length === 0 ? (
+                    <p className="text-sm text-zinc-500">None</p>
+                  ) : (
+                    <ul className="space-y-1 text-sm">
+                      {tracks.slice(0, QUADRANT_TRACK_PREVIEW).map((track) => (
+                        <li key={track.id} className="line-clamp-1">
+                          <Link
+                            href={entityDetailHref({ type: "track", id: track.id }, rangeQuery)}
+                            className="text-zinc-200 hover:text-[#1ed760] hover:underline"
+                          >
+                            {track.name}
+                          </Link>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
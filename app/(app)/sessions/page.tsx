@@ -0,0 +1,142 @@
+import Link from "next/link";
+
+import { getSessionStats, getSessionTimeline } from "@/lib/analytics/service";
+import { requireUser } from "@/lib/auth/session";
+import {
+  addDaysToDateKey,
+  parseTimeRangeFromSearchParams,
+  resolveTimeZone,
+  toDateKey,
+} from "@/lib/date-range";
+import { StatCard } from "@/components/analytics/stat-card";
+import { TimeRangeFilter } from "@/components/analytics/time-range-filter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+
+const DATE_KEY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+function formatMinutes(ms: number): string {
+  const minutes = Math.round(ms / 1000 / 60);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+export default async function SessionsPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const user = await requireUser();
+  const params = await searchParams;
+  const timeZone = resolveTimeZone(user.timeZone);
+  const range = parseTimeRangeFromSearchParams(params, timeZone);
+
+  const day =
+    typeof params.day === "string" && DATE_KEY_REGEX.test(params.day) ? params.day : toDateKey(new Date(), timeZone);
+
+  const [stats, timeline] = await Promise.all([
+    getSessionStats(user.id, range),
+    getSessionTimeline(user.id, day, timeZone),
+  ]);
+
+  const dayHref = (target: string) => {
+    const query = new URLSearchParams();
+    for (const key of ["preset", "from", "to"]) {
+      const value = params[key];
+      if (typeof value === "string") {
+        query.set(key, value);
+      }
+    }
+    query.set("day", target);
+    return `/sessions?${query.toString()}`;
+  };
+
+  const formatTime = (value: Date) =>
+    value.toLocaleTimeString(undefined, { timeZone, hour: "2-digit", minute: "2-digit" });
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <h1 className="text-2xl font-semibold tracking-tight">Sessions</h1>
+        <p className="text-sm text-zinc-400">
+          Plays less than 30 minutes apart are grouped into one listening session.
+        </p>
+      </div>
+
+      <TimeRangeFilter />
+
+      <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-5">
+        <StatCard title="Sessions" value={stats.sessionCount} />
+        <StatCard title="Average Session (Minutes)" value={stats.averageSessionMinutes} />
+        <StatCard title="Longest Session (Minutes)" value={stats.longestSessionMinutes} />
+        <StatCard title="Tracks per Session" value={stats.averageTracksPerSession} />
+        <StatCard
+          title="Most Common Opener"
+          value={stats.mostCommonFirstTrack?.name ?? "-"}
+          subtitle={
+            stats.mostCommonFirstTrack ? `Started ${stats.mostCommonFirstTrack.sessionCount} sessions` : undefined
+          }
+        />
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-3">
+          <div>
+            <CardTitle>Timeline</CardTitle>
+            <CardDescription>Sessions that started on the chosen day ({timeZone}).</CardDescription>
+          </div>
+          <form className="flex flex-wrap items-center gap-2" method="GET">
+            <Button asChild variant="secondary" size="sm">
+              <Link href={dayHref(addDaysToDateKey(day, -1))}>Previous day</Link>
+            </Button>
+            <Input type="date" name="day" defaultValue={day} className="w-[150px]" aria-label="Timeline day" />
+            {typeof params.preset === "string" ? <input type="hidden" name="preset" value={params.preset} /> : null}
+            {typeof params.from === "string" ? <input type="hidden" name="from" value={params.from} /> : null}
+            {typeof params.to === "string" ? <input type="hidden" name="to" value={params.to} /> : null}
+            <Button type="submit" variant="secondary" size="sm">
+              Show
+            </Button>
+            <Button asChild variant="secondary" size="sm">
+              <Link href={dayHref(addDaysToDateKey(day, 1))}>Next day</Link>
+            </Button>
+          </form>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {timeline.sessions.length === 0 ? (
+            <p className="text-sm text-zinc-400">No listening sessions on this day.</p>
+          ) : (
+            timeline.sessions.map((session) => (
+              <div
+                key={session.startedAt.toISOString()}
+                className="rounded-xl border border-zinc-800 bg-zinc-950/70 p-3"
+              >
+                <div className="mb-2 flex flex-wrap items-baseline justify-between gap-2">
+                  <p className="font-medium text-zinc-100">
+                    {formatTime(session.startedAt)} - {formatTime(session.endedAt)}
+                  </p>
+                  <p className="text-xs text-zinc-500">
+                    {session.plays.length} tracks · {formatMinutes(session.endedAt.getTime() - session.startedAt.getTime())}
+                  </p>
+                </div>
+                <ol className="space-y-1 text-sm">
+                  {session.plays.map((play) => (
+                    <li key={`${play.trackId}-${play.playedAt.toISOString()}`} className="flex gap-3">
+                      <span className="w-12 shrink-0 text-zinc-500">{formatTime(play.playedAt)}</span>
+                      <span className="text-zinc-200">
+                        {play.trackName}
+                        <span className="text-zinc-500">
+                          {" "}
+                          · {play.artistIds.map((id) => timeline.artistNames[id] ?? "Unknown Artist").join(", ")}
+                        </span>
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import Link from "next/link";
 
 import { ImportExportClient } from "@/components/import-export-client";
+import { ImportHistoryClient } from "@/components/import-history-client";
 import { Button } from "@/components/ui/button";
 
 export default function SettingsImportPage() {
@@ -10,7 +11,7 @@ export default function SettingsImportPage() {
         <div>
           <h1 className="text-2xl font-semibold tracking-tight">Settings / Import</h1>
           <p className="text-sm text-zinc-400">
-            Import previous Spotify JSON history, run Spotify sync, and export data.
+            Import previous Spotify JSON history, run Spotify sync, review past imports, and export data.
           </p>
         </div>
         <Button asChild variant="secondary">
@@ -19,6 +20,7 @@ export default function SettingsImportPage() {
       </div>
 
       <ImportExportClient />
+      <ImportHistoryClient />
     </div>
   );
 }
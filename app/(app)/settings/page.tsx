@@ -1,10 +1,19 @@
 import Link from "next/link";
 
+import { CollaborativeRecsSettingsClient } from "@/components/collaborative-recs-settings-client";
 import { LogoutButton } from "@/components/layout/logout-button";
+import { RecPreferencesSettingsClient } from "@/components/rec-preferences-settings-client";
+import { TimeZoneSettingsClient } from "@/components/time-zone-settings-client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { requireUser } from "@/lib/auth/session";
+import { MIN_SHARED_LISTENERS } from "@/lib/recommendations/collaborative";
+import { getRecPreferences } from "@/lib/recommendations/engine";
+
+export default async function SettingsPage() {
+  const user = await requireUser();
+  const recPreferences = await getRecPreferences(user.id);
 
-export default function SettingsPage() {
   return (
     <div className="space-y-4">
       <h1 className="text-2xl font-semibold tracking-tight">Settings</h1>
@@ -27,6 +36,15 @@ export default function SettingsPage() {
         </CardContent>
       </Card>
 
+      <TimeZoneSettingsClient initialTimeZone={user.timeZone} />
+
+      <RecPreferencesSettingsClient initialPreferences={recPreferences} />
+
+      <CollaborativeRecsSettingsClient
+        initialEnabled={user.collaborativeRecs}
+        minSharedListeners={MIN_SHARED_LISTENERS}
+      />
+
       <Card>
         <CardHeader>
           <CardTitle>Account</CardTitle>
@@ -1,5 +1,5 @@
-import { getTopEntries } from "@/lib/analytics/service";
-import { parseTimeRangeFromSearchParams } from "@/lib/date-range";
+import { getTopEntries, getTopEntriesComparison } from "@/lib/analytics/service";
+import { buildRangeQuery, parseTimeRangeFromSearchParams, resolveTimeZone } from "@/lib/date-range";
 import { requireUser } from "@/lib/auth/session";
 import { TimeRangeFilter } from "@/components/analytics/time-range-filter";
 import { TopTable } from "@/components/analytics/top-table";
@@ -15,7 +15,7 @@ export default async function TopAlbumsPage({
 }) {
   const user = await requireUser();
   const params = await searchParams;
-  const range = parseTimeRangeFromSearchParams(params);
+  const range = parseTimeRangeFromSearchParams(params, resolveTimeZone(user.timeZone));
 
   const search = typeof params.search === "string" ? params.search : "";
   const sortParam = typeof params.sort === "string" ? params.sort : "plays";
@@ -23,7 +23,10 @@ export default async function TopAlbumsPage({
     ? (sortParam as (typeof SORT_OPTIONS)[number])
     : "plays";
 
-  const rows = await getTopEntries(user.id, range, "albums", { search, sort });
+  const compare = params.compare === "1" && range.preset !== "all";
+  const { entries: rows, dropped } = compare
+    ? await getTopEntriesComparison(user.id, range, "albums", { search, sort })
+    : { entries: await getTopEntries(user.id, range, "albums", { search, sort }), dropped: [] };
 
   return (
     <div className="space-y-5">
@@ -46,13 +49,14 @@ export default async function TopAlbumsPage({
         {typeof params.preset === "string" ? <input type="hidden" name="preset" value={params.preset} /> : null}
         {typeof params.from === "string" ? <input type="hidden" name="from" value={params.from} /> : null}
         {typeof params.to === "string" ? <input type="hidden" name="to" value={params.to} /> : null}
+        {compare ? <input type="hidden" name="compare" value="1" /> : null}
 
         <Button variant="secondary" type="submit">
           Apply
         </Button>
       </form>
 
-      <TopTable rows={rows} />
+      <TopTable rows={rows} dropped={dropped} entityType="album" rangeQuery={buildRangeQuery(params)} />
     </div>
   );
 }
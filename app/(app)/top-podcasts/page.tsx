@@ -0,0 +1,79 @@
+import { getTopPodcasts } from "@/lib/analytics/service";
+import { parseTimeRangeFromSearchParams, resolveTimeZone } from "@/lib/date-range";
+import { requireUser } from "@/lib/auth/session";
+import { StatCard } from "@/components/analytics/stat-card";
+import { TimeRangeFilter } from "@/components/analytics/time-range-filter";
+import { TopTable } from "@/components/analytics/top-table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+const SORT_OPTIONS = ["minutes", "plays", "recent"] as const;
+
+export default async function TopPodcastsPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const user = await requireUser();
+  const params = await searchParams;
+  const range = parseTimeRangeFromSearchParams(params, resolveTimeZone(user.timeZone));
+
+  const search = typeof params.search === "string" ? params.search : "";
+  const sortParam = typeof params.sort === "string" ? params.sort : "minutes";
+  const sort = SORT_OPTIONS.includes(sortParam as (typeof SORT_OPTIONS)[number])
+    ? (sortParam as (typeof SORT_OPTIONS)[number])
+    : "minutes";
+
+  const [podcasts, audiobooks] = await Promise.all([
+    getTopPodcasts(user.id, range, { search, sort, mediaType: "podcast" }),
+    getTopPodcasts(user.id, range, { search, sort, mediaType: "audiobook" }),
+  ]);
+
+  const podcastHours = podcasts.reduce((sum, row) => sum + row.totalMinutes, 0) / 60;
+  const audiobookHours = audiobooks.reduce((sum, row) => sum + row.totalMinutes, 0) / 60;
+  const episodePlays = [...podcasts, ...audiobooks].reduce((sum, row) => sum + row.playCount, 0);
+
+  return (
+    <div className="space-y-5">
+      <h1 className="text-2xl font-semibold tracking-tight">Top Podcasts</h1>
+      <TimeRangeFilter />
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <StatCard title="Podcast Listening (Hours)" value={podcastHours.toFixed(1)} />
+        <StatCard title="Audiobook Listening (Hours)" value={audiobookHours.toFixed(1)} />
+        <StatCard title="Episode Plays" value={episodePlays} />
+      </div>
+
+      <form className="flex flex-wrap gap-2 rounded-xl border border-zinc-800 bg-zinc-950/70 p-3" method="GET">
+        <Input name="search" placeholder="Search shows..." defaultValue={search} className="max-w-xs" />
+        <select
+          name="sort"
+          defaultValue={sort}
+          className="h-10 rounded-lg border border-zinc-700 bg-zinc-900 px-3 text-sm text-zinc-100"
+          aria-label="Sort top podcasts"
+        >
+          <option value="minutes">Sort: Minutes</option>
+          <option value="plays">Sort: Plays</option>
+          <option value="recent">Sort: Recent</option>
+        </select>
+
+        {typeof params.preset === "string" ? <input type="hidden" name="preset" value={params.preset} /> : null}
+        {typeof params.from === "string" ? <input type="hidden" name="from" value={params.from} /> : null}
+        {typeof params.to === "string" ? <input type="hidden" name="to" value={params.to} /> : null}
+
+        <Button variant="secondary" type="submit">
+          Apply
+        </Button>
+      </form>
+
+      <TopTable rows={podcasts} />
+
+      {audiobooks.length > 0 ? (
+        <div className="space-y-3">
+          <h2 className="text-lg font-semibold tracking-tight">Audiobooks</h2>
+          <TopTable rows={audiobooks} />
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { notFound } from "next/navigation";
+
+import { getEntityDetail } from "@/lib/analytics/service";
+import { requireUser } from "@/lib/auth/session";
+import { buildRangeQuery, parseTimeRangeFromSearchParams, resolveTimeZone } from "@/lib/date-range";
+import { EntityDetailView } from "@/components/analytics/entity-detail-view";
+
+export default async function TrackPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const user = await requireUser();
+  const [{ id }, query] = await Promise.all([params, searchParams]);
+  const range = parseTimeRangeFromSearchParams(query, resolveTimeZone(user.timeZone));
+
+  const detail = await getEntityDetail(user.id, range, { type: "track", id: id });
+  if (!detail) {
+    notFound();
+  }
+
+  return <EntityDetailView detail={detail} rangeQuery={buildRangeQuery(query)} />;
+}
@@ -1,7 +1,7 @@
-import { endOfYear, startOfYear } from "date-fns";
-
 import { getWrappedSummary } from "@/lib/analytics/service";
 import { requireUser } from "@/lib/auth/session";
+import { resolveTimeZone } from "@/lib/date-range";
+import { formatStreak, MilestoneList } from "@/components/analytics/milestone-list";
 import { ShareWrappedButton } from "@/components/analytics/share-wrapped-button";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -20,8 +20,8 @@ export default async function WrappedPage({
 
   const wrapped = await getWrappedSummary(user.id, year);
 
-  const from = startOfYear(new Date(year, 0, 1)).toISOString().slice(0, 10);
-  const to = endOfYear(new Date(year, 11, 31)).toISOString().slice(0, 10);
+  const from = `${year}-01-01`;
+  const to = `${year}-12-31`;
   const shareSummary = `My Spotify Wrapped ${year}: ${wrapped.totalMinutes} minutes, top song ${wrapped.topSong?.name ?? "N/A"}, top artist ${wrapped.topArtist?.name ?? "N/A"}, personality ${wrapped.personality.label}.`;
 
   return (
@@ -82,6 +82,20 @@ export default async function WrappedPage({
         </Card>
       </div>
 
+      <Card className="animate-fade-in">
+        <CardHeader>
+          <CardTitle>Streaks &amp; Milestones</CardTitle>
+          <CardDescription>Longest listening streak: {formatStreak(wrapped.longestStreak)}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <MilestoneList
+            milestones={wrapped.milestones}
+            timeZone={resolveTimeZone(user.timeZone)}
+            emptyMessage={`No milestones reached in ${year}.`}
+          />
+        </CardContent>
+      </Card>
+
       <Card className="animate-fade-in">
         <CardHeader>
           <CardTitle>Top Genres</CardTitle>
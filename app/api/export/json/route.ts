@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 
 import { getAnalyticsExportPayload } from "@/lib/analytics/service";
 import { getCurrentUser } from "@/lib/auth/session";
-import { parseTimeRangeFromSearchParams } from "@/lib/date-range";
+import { parseTimeRangeFromSearchParams, resolveTimeZone } from "@/lib/date-range";
 import { prisma } from "@/lib/prisma";
 
 export async function GET(request: NextRequest): Promise<NextResponse> {
@@ -13,13 +13,15 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
 
   const range = parseTimeRangeFromSearchParams(
     Object.fromEntries(request.nextUrl.searchParams.entries()),
+    resolveTimeZone(user.timeZone),
   );
   const wrappedYear = Number(request.nextUrl.searchParams.get("year") ?? new Date().getFullYear());
 
-  const [payload, importRuns, playEvents] = await Promise.all([
+  const [payload, importRuns, playEvents, episodePlays] = await Promise.all([
     getAnalyticsExportPayload(user.id, range, wrappedYear),
     prisma.importRun.findMany({ where: { userId: user.id }, orderBy: { startedAt: "desc" } }),
     prisma.playEvent.findMany({ where: { userId: user.id }, orderBy: { playedAt: "desc" } }),
+    prisma.episodePlayEvent.findMany({ where: { userId: user.id }, orderBy: { playedAt: "desc" } }),
   ]);
 
   const trackIds = [...new Set(playEvents.map((event) => event.trackId))];
@@ -28,9 +30,14 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
   const albumIds = [...new Set(tracks.map((track) => track.albumId).filter(Boolean))] as string[];
   const artistIds = [...new Set(tracks.flatMap((track) => track.artistIds))];
 
-  const [albums, artists] = await Promise.all([
+  const episodeIds = [...new Set(episodePlays.map((event) => event.episodeId))];
+  const episodes = await prisma.episode.findMany({ where: { id: { in: episodeIds } } });
+  const showIds = [...new Set(episodes.map((episode) => episode.showId))];
+
+  const [albums, artists, shows] = await Promise.all([
     prisma.album.findMany({ where: { id: { in: albumIds } } }),
     prisma.artist.findMany({ where: { id: { in: artistIds } } }),
+    prisma.show.findMany({ where: { id: { in: showIds } } }),
   ]);
 
   return NextResponse.json({
@@ -43,10 +50,14 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       createdAt: user.createdAt,
     },
     importRuns,
-    plays: playEvents,
-    tracks,
+    // Catalog sections come before plays so streaming restores can resolve references in order.
     albums,
     artists,
+    tracks,
+    plays: playEvents,
+    shows,
+    episodes,
+    episodePlays,
     aggregates: payload,
   });
 }
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 
 import { getAnalyticsExportPayload } from "@/lib/analytics/service";
 import { getCurrentUser } from "@/lib/auth/session";
-import { parseTimeRangeFromSearchParams } from "@/lib/date-range";
+import { parseTimeRangeFromSearchParams, resolveTimeZone } from "@/lib/date-range";
 import { buildPdfReport } from "@/lib/export/report";
 
 export const runtime = "nodejs";
@@ -15,6 +15,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
 
   const range = parseTimeRangeFromSearchParams(
     Object.fromEntries(request.nextUrl.searchParams.entries()),
+    resolveTimeZone(user.timeZone),
   );
   const wrappedYear = Number(request.nextUrl.searchParams.get("year") ?? new Date().getFullYear());
 
@@ -1,8 +1,8 @@
 import { NextResponse } from "next/server";
 
 import { getCurrentUser } from "@/lib/auth/session";
+import { enqueueImportJob, findActiveImportJob } from "@/lib/jobs/queue";
 import { prisma } from "@/lib/prisma";
-import { runSpotifyImport } from "@/lib/spotify/importer";
 
 export async function POST(): Promise<NextResponse> {
   const user = await getCurrentUser();
@@ -11,23 +11,14 @@ export async function POST(): Promise<NextResponse> {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  const existingRun = await prisma.importRun.findFirst({
-    where: {
-      userId: user.id,
-      status: "running",
-      startedAt: {
-        gte: new Date(Date.now() - 15 * 60 * 1000),
-      },
-    },
-    orderBy: { startedAt: "desc" },
-  });
+  const existingJob = await findActiveImportJob(user.id, "spotify-full");
 
-  if (existingRun) {
+  if (existingJob) {
     return NextResponse.json(
       {
         ok: true,
         alreadyRunning: true,
-        importRunId: existingRun.id,
+        importRunId: existingJob.importRunId,
       },
       { status: 202 },
     );
@@ -36,13 +27,15 @@ export async function POST(): Promise<NextResponse> {
   const importRun = await prisma.importRun.create({
     data: {
       userId: user.id,
-      status: "running",
+      status: "queued",
       message: "Import queued",
     },
   });
 
-  void runSpotifyImport(user.id, importRun.id).catch((error) => {
-    console.error("Import pipeline failed", error);
+  await enqueueImportJob({
+    userId: user.id,
+    type: "spotify-full",
+    importRunId: importRun.id,
   });
 
   return NextResponse.json({
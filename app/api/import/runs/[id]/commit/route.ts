@@ -0,0 +1,70 @@
+import { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+
+import { getCurrentUser } from "@/lib/auth/session";
+import { enqueueImportJob } from "@/lib/jobs/queue";
+import { prisma } from "@/lib/prisma";
+
+// Imports the files of a previewed dry run. The staged files are still on disk, so the worker
+// processes them again with writes enabled.
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<NextResponse> {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const importRun = await prisma.importRun.findFirst({
+    where: { id, userId: user.id, source: "json_upload" },
+  });
+
+  if (!importRun) {
+    return NextResponse.json({ error: "Import run not found" }, { status: 404 });
+  }
+
+  const fileCount = await prisma.importFile.count({
+    where: { importRunId: importRun.id, status: "previewed" },
+  });
+
+  // The status check and the switch to queued are one statement, so concurrent confirmations
+  // queue the run once.
+  const claimed = await prisma.importRun.updateMany({
+    where: { id: importRun.id, status: "previewed", dryRun: true },
+    data: {
+      status: "queued",
+      dryRun: false,
+      message: `Queued ${fileCount} file(s) for import`,
+      finishedAt: null,
+    },
+  });
+
+  if (claimed.count === 0) {
+    return NextResponse.json({ error: "Import run is not awaiting confirmation" }, { status: 409 });
+  }
+
+  const { count } = await prisma.importFile.updateMany({
+    where: { importRunId: importRun.id, status: "previewed" },
+    data: {
+      status: "pending",
+      recordsParsed: 0,
+      tracksResolved: 0,
+      playsInserted: 0,
+      rejectedRows: 0,
+      skippedPlays: 0,
+      report: Prisma.DbNull,
+      finishedAt: null,
+    },
+  });
+
+  await enqueueImportJob({
+    userId: user.id,
+    type: "json-import",
+    importRunId: importRun.id,
+  });
+
+  return NextResponse.json({ ok: true, importRunId: importRun.id, queued: count }, { status: 202 });
+}
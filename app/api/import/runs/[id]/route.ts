@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+
+import { getCurrentUser } from "@/lib/auth/session";
+import { rollbackImportRun } from "@/lib/import/rollback";
+import { discardStagingRun, removeStagedFile } from "@/lib/import/staging";
+import { prisma } from "@/lib/prisma";
+
+const ACTIVE_IMPORT_STATUSES = ["queued", "running"];
+
+// Undoes an import run: removes the plays it inserted and any catalog rows left without plays.
+// A previewed dry run or an unfinished upload has written nothing, so its staged files are
+// discarded instead.
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<NextResponse> {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const importRun = await prisma.importRun.findFirst({
+    where: { id, userId: user.id },
+    include: { files: { select: { storagePath: true } } },
+  });
+
+  if (!importRun) {
+    return NextResponse.json({ error: "Import run not found" }, { status: 404 });
+  }
+
+  if (ACTIVE_IMPORT_STATUSES.includes(importRun.status)) {
+    return NextResponse.json({ error: "Import run is still in progress" }, { status: 409 });
+  }
+
+  if (importRun.status === "rolled_back" || importRun.status === "discarded") {
+    return NextResponse.json({ error: "Import run was already undone" }, { status: 409 });
+  }
+
+  if (importRun.status === "staging") {
+    if (!(await discardStagingRun(importRun.id, "Upload discarded"))) {
+      return NextResponse.json({ error: "Import run is still in progress" }, { status: 409 });
+    }
+
+    return NextResponse.json({ ok: true, importRunId: importRun.id, removedPlays: 0 });
+  }
+
+  if (importRun.status === "previewed") {
+    // Claimed in one statement so a concurrent confirmation cannot queue a run whose files are gone.
+    const { count } = await prisma.importRun.updateMany({
+      where: { id: importRun.id, status: "previewed", dryRun: true },
+      data: { status: "discarded", message: "Preview discarded" },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Import run is no longer awaiting confirmation" }, { status: 409 });
+    }
+
+    for (const storagePath of new Set(importRun.files.map((file) => file.storagePath))) {
+      await removeStagedFile(storagePath);
+    }
+
+    return NextResponse.json({ ok: true, importRunId: importRun.id, removedPlays: 0 });
+  }
+
+  const result = await rollbackImportRun(importRun.id);
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { lastImportStatus: `Import rolled back (${result.removedPlays} play events removed)` },
+  });
+
+  return NextResponse.json({ ok: true, importRunId: importRun.id, ...result });
+}
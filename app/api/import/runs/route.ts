@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getCurrentUser } from "@/lib/auth/session";
+import { prisma } from "@/lib/prisma";
+
+const MAX_PAGE_SIZE = 100;
+
+const runsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).catch(1),
+  pageSize: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).catch(20),
+});
+
+// Every import run of the current user, newest first.
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { page, pageSize } = runsQuerySchema.parse({
+    page: request.nextUrl.searchParams.get("page") ?? undefined,
+    pageSize: request.nextUrl.searchParams.get("pageSize") ?? undefined,
+  });
+
+  const [total, runs] = await Promise.all([
+    prisma.importRun.count({ where: { userId: user.id } }),
+    prisma.importRun.findMany({
+      where: { userId: user.id },
+      orderBy: { startedAt: "desc" },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+      select: {
+        id: true,
+        source: true,
+        status: true,
+        dryRun: true,
+        message: true,
+        importedPlays: true,
+        importedTracks: true,
+        rateLimitedHits: true,
+        startedAt: true,
+        finishedAt: true,
+        _count: { select: { files: true } },
+      },
+    }),
+  ]);
+
+  return NextResponse.json({
+    runs: runs.map(({ _count, ...run }) => ({
+      ...run,
+      fileCount: _count.files,
+      durationMs: run.finishedAt ? run.finishedAt.getTime() - run.startedAt.getTime() : null,
+    })),
+    page,
+    pageSize,
+    total,
+    totalPages: Math.max(1, Math.ceil(total / pageSize)),
+  });
+}
@@ -10,13 +10,39 @@ export async function GET(): Promise<NextResponse> {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  const latestImport = await prisma.importRun.findFirst({
-    where: { userId: user.id },
-    orderBy: { startedAt: "desc" },
-  });
+  const [latestImport, latestFileImport] = await Promise.all([
+    prisma.importRun.findFirst({
+      where: { userId: user.id, source: "spotify_api" },
+      orderBy: { startedAt: "desc" },
+    }),
+    prisma.importRun.findFirst({
+      where: { userId: user.id, source: "json_upload" },
+      orderBy: { startedAt: "desc" },
+      include: {
+        files: {
+          orderBy: { createdAt: "asc" },
+          select: {
+            id: true,
+            fileName: true,
+            sizeBytes: true,
+            status: true,
+            skipReason: true,
+            format: true,
+            recordsParsed: true,
+            tracksResolved: true,
+            playsInserted: true,
+            rejectedRows: true,
+            skippedPlays: true,
+            error: true,
+          },
+        },
+      },
+    }),
+  ]);
 
   return NextResponse.json({
     latestImport,
+    latestFileImport,
     lastImportAt: user.lastImportAt,
     lastImportStatus: user.lastImportStatus,
   });
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 
 import { getCurrentUser } from "@/lib/auth/session";
+import { resolveTimeZone } from "@/lib/date-range";
 import type { DailyRecommendations } from "@/lib/recommendations/engine";
 import { generateDailyRecommendations } from "@/lib/recommendations/engine";
 import { SpotifyApiError } from "@/lib/spotify/client";
@@ -216,7 +217,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
   }
 
   try {
-    const data = await generateDailyRecommendations(user.id, false);
+    const data = await generateDailyRecommendations(user.id, false, resolveTimeZone(user.timeZone));
     return NextResponse.json(data);
   } catch (error) {
     console.error("Failed to load daily recommendations", error);
@@ -239,7 +240,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
   const force = request.nextUrl.searchParams.get("force") === "1";
 
   try {
-    const data = await generateDailyRecommendations(user.id, force);
+    const data = await generateDailyRecommendations(user.id, force, resolveTimeZone(user.timeZone));
     return NextResponse.json(data);
   } catch (error) {
     const mapped = mapRecommendationError(error);
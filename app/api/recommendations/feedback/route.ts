@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getCurrentUser } from "@/lib/auth/session";
+import { setRecommendationFeedback } from "@/lib/recommendations/engine";
+import { REC_FEEDBACK_KINDS } from "@/lib/recommendations/feedback";
+
+const feedbackSchema = z.object({
+  itemType: z.enum(["track", "album"]),
+  itemId: z.string().min(1),
+  // null clears the feedback.
+  kind: z.enum(REC_FEEDBACK_KINDS).nullable(),
+});
+
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const parsed = feedbackSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid feedback" }, { status: 400 });
+  }
+
+  const { itemType, itemId, kind } = parsed.data;
+  const saved = await setRecommendationFeedback(user.id, itemType, itemId, kind);
+
+  if (!saved) {
+    return NextResponse.json({ error: "Recommendation not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ ok: true, itemType, itemId, kind });
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getCurrentUser } from "@/lib/auth/session";
+import { setCollaborativeRecs } from "@/lib/recommendations/collaborative";
+
+const collaborativeRecsSchema = z.object({
+  enabled: z.boolean(),
+});
+
+// Opting out drops the user's plays from the shared model at the worker's next rebuild.
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const parsed = collaborativeRecsSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const { enabled } = parsed.data;
+
+  if (enabled !== user.collaborativeRecs) {
+    await setCollaborativeRecs(user.id, enabled);
+  }
+
+  return NextResponse.json({ ok: true, enabled });
+}
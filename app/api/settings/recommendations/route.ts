@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getCurrentUser } from "@/lib/auth/session";
+import { saveRecPreferences } from "@/lib/recommendations/engine";
+import { recPreferencesSchema } from "@/lib/recommendations/preferences";
+
+// Saved preferences apply from the next generated run; today's cached run is kept.
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const parsed = recPreferencesSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid recommendation settings" }, { status: 400 });
+  }
+
+  await saveRecPreferences(user.id, parsed.data);
+
+  return NextResponse.json({ ok: true, preferences: parsed.data });
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getCurrentUser } from "@/lib/auth/session";
+import { isValidTimeZone } from "@/lib/date-range";
+import { prisma } from "@/lib/prisma";
+
+const timeZoneSchema = z.object({
+  timeZone: z.string().refine(isValidTimeZone, "Unknown time zone"),
+});
+
+// Day boundaries follow the user's time zone, so changing it also queues a rebuild of the daily
+// rollups; until the worker has rebuilt them, analytics are aggregated from the play events.
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const parsed = timeZoneSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid time zone" }, { status: 400 });
+  }
+
+  const { timeZone } = parsed.data;
+
+  if (timeZone !== user.timeZone) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { timeZone, rollupsBuiltAt: null },
+    });
+  }
+
+  return NextResponse.json({ ok: true, timeZone });
+}
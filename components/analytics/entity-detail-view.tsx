@@ -0,0 +1,123 @@
+import Image from "next/image";
+import Link from "next/link";
+
+import { entityDetailHref } from "@/lib/analytics/entity-links";
+import type { EntityDetail, EntityDetailType } from "@/lib/analytics/types";
+import { StatCard } from "@/components/analytics/stat-card";
+import { TimeRangeFilter } from "@/components/analytics/time-range-filter";
+import { TopTable } from "@/components/analytics/top-table";
+import { HourOfDayChart } from "@/components/charts/hour-of-day-chart";
+import { ListeningOverTimeChart } from "@/components/charts/listening-over-time-chart";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+const TYPE_LABELS: Record<EntityDetailType, string> = {
+  track: "Track",
+  album: "Album",
+  artist: "Artist",
+  genre: "Genre",
+};
+
+function formatHourSpan(hour: number): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${pad(hour)}:00-${pad((hour + 1) % 24)}:00`;
+}
+
+export function EntityDetailView({ detail, rangeQuery }: { detail: EntityDetail; rangeQuery: string }) {
+  const formatDate = (value: string | null) =>
+    value ? new Date(value).toLocaleDateString(undefined, { timeZone: detail.timeZone }) : "-";
+  const formatTime = (value: string | null) =>
+    value
+      ? new Date(value).toLocaleTimeString(undefined, { timeZone: detail.timeZone, hour: "2-digit", minute: "2-digit" })
+      : undefined;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        {detail.imageUrl ? (
+          <Image
+            src={detail.imageUrl}
+            alt={`${detail.name} cover`}
+            width={80}
+            height={80}
+            className="h-20 w-20 rounded-lg object-cover"
+          />
+        ) : (
+          <div className="h-20 w-20 rounded-lg bg-zinc-800" />
+        )}
+        <div className="min-w-0">
+          <p className="text-xs font-medium uppercase tracking-wide text-zinc-500">{TYPE_LABELS[detail.entity.type]}</p>
+          <h1 className="line-clamp-2 text-2xl font-semibold tracking-tight text-white">{detail.name}</h1>
+          {detail.artists.length > 0 || detail.album ? (
+            <p className="text-sm text-zinc-400">
+              {detail.artists.map((artist, index) => (
+                <span key={artist.id}>
+                  {index > 0 ? ", " : null}
+                  <Link
+                    href={entityDetailHref({ type: "artist", id: artist.id }, rangeQuery)}
+                    className="hover:text-[#1ed760] hover:underline"
+                  >
+                    {artist.name}
+                  </Link>
+                </span>
+              ))}
+              {detail.album ? (
+                <>
+                  {detail.artists.length > 0 ? " · " : null}
+                  <Link
+                    href={entityDetailHref({ type: "album", id: detail.album.id }, rangeQuery)}
+                    className="hover:text-[#1ed760] hover:underline"
+                  >
+                    {detail.album.name}
+                  </Link>
+                </>
+              ) : null}
+            </p>
+          ) : null}
+        </div>
+      </div>
+
+      <TimeRangeFilter />
+
+      <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+        <StatCard title="Total Plays" value={detail.totalPlays} />
+        <StatCard title="Total Minutes" value={detail.totalMinutes} />
+        <StatCard
+          title="First Listen"
+          value={formatDate(detail.firstListened)}
+          subtitle={formatTime(detail.firstListened)}
+        />
+        <StatCard title="Last Listen" value={formatDate(detail.lastListened)} subtitle={formatTime(detail.lastListened)} />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Listening Over Time</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ListeningOverTimeChart data={detail.listeningOverTime} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Time of Day</CardTitle>
+          <CardDescription>
+            {detail.peakHour === null
+              ? `Plays by hour of day (${detail.timeZone}).`
+              : `Usually played ${formatHourSpan(detail.peakHour)} (${detail.timeZone}).`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <HourOfDayChart data={detail.hourOfDay} />
+        </CardContent>
+      </Card>
+
+      {detail.entity.type === "track" ? null : (
+        <div className="space-y-3">
+          <h2 className="text-lg font-semibold tracking-tight">Top Tracks</h2>
+          <TopTable rows={detail.topTracks} entityType="track" rangeQuery={rangeQuery} />
+        </div>
+      )}
+    </div>
+  );
+}
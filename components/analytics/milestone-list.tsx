@@ -0,0 +1,36 @@
+import type { ListeningMilestone, Streak } from "@/lib/analytics/types";
+
+export function formatStreak(streak: Streak | null): string {
+  if (!streak) {
+    return "-";
+  }
+
+  return streak.days === 1 ? `1 day (${streak.startDate})` : `${streak.days} days (${streak.startDate} to ${streak.endDate})`;
+}
+
+export function MilestoneList({
+  milestones,
+  timeZone,
+  emptyMessage,
+}: {
+  milestones: ListeningMilestone[];
+  timeZone: string;
+  emptyMessage: string;
+}) {
+  if (milestones.length === 0) {
+    return <p className="text-sm text-zinc-400">{emptyMessage}</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {milestones.map((milestone) => (
+        <li key={`${milestone.kind}-${milestone.label}`} className="flex items-center justify-between gap-3">
+          <p className="line-clamp-1 text-sm text-zinc-100">{milestone.label}</p>
+          <p className="shrink-0 text-xs text-zinc-400">
+            {new Date(milestone.achievedAt).toLocaleDateString(undefined, { timeZone })}
+          </p>
+        </li>
+      ))}
+    </ul>
+  );
+}
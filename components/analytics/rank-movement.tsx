@@ -0,0 +1,32 @@
+import { ArrowDown, ArrowUp, Minus } from "lucide-react";
+
+import type { RankMovement as RankMovementData } from "@/lib/analytics/types";
+
+export function RankMovement({ movement }: { movement: RankMovementData }) {
+  switch (movement.status) {
+    case "up":
+      return (
+        <span className="inline-flex items-center gap-0.5 text-xs font-medium text-[#1ed760]" title={`Was #${movement.previousRank}`}>
+          <ArrowUp className="h-3 w-3" />
+          {movement.change}
+        </span>
+      );
+    case "down":
+      return (
+        <span className="inline-flex items-center gap-0.5 text-xs font-medium text-red-400" title={`Was #${movement.previousRank}`}>
+          <ArrowDown className="h-3 w-3" />
+          {Math.abs(movement.change)}
+        </span>
+      );
+    case "same":
+      return (
+        <span className="inline-flex items-center text-xs text-zinc-500" title="Same rank as the previous period">
+          <Minus className="h-3 w-3" />
+        </span>
+      );
+    case "new":
+      return <span className="text-xs font-semibold text-sky-400">NEW</span>;
+    case "dropped":
+      return <span className="text-xs font-semibold text-zinc-500">OUT</span>;
+  }
+}
@@ -27,6 +27,7 @@ export function TimeRangeFilter() {
   const currentPreset = searchParams.get("preset") ?? "";
   const currentFrom = searchParams.get("from") ?? "";
   const currentTo = searchParams.get("to") ?? "";
+  const comparing = searchParams.get("compare") === "1";
 
   const serializedParams = useMemo(() => searchParams.toString(), [searchParams]);
 
@@ -93,6 +94,16 @@ export function TimeRangeFilter() {
     router.push(`${pathname}?${next.toString()}`);
   };
 
+  const toggleCompare = () => {
+    const next = new URLSearchParams(serializedParams);
+    if (comparing) {
+      next.delete("compare");
+    } else {
+      next.set("compare", "1");
+    }
+    router.push(`${pathname}?${next.toString()}`);
+  };
+
   const applyCustom = () => {
     const from = fromInputRef.current?.value ?? "";
     const to = toInputRef.current?.value ?? "";
@@ -124,6 +135,16 @@ export function TimeRangeFilter() {
               {preset.label}
             </Button>
           ))}
+          <Button
+            type="button"
+            size="sm"
+            variant={comparing ? "default" : "outline"}
+            onClick={toggleCompare}
+            disabled={currentPreset === "all"}
+            aria-pressed={comparing}
+          >
+            Compare to previous
+          </Button>
         </div>
 
         <div className="flex flex-wrap items-center gap-2">
@@ -1,16 +1,22 @@
 import Link from "next/link";
 
-import type { TopEntry } from "@/lib/analytics/types";
+import { entityDetailHref } from "@/lib/analytics/entity-links";
+import type { EntityDetailType, TopEntry } from "@/lib/analytics/types";
+import { RankMovement } from "@/components/analytics/rank-movement";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 
 export function TopPreview({
   title,
   items,
   viewAllHref,
+  entityType,
+  rangeQuery,
 }: {
   title: string;
   items: TopEntry[];
   viewAllHref: string;
+  entityType?: EntityDetailType;
+  rangeQuery?: string;
 }) {
   return (
     <Card>
@@ -26,8 +32,20 @@ export function TopPreview({
         ) : (
           items.map((item) => (
             <div key={item.id} className="flex items-center justify-between gap-3">
-              <p className="line-clamp-1 text-sm text-zinc-100">{item.rank}. {item.name}</p>
-              <p className="text-xs text-zinc-400">{item.playCount} plays</p>
+              {entityType ? (
+                <Link
+                  href={entityDetailHref({ type: entityType, id: item.id }, rangeQuery)}
+                  className="line-clamp-1 text-sm text-zinc-100 hover:text-[#1ed760] hover:underline"
+                >
+                  {item.rank}. {item.name}
+                </Link>
+              ) : (
+                <p className="line-clamp-1 text-sm text-zinc-100">{item.rank}. {item.name}</p>
+              )}
+              <div className="flex shrink-0 items-center gap-2">
+                {item.movement ? <RankMovement movement={item.movement} /> : null}
+                <p className="text-xs text-zinc-400">{item.playCount} plays</p>
+              </div>
             </div>
           ))
         )}
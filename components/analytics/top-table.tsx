@@ -1,10 +1,77 @@
 import Image from "next/image";
+import Link from "next/link";
 
-import type { TopEntry } from "@/lib/analytics/types";
+import { entityDetailHref } from "@/lib/analytics/entity-links";
+import type { EntityDetailType, TopEntry } from "@/lib/analytics/types";
+import { RankMovement } from "@/components/analytics/rank-movement";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 
-export function TopTable({ rows }: { rows: TopEntry[] }) {
-  if (rows.length === 0) {
+function TopTableRow({
+  row,
+  showMovement,
+  dropped,
+  href,
+}: {
+  row: TopEntry;
+  showMovement: boolean;
+  dropped?: boolean;
+  href?: string;
+}) {
+  return (
+    <TableRow className={dropped ? "opacity-60" : undefined}>
+      <TableCell className="font-medium">{dropped ? "-" : `#${row.rank}`}</TableCell>
+      {showMovement ? (
+        <TableCell>{row.movement ? <RankMovement movement={row.movement} /> : null}</TableCell>
+      ) : null}
+      <TableCell>
+        <div className="flex items-center gap-3">
+          {row.imageUrl ? (
+            <Image
+              src={row.imageUrl}
+              alt={`${row.name} cover`}
+              width={44}
+              height={44}
+              className="h-11 w-11 rounded-md object-cover"
+            />
+          ) : (
+            <div className="h-11 w-11 rounded-md bg-zinc-800" />
+          )}
+          {href ? (
+            <Link href={href} className="line-clamp-1 hover:text-[#1ed760] hover:underline">
+              {row.name}
+            </Link>
+          ) : (
+            <span className="line-clamp-1">{row.name}</span>
+          )}
+        </div>
+      </TableCell>
+      <TableCell className="text-right">{dropped ? 0 : row.playCount}</TableCell>
+      <TableCell className="text-right">{dropped ? "0.0" : row.totalMinutes.toFixed(1)}</TableCell>
+      <TableCell className="text-right text-zinc-400">
+        {row.lastListened ? new Date(row.lastListened).toLocaleDateString() : "-"}
+      </TableCell>
+    </TableRow>
+  );
+}
+
+// `dropped` lists entries of the previous period that were not played in this one; they are shown
+// after the ranking, greyed out. With `entityType`, names link to their detail pages.
+export function TopTable({
+  rows,
+  dropped = [],
+  entityType,
+  rangeQuery,
+}: {
+  rows: TopEntry[];
+  dropped?: TopEntry[];
+  entityType?: EntityDetailType;
+  rangeQuery?: string;
+}) {
+  const showMovement = rows.some((row) => row.movement) || dropped.length > 0;
+  const hrefFor = (row: TopEntry) =>
+    entityType ? entityDetailHref({ type: entityType, id: row.id }, rangeQuery) : undefined;
+
+  if (rows.length === 0 && dropped.length === 0) {
     return (
       <div className="rounded-xl border border-zinc-800 bg-zinc-900/40 p-6 text-sm text-zinc-400">
         No results found for this range/filter.
@@ -18,6 +85,7 @@ export function TopTable({ rows }: { rows: TopEntry[] }) {
         <TableHeader>
           <TableRow>
             <TableHead className="w-16">Rank</TableHead>
+            {showMovement ? <TableHead className="w-20">vs. Previous</TableHead> : null}
             <TableHead>Name</TableHead>
             <TableHead className="text-right">Plays</TableHead>
             <TableHead className="text-right">Minutes</TableHead>
@@ -26,30 +94,16 @@ export function TopTable({ rows }: { rows: TopEntry[] }) {
         </TableHeader>
         <TableBody>
           {rows.map((row) => (
-            <TableRow key={row.id}>
-              <TableCell className="font-medium">#{row.rank}</TableCell>
-              <TableCell>
-                <div className="flex items-center gap-3">
-                  {row.imageUrl ? (
-                    <Image
-                      src={row.imageUrl}
-                      alt={`${row.name} cover`}
-                      width={44}
-                      height={44}
-                      className="h-11 w-11 rounded-md object-cover"
-                    />
-                  ) : (
-                    <div className="h-11 w-11 rounded-md bg-zinc-800" />
-                  )}
-                  <span className="line-clamp-1">{row.name}</span>
-                </div>
-              </TableCell>
-              <TableCell className="text-right">{row.playCount}</TableCell>
-              <TableCell className="text-right">{row.totalMinutes.toFixed(1)}</TableCell>
-              <TableCell className="text-right text-zinc-400">
-                {row.lastListened ? new Date(row.lastListened).toLocaleDateString() : "-"}
-              </TableCell>
-            </TableRow>
+            <TopTableRow key={row.id} row={row} showMovement={showMovement} href={hrefFor(row)} />
+          ))}
+          {dropped.map((row) => (
+            <TopTableRow
+              key={`dropped-${row.id}`}
+              row={row}
+              showMovement={showMovement}
+              dropped
+              href={hrefFor(row)}
+            />
           ))}
         </TableBody>
       </Table>
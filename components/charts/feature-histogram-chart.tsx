@@ -0,0 +1,33 @@
+"use client";
+
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+
+import type { MoodHistogramBin } from "@/lib/analytics/types";
+
+export function FeatureHistogramChart({ data, color = "#1DB954" }: { data: MoodHistogramBin[]; color?: string }) {
+  if (data.every((bin) => bin.plays === 0)) {
+    return <p className="text-sm text-zinc-400">No plays with audio features in this range yet.</p>;
+  }
+
+  return (
+    <div className="h-[220px] w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data.map((bin) => ({ ...bin, label: `${bin.from.toFixed(1)}-${bin.to.toFixed(1)}` }))}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#232323" />
+          <XAxis dataKey="label" tick={{ fill: "#8a8a8a", fontSize: 11 }} />
+          <YAxis tick={{ fill: "#8a8a8a", fontSize: 11 }} allowDecimals={false} />
+          <Tooltip
+            cursor={{ fill: "rgba(255,255,255,0.04)" }}
+            contentStyle={{
+              background: "#0f1110",
+              border: "1px solid #2a2a2a",
+              borderRadius: "10px",
+              color: "#fff",
+            }}
+          />
+          <Bar dataKey="plays" fill={color} radius={[4, 4, 0, 0]} />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
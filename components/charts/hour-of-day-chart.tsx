@@ -0,0 +1,37 @@
+"use client";
+
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+
+import type { HourOfDayEntry } from "@/lib/analytics/types";
+
+function formatHour(hour: number): string {
+  return `${String(hour).padStart(2, "0")}:00`;
+}
+
+export function HourOfDayChart({ data }: { data: HourOfDayEntry[] }) {
+  if (data.every((entry) => entry.plays === 0)) {
+    return <p className="text-sm text-zinc-400">No listening events in this range yet.</p>;
+  }
+
+  return (
+    <div className="h-[220px] w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data.map((entry) => ({ ...entry, label: formatHour(entry.hour) }))}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#232323" />
+          <XAxis dataKey="label" tick={{ fill: "#8a8a8a", fontSize: 11 }} interval={2} />
+          <YAxis tick={{ fill: "#8a8a8a", fontSize: 11 }} allowDecimals={false} />
+          <Tooltip
+            cursor={{ fill: "rgba(255,255,255,0.04)" }}
+            contentStyle={{
+              background: "#0f1110",
+              border: "1px solid #2a2a2a",
+              borderRadius: "10px",
+              color: "#fff",
+            }}
+          />
+          <Bar dataKey="plays" fill="#1DB954" radius={[4, 4, 0, 0]} />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+
+import { Button } from "@/components/ui/button";
+import type { ListeningClock } from "@/lib/analytics/types";
+
+type FilterOption = {
+  id: string;
+  name: string;
+};
+
+type Props = {
+  clock: ListeningClock;
+  artistOptions: FilterOption[];
+  genreOptions: FilterOption[];
+};
+
+const DAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+function toFilterValue(clock: ListeningClock): string {
+  if (clock.filter.artistId) {
+    return `artist:${clock.filter.artistId}`;
+  }
+  if (clock.filter.genre) {
+    return `genre:${clock.filter.genre}`;
+  }
+  return "";
+}
+
+export function ListeningClockHeatmap({ clock, artistOptions, genreOptions }: Props) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [metric, setMetric] = useState<"plays" | "minutes">("plays");
+
+  const filterValue = toFilterValue(clock);
+  const max = metric === "plays" ? clock.maxPlays : clock.maxMinutes;
+
+  // Keep the current filter selectable even when it is not among the top entries of this range.
+  const artists =
+    clock.filter.artistId && !artistOptions.some((option) => option.id === clock.filter.artistId)
+      ? [{ id: clock.filter.artistId, name: clock.filter.label ?? clock.filter.artistId }, ...artistOptions]
+      : artistOptions;
+  const genres =
+    clock.filter.genre && !genreOptions.some((option) => option.id === clock.filter.genre)
+      ? [{ id: clock.filter.genre, name: clock.filter.genre }, ...genreOptions]
+      : genreOptions;
+
+  const setFilter = (value: string) => {
+    const next = new URLSearchParams(searchParams.toString());
+    next.delete("clockArtist");
+    next.delete("clockGenre");
+
+    const [type, ...rest] = value.split(":");
+    if (type === "artist") {
+      next.set("clockArtist", rest.join(":"));
+    } else if (type === "genre") {
+      next.set("clockGenre", rest.join(":"));
+    }
+
+    router.push(`${pathname}?${next.toString()}`, { scroll: false });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <select
+          value={filterValue}
+          onChange={(event) => setFilter(event.target.value)}
+          className="h-9 rounded-lg border border-zinc-700 bg-zinc-900 px-3 text-sm"
+          aria-label="Listening clock filter"
+        >
+          <option value="">All listening</option>
+          {artists.length > 0 ? (
+            <optgroup label="Artists">
+              {artists.map((option) => (
+                <option key={option.id} value={`artist:${option.id}`}>
+                  {option.name}
+                </option>
+              ))}
+            </optgroup>
+          ) : null}
+          {genres.length > 0 ? (
+            <optgroup label="Genres">
+              {genres.map((option) => (
+                <option key={option.id} value={`genre:${option.id}`}>
+                  {option.name}
+                </option>
+              ))}
+            </optgroup>
+          ) : null}
+        </select>
+
+        <div className="flex gap-2">
+          <Button size="sm" variant={metric === "plays" ? "default" : "secondary"} onClick={() => setMetric("plays")}>
+            Plays
+          </Button>
+          <Button
+            size="sm"
+            variant={metric === "minutes" ? "default" : "secondary"}
+            onClick={() => setMetric("minutes")}
+          >
+            Minutes
+          </Button>
+        </div>
+      </div>
+
+      {max === 0 ? (
+        <p className="text-sm text-zinc-400">No listening events in this range yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <div className="grid min-w-[640px] grid-cols-[40px_repeat(24,minmax(0,1fr))] gap-1 text-[10px] text-zinc-500">
+            <span />
+            {HOURS.map((hour) => (
+              <span key={hour} className="text-center">
+                {hour % 3 === 0 ? hour : ""}
+              </span>
+            ))}
+
+            {DAY_LABELS.map((label, dayOfWeek) => (
+              <div key={label} className="contents">
+                <span className="self-center">{label}</span>
+                {HOURS.map((hour) => {
+                  const cell = clock.cells[dayOfWeek * 24 + hour];
+                  const value = metric === "plays" ? cell.plays : cell.minutes;
+
+                  return (
+                    <div
+                      key={hour}
+                      className="aspect-square rounded-sm border border-zinc-800/60"
+                      style={{ backgroundColor: `rgba(29, 185, 84, ${value === 0 ? 0 : 0.15 + (value / max) * 0.85})` }}
+                      title={`${label} ${hour}:00 - ${cell.plays} plays, ${cell.minutes} min`}
+                    />
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-zinc-500">Hours are shown in {clock.timeZone}.</p>
+    </div>
+  );
+}
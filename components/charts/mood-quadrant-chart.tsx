@@ -0,0 +1,65 @@
+"use client";
+
+import {
+  CartesianGrid,
+  ReferenceLine,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+  ZAxis,
+} from "recharts";
+
+import type { MoodTrack } from "@/lib/analytics/types";
+
+function TrackTooltip({ active, payload }: { active?: boolean; payload?: Array<{ payload: MoodTrack }> }) {
+  const track = payload?.[0]?.payload;
+  if (!active || !track) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-[10px] border border-[#2a2a2a] bg-[#0f1110] px-3 py-2 text-xs text-white">
+      <p className="font-medium">{track.name}</p>
+      <p className="text-zinc-400">
+        Energy {track.energy.toFixed(2)} · Valence {track.valence.toFixed(2)} · {track.playCount} plays
+      </p>
+    </div>
+  );
+}
+
+// Valence (negative to positive) on x, energy (calm to energetic) on y, split into quadrants at 0.5.
+export function MoodQuadrantChart({ data }: { data: MoodTrack[] }) {
+  if (data.length === 0) {
+    return <p className="text-sm text-zinc-400">No top tracks with audio features in this range yet.</p>;
+  }
+
+  return (
+    <div className="relative h-[360px] w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <ScatterChart margin={{ top: 16, right: 16, bottom: 8, left: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#232323" />
+          <XAxis
+            type="number"
+            dataKey="valence"
+            name="Valence"
+            domain={[0, 1]}
+            tick={{ fill: "#8a8a8a", fontSize: 11 }}
+          />
+          <YAxis type="number" dataKey="energy" name="Energy" domain={[0, 1]} tick={{ fill: "#8a8a8a", fontSize: 11 }} />
+          <ZAxis type="number" dataKey="playCount" range={[40, 400]} />
+          <ReferenceLine x={0.5} stroke="#3f3f46" />
+          <ReferenceLine y={0.5} stroke="#3f3f46" />
+          <Tooltip content={<TrackTooltip />} cursor={{ strokeDasharray: "3 3" }} />
+          <Scatter data={data} fill="#1DB954" fillOpacity={0.75} />
+        </ScatterChart>
+      </ResponsiveContainer>
+      <span className="pointer-events-none absolute left-14 top-2 text-xs text-zinc-500">Intense</span>
+      <span className="pointer-events-none absolute right-6 top-2 text-xs text-zinc-500">Upbeat</span>
+      <span className="pointer-events-none absolute bottom-10 left-14 text-xs text-zinc-500">Melancholic</span>
+      <span className="pointer-events-none absolute bottom-10 right-6 text-xs text-zinc-500">Peaceful</span>
+    </div>
+  );
+}
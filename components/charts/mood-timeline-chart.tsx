@@ -0,0 +1,52 @@
+"use client";
+
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+
+import type { MoodTimelinePoint } from "@/lib/analytics/types";
+
+export function MoodTimelineChart({ data }: { data: MoodTimelinePoint[] }) {
+  if (data.length === 0) {
+    return <p className="text-sm text-zinc-400">No plays with audio features in this range yet.</p>;
+  }
+
+  return (
+    <div className="h-[300px] w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#232323" />
+          <XAxis dataKey="weekStart" tick={{ fill: "#8a8a8a", fontSize: 11 }} />
+          <YAxis yAxisId="feature" domain={[0, 1]} tick={{ fill: "#8a8a8a", fontSize: 11 }} />
+          <YAxis yAxisId="tempo" orientation="right" tick={{ fill: "#8a8a8a", fontSize: 11 }} />
+          <Tooltip
+            contentStyle={{
+              background: "#0f1110",
+              border: "1px solid #2a2a2a",
+              borderRadius: "10px",
+              color: "#fff",
+            }}
+          />
+          <Legend wrapperStyle={{ fontSize: 12 }} />
+          <Line yAxisId="feature" type="monotone" dataKey="energy" name="Energy" stroke="#1DB954" dot={false} />
+          <Line yAxisId="feature" type="monotone" dataKey="valence" name="Valence" stroke="#facc15" dot={false} />
+          <Line
+            yAxisId="feature"
+            type="monotone"
+            dataKey="danceability"
+            name="Danceability"
+            stroke="#38bdf8"
+            dot={false}
+          />
+          <Line
+            yAxisId="tempo"
+            type="monotone"
+            dataKey="tempo"
+            name="Tempo (BPM)"
+            stroke="#a1a1aa"
+            strokeDasharray="4 4"
+            dot={false}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
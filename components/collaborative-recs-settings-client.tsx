@@ -0,0 +1,77 @@
+"use client";
+
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "@/hooks/use-toast";
+
+export function CollaborativeRecsSettingsClient({
+  initialEnabled,
+  minSharedListeners,
+}: {
+  initialEnabled: boolean;
+  minSharedListeners: number;
+}) {
+  const [enabled, setEnabled] = useState(initialEnabled);
+  const [savedEnabled, setSavedEnabled] = useState(initialEnabled);
+  const [saving, setSaving] = useState(false);
+
+  const saveSetting = async () => {
+    setSaving(true);
+
+    try {
+      const response = await fetch("/api/settings/collaborative-recs", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enabled }),
+      });
+      const body = (await response.json().catch(() => null)) as { error?: string } | null;
+
+      if (!response.ok) {
+        toast({
+          title: "Saving setting failed",
+          description: body?.error ?? `HTTP ${response.status}`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setSavedEnabled(enabled);
+      toast({
+        title: enabled ? "Joined listeners like you" : "Left listeners like you",
+        description: "The shared model is rebuilt by the background worker within a few minutes.",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Listeners Like You</CardTitle>
+        <CardDescription>
+          Share which artists you play with other people on this instance to get &quot;listeners like you also
+          play&quot; picks in your daily recommendations, and let the tracks you play be recommended to others.
+          Only artist pairs played by at least {minSharedListeners} opted-in listeners are kept, no one&apos;s
+          plays or identity are shown to anyone else, and opting out removes your listening from both.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-sm text-zinc-300">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(event) => setEnabled(event.target.checked)}
+            disabled={saving}
+          />
+          Use my listening for collaborative recommendations
+        </label>
+        <Button onClick={saveSetting} disabled={saving || enabled === savedEnabled}>
+          {saving ? "Saving..." : "Save"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,22 +1,65 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import { Check, SkipForward, ThumbsDown, ThumbsUp, type LucideIcon } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { toast } from "@/hooks/use-toast";
 import type { DailyRecommendations } from "@/lib/recommendations/engine";
+import { feedbackKey, type RecFeedbackKind, type RecItemType } from "@/lib/recommendations/feedback";
 
 type DailyRecsClientProps = {
   demoMode?: boolean;
 };
 
+const FEEDBACK_OPTIONS: Array<{ kind: RecFeedbackKind; label: string; icon: LucideIcon }> = [
+  { kind: "like", label: "Like", icon: ThumbsUp },
+  { kind: "dislike", label: "Dislike", icon: ThumbsDown },
+  { kind: "already-know", label: "Already know", icon: Check },
+  { kind: "skip", label: "Skip", icon: SkipForward },
+];
+
+// Clicking the selected option again clears the feedback.
+function RecFeedbackButtons({
+  value,
+  disabled,
+  onChange,
+}: {
+  value: RecFeedbackKind | null | undefined;
+  disabled: boolean;
+  onChange: (kind: RecFeedbackKind | null) => void;
+}) {
+  return (
+    <div className="mt-2 flex flex-wrap gap-1">
+      {FEEDBACK_OPTIONS.map(({ kind, label, icon: Icon }) => {
+        const active = value === kind;
+        return (
+          <Button
+            key={kind}
+            type="button"
+            size="sm"
+            variant={active ? "default" : "ghost"}
+            aria-pressed={active}
+            disabled={disabled}
+            onClick={() => onChange(active ? null : kind)}
+          >
+            <Icon className="h-3.5 w-3.5" />
+            {label}
+          </Button>
+        );
+      })}
+    </div>
+  );
+}
+
 export function DailyRecsClient({ demoMode = false }: DailyRecsClientProps) {
   const [data, setData] = useState<DailyRecommendations | null>(null);
   const [loading, setLoading] = useState(true);
   const [regenerating, setRegenerating] = useState(false);
   const [loadError, setLoadError] = useState<string | null>(null);
+  const [pendingFeedback, setPendingFeedback] = useState<string | null>(null);
 
   useEffect(() => {
     let active = true;
@@ -98,6 +141,45 @@ export function DailyRecsClient({ demoMode = false }: DailyRecsClientProps) {
     });
   };
 
+  // Demo recommendations are not stored, so their feedback only changes the local state.
+  const sendFeedback = async (itemType: RecItemType, itemId: string, kind: RecFeedbackKind | null) => {
+    if (!demoMode) {
+      setPendingFeedback(feedbackKey(itemType, itemId));
+      const response = await fetch("/api/recommendations/feedback", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ itemType, itemId, kind }),
+      });
+      setPendingFeedback(null);
+
+      if (!response.ok) {
+        const error = (await response.json().catch(() => null)) as { error?: string } | null;
+        toast({
+          title: "Feedback not saved",
+          description: error?.error ?? "Try again later.",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    setData((current) =>
+      current
+        ? {
+            ...current,
+            tracks:
+              itemType === "track"
+                ? current.tracks.map((track) => (track.id === itemId ? { ...track, feedback: kind } : track))
+                : current.tracks,
+            albums:
+              itemType === "album"
+                ? current.albums.map((album) => (album.id === itemId ? { ...album, feedback: kind } : album))
+                : current.albums,
+          }
+        : current,
+    );
+  };
+
   if (loading) {
     return (
       <div className="space-y-3">
@@ -132,7 +214,7 @@ export function DailyRecsClient({ demoMode = false }: DailyRecsClientProps) {
 
       <Card>
         <CardHeader>
-          <CardTitle>10 Song Picks</CardTitle>
+          <CardTitle>{data.tracks.length} Song Picks</CardTitle>
           <CardDescription>Filtered to tracks you have not listened to before.</CardDescription>
         </CardHeader>
         <CardContent className="grid gap-3 md:grid-cols-2">
@@ -141,26 +223,38 @@ export function DailyRecsClient({ demoMode = false }: DailyRecsClientProps) {
               <p className="font-medium text-white">{track.name}</p>
               <p className="text-xs text-zinc-400">{track.artistNames.join(", ")}</p>
               <p className="mt-1 text-xs text-zinc-500">{track.reason}</p>
+              <RecFeedbackButtons
+                value={track.feedback}
+                disabled={pendingFeedback === feedbackKey("track", track.id)}
+                onChange={(kind) => void sendFeedback("track", track.id, kind)}
+              />
             </div>
           ))}
         </CardContent>
       </Card>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>3 Album Picks</CardTitle>
-          <CardDescription>Albums you have not explored yet.</CardDescription>
-        </CardHeader>
-        <CardContent className="grid gap-3 md:grid-cols-3">
-          {data.albums.map((album) => (
-            <div key={album.id} className="rounded-lg border border-zinc-800 bg-zinc-900/40 p-3">
-              <p className="font-medium text-white">{album.name}</p>
-              <p className="text-xs text-zinc-400">{album.artistNames.join(", ")}</p>
-              <p className="mt-1 text-xs text-zinc-500">{album.reason}</p>
-            </div>
-          ))}
-        </CardContent>
-      </Card>
+      {data.albums.length > 0 ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>{data.albums.length} Album Picks</CardTitle>
+            <CardDescription>Albums you have not explored yet.</CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-3 md:grid-cols-3">
+            {data.albums.map((album) => (
+              <div key={album.id} className="rounded-lg border border-zinc-800 bg-zinc-900/40 p-3">
+                <p className="font-medium text-white">{album.name}</p>
+                <p className="text-xs text-zinc-400">{album.artistNames.join(", ")}</p>
+                <p className="mt-1 text-xs text-zinc-500">{album.reason}</p>
+                <RecFeedbackButtons
+                  value={album.feedback}
+                  disabled={pendingFeedback === feedbackKey("album", album.id)}
+                  onChange={(kind) => void sendFeedback("album", album.id, kind)}
+                />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      ) : null}
     </div>
   );
 }
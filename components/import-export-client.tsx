@@ -8,6 +8,36 @@ import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
 import { toast } from "@/hooks/use-toast";
 
+type ImportFileStatus = {
+  id: string;
+  fileName: string;
+  sizeBytes: number;
+  status: string;
+  skipReason: string | null;
+  format: string | null;
+  recordsParsed: number;
+  tracksResolved: number;
+  playsInserted: number;
+  rejectedRows: number;
+  skippedPlays: number;
+  error: string | null;
+};
+
+type ImportReport = {
+  recordsParsed: number;
+  rejectedRows: number;
+  skippedPlays: number;
+  unresolvedPlays: number;
+  duplicatePlays: number;
+  importedPlays: number;
+  importedTracks: number;
+  importedAlbums: number;
+  importedArtists: number;
+  firstPlayedAt: string | null;
+  lastPlayedAt: string | null;
+  unresolvedSample: Array<{ description: string; playedAt: string }>;
+};
+
 type ImportStatusResponse = {
   latestImport: {
     id: string;
@@ -16,15 +46,35 @@ type ImportStatusResponse = {
     importedPlays: number;
     importedTracks: number;
     rateLimitedHits: number;
+    cursorFrom: string | null;
+    cursorTo: string | null;
     startedAt: string;
     finishedAt: string | null;
   } | null;
+  latestFileImport: {
+    id: string;
+    status: string;
+    dryRun: boolean;
+    message: string | null;
+    report: ImportReport | null;
+    startedAt: string;
+    finishedAt: string | null;
+    files: ImportFileStatus[];
+  } | null;
   lastImportAt: string | null;
   lastImportStatus: string | null;
 };
 
+type UploadResponseBody = {
+  error?: string;
+  importRunId?: string;
+};
+
 const MAX_JSON_IMPORT_BYTES = 200 * 1024 * 1024;
 const JSON_IMPORT_TIMEOUT_MS = 12 * 60 * 1000;
+const ACTIVE_IMPORT_STATUSES = ["staging", "queued", "running"];
+// Failed runs may have written some batches before failing, so they can be undone too.
+const UNDOABLE_IMPORT_STATUSES = ["completed", "failed"];
 
 function formatImportFailureMessage(
   status: number,
@@ -60,6 +110,10 @@ export function ImportExportClient() {
   const [restoreFiles, setRestoreFiles] = useState<File[]>([]);
   const [restoreProgress, setRestoreProgress] = useState(0);
   const [restoreStatusLabel, setRestoreStatusLabel] = useState("");
+  const [fileImportActive, setFileImportActive] = useState(false);
+  const [previewFirst, setPreviewFirst] = useState(true);
+  const [committing, setCommitting] = useState(false);
+  const [undoingRunId, setUndoingRunId] = useState<string | null>(null);
 
   const refreshStatus = useCallback(async () => {
     const response = await fetch("/api/import/status", { cache: "no-store" });
@@ -72,11 +126,13 @@ export function ImportExportClient() {
     setStatus(json);
     setLoading(false);
 
-    if (json.latestImport?.status === "running") {
+    if (json.latestImport?.status === "running" || json.latestImport?.status === "queued") {
       setImporting(true);
     } else {
       setImporting(false);
     }
+
+    setFileImportActive(ACTIVE_IMPORT_STATUSES.includes(json.latestFileImport?.status ?? ""));
   }, []);
 
   useEffect(() => {
@@ -84,7 +140,7 @@ export function ImportExportClient() {
   }, [refreshStatus]);
 
   useEffect(() => {
-    if (!importing) {
+    if (!importing && !fileImportActive) {
       return;
     }
 
@@ -93,7 +149,7 @@ export function ImportExportClient() {
     }, 2500);
 
     return () => clearInterval(interval);
-  }, [importing, refreshStatus]);
+  }, [importing, fileImportActive, refreshStatus]);
 
   const startImport = async () => {
     const response = await fetch("/api/import/run", {
@@ -110,7 +166,7 @@ export function ImportExportClient() {
     }
 
     setImporting(true);
-    toast({ title: "Import started", description: "Fetching Spotify history now." });
+    toast({ title: "Import queued", description: "The import worker will fetch your Spotify history." });
     await refreshStatus();
   };
 
@@ -140,7 +196,7 @@ export function ImportExportClient() {
     if (restoreFiles.length === 0) {
       toast({
         title: "No file selected",
-        description: "Choose one or more JSON files to import.",
+        description: "Choose one or more JSON or ZIP files to import.",
         variant: "destructive",
       });
       return;
@@ -152,31 +208,41 @@ export function ImportExportClient() {
     let restoreSucceeded = false;
 
     try {
-      const formData = new FormData();
-      restoreFiles.forEach((file) => {
-        formData.append("files", file);
-      });
+      // Files are sent one per request as raw JSON and staged into a single import run, which
+      // is queued for the worker when the last file arrives.
+      let importRunId: string | null = null;
+      for (const [index, file] of restoreFiles.entries()) {
+        const params = new URLSearchParams({ final: String(index === restoreFiles.length - 1) });
+        if (importRunId) {
+          params.set("importRunId", importRunId);
+        } else if (previewFirst) {
+          params.set("dryRun", "true");
+        }
 
-      const { status, body, rawText } = await uploadImportWithProgress(formData, (progress) => {
-        setRestoreProgress(progress);
-      });
+        const { status, body, rawText } = await uploadImportWithProgress(file, params, (progress) => {
+          setRestoreProgress(Math.round(((index + progress / 100) / restoreFiles.length) * 100));
+        });
+
+        if (status < 200 || status >= 300) {
+          throw new Error(`${file.name}: ${formatImportFailureMessage(status, body, rawText)}`);
+        }
 
-      if (status < 200 || status >= 300) {
-        throw new Error(formatImportFailureMessage(status, body, rawText));
+        importRunId = body?.importRunId ?? importRunId;
       }
 
       setRestoreProgress(100);
-      setRestoreStatusLabel("Import complete");
+      setRestoreStatusLabel(previewFirst ? "Upload complete. Preview queued" : "Upload complete. Import queued");
       restoreSucceeded = true;
 
       toast({
-        title: "JSON restore complete",
+        title: previewFirst ? "JSON preview queued" : "JSON import queued",
         description:
           restoreFiles.length === 1
-            ? `Imported ${restoreFiles[0]?.name ?? "file"} successfully.`
-            : `Imported ${restoreFiles.length} files successfully.`,
+            ? `Uploaded ${restoreFiles[0]?.name ?? "file"}. Progress is shown below.`
+            : `Uploaded ${restoreFiles.length} files. Progress is shown below.`,
       });
 
+      setFileImportActive(true);
       await refreshStatus();
       setRestoreFiles([]);
     } catch (error) {
@@ -199,13 +265,74 @@ export function ImportExportClient() {
     }
   };
 
+  const commitPreviewedImport = async (importRunId: string) => {
+    setCommitting(true);
+
+    try {
+      const response = await fetch(`/api/import/runs/${importRunId}/commit`, { method: "POST" });
+      if (!response.ok) {
+        const body = (await response.json().catch(() => null)) as { error?: string } | null;
+        toast({
+          title: "Import failed to start",
+          description: body?.error ?? `HTTP ${response.status}`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({ title: "JSON import queued", description: "The previewed files are being imported." });
+      setFileImportActive(true);
+      await refreshStatus();
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  const undoImportRun = async (importRunId: string, discard: boolean) => {
+    const question = discard
+      ? "Discard this preview? The uploaded files will be deleted."
+      : "Undo this import? Every play it added will be deleted.";
+    if (!window.confirm(question)) {
+      return;
+    }
+
+    setUndoingRunId(importRunId);
+
+    try {
+      const response = await fetch(`/api/import/runs/${importRunId}`, { method: "DELETE" });
+      const body = (await response.json().catch(() => null)) as
+        | { error?: string; removedPlays?: number }
+        | null;
+
+      if (!response.ok) {
+        toast({
+          title: discard ? "Discard failed" : "Undo failed",
+          description: body?.error ?? `HTTP ${response.status}`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: discard ? "Preview discarded" : "Import undone",
+        description: discard ? undefined : `Removed ${body?.removedPlays ?? 0} play events.`,
+      });
+      await refreshStatus();
+    } finally {
+      setUndoingRunId(null);
+    }
+  };
+
   const uploadImportWithProgress = (
-    formData: FormData,
+    file: File,
+    params: URLSearchParams,
     onProgress: (value: number) => void,
-  ): Promise<{ status: number; body: { error?: string } | null; rawText: string }> => {
+  ): Promise<{ status: number; body: UploadResponseBody | null; rawText: string }> => {
     return new Promise((resolve, reject) => {
       const xhr = new XMLHttpRequest();
-      xhr.open("POST", "/api/import/json");
+      xhr.open("POST", `/api/import/json?${params.toString()}`);
+      xhr.setRequestHeader("Content-Type", file.name.toLowerCase().endsWith(".zip") ? "application/zip" : "application/json");
+      xhr.setRequestHeader("X-File-Name", encodeURIComponent(file.name));
       xhr.responseType = "text";
       xhr.timeout = JSON_IMPORT_TIMEOUT_MS;
 
@@ -221,7 +348,7 @@ export function ImportExportClient() {
 
       xhr.upload.onloadend = () => {
         onProgress(99);
-        setRestoreStatusLabel("Upload complete. Processing imported data...");
+        setRestoreStatusLabel("Upload complete. Staging file...");
       };
 
       xhr.onerror = () => {
@@ -235,17 +362,17 @@ export function ImportExportClient() {
       xhr.ontimeout = () => {
         reject(
           new Error(
-            "Import timed out while the server was processing your file. Try smaller files and retry.",
+            "Upload timed out before the file was stored. Try smaller files and retry.",
           ),
         );
       };
 
       xhr.onload = () => {
-        let parsedBody: { error?: string } | null = null;
+        let parsedBody: UploadResponseBody | null = null;
         const rawText = xhr.responseText ?? "";
 
         try {
-          parsedBody = rawText ? (JSON.parse(rawText) as { error?: string }) : null;
+          parsedBody = rawText ? (JSON.parse(rawText) as UploadResponseBody) : null;
         } catch {
           parsedBody = null;
         }
@@ -257,7 +384,7 @@ export function ImportExportClient() {
         });
       };
 
-      xhr.send(formData);
+      xhr.send(file);
     });
   };
 
@@ -293,7 +420,24 @@ export function ImportExportClient() {
             <p>Message: {status?.latestImport?.message ?? "-"}</p>
             <p>Last import: {status?.lastImportAt ? new Date(status.lastImportAt).toLocaleString() : "N/A"}</p>
             <p>Rate limit retries: {status?.latestImport?.rateLimitedHits ?? 0}</p>
+            {status?.latestImport?.cursorTo ? (
+              <p>
+                Synced plays: {status.latestImport.cursorFrom
+                  ? new Date(status.latestImport.cursorFrom).toLocaleString()
+                  : "start"}{" "}
+                to {new Date(status.latestImport.cursorTo).toLocaleString()}
+              </p>
+            ) : null}
           </div>
+          {status?.latestImport && UNDOABLE_IMPORT_STATUSES.includes(status.latestImport.status) ? (
+            <Button
+              variant="secondary"
+              onClick={() => undoImportRun(status.latestImport?.id ?? "", false)}
+              disabled={undoingRunId !== null}
+            >
+              {undoingRunId === status.latestImport.id ? "Undoing..." : "Undo this import"}
+            </Button>
+          ) : null}
         </CardContent>
       </Card>
 
@@ -319,13 +463,13 @@ export function ImportExportClient() {
         <CardHeader>
           <CardTitle>Import from File</CardTitle>
           <CardDescription>
-            File import options: JSON backup restore (max 200MB).
+            File import options: JSON backup restore or Spotify extended streaming history ZIP (max 200MB).
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-3">
           <Input
             type="file"
-            accept="application/json"
+            accept="application/json,.json,application/zip,.zip"
             multiple
             onChange={onRestoreFileSelected}
             disabled={restoring}
@@ -356,15 +500,137 @@ export function ImportExportClient() {
               <p className="text-xs text-zinc-400">{restoreStatusLabel || `Uploading... ${restoreProgress}%`}</p>
             </div>
           )}
+          <label className="flex items-center gap-2 text-xs text-zinc-400">
+            <input
+              type="checkbox"
+              checked={previewFirst}
+              onChange={(event) => setPreviewFirst(event.target.checked)}
+              disabled={restoring}
+            />
+            Preview the import before writing any plays
+          </label>
           <Button onClick={startRestoreFromFile} disabled={restoreFiles.length === 0 || restoring}>
-            {restoring ? "Importing file..." : "Import File"}
+            {restoring ? "Uploading..." : previewFirst ? "Preview File" : "Import File"}
           </Button>
+          {status?.latestFileImport ? (
+            <div className="rounded-lg border border-zinc-800 bg-zinc-900/40 p-3 text-sm text-zinc-300">
+              <p>Status: {status.latestFileImport.status}</p>
+              <p>Message: {status.latestFileImport.message ?? "-"}</p>
+              {status.latestFileImport.status === "previewed" && status.latestFileImport.report ? (
+                <ImportPreviewReport
+                  report={status.latestFileImport.report}
+                  committing={committing}
+                  discarding={undoingRunId === status.latestFileImport.id}
+                  onCommit={() => commitPreviewedImport(status.latestFileImport?.id ?? "")}
+                  onDiscard={() => undoImportRun(status.latestFileImport?.id ?? "", true)}
+                />
+              ) : null}
+              {UNDOABLE_IMPORT_STATUSES.includes(status.latestFileImport.status) ? (
+                <Button
+                  className="mt-2"
+                  variant="secondary"
+                  onClick={() => undoImportRun(status.latestFileImport?.id ?? "", false)}
+                  disabled={undoingRunId !== null}
+                >
+                  {undoingRunId === status.latestFileImport.id ? "Undoing..." : "Undo this import"}
+                </Button>
+              ) : null}
+              <div className="mt-2 space-y-2">
+                {status.latestFileImport.files.map((file) => (
+                  <div key={file.id} className="rounded-md bg-zinc-950/60 p-2 text-xs text-zinc-400">
+                    <p className="font-medium text-zinc-200">
+                      {file.fileName} ({file.status})
+                    </p>
+                    {file.skipReason ? (
+                      <p>Skipped: {file.skipReason}</p>
+                    ) : (
+                      <p>
+                        Records parsed: {file.recordsParsed.toLocaleString()} · Tracks resolved:{" "}
+                        {file.tracksResolved.toLocaleString()} ·{" "}
+                        {status.latestFileImport?.dryRun ? "New plays" : "Plays inserted"}:{" "}
+                        {file.playsInserted.toLocaleString()} · Rejected rows:{" "}
+                        {file.rejectedRows.toLocaleString()}
+                      </p>
+                    )}
+                    {file.error ? <p className="text-red-400">{file.error}</p> : null}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : null}
           <p className="text-xs text-zinc-500">
             Accepted formats: this app&apos;s export JSON, plus <code>your_spotify</code> privacy and
-            full-privacy JSON files.
+            full-privacy JSON files, and the <code>my_spotify_data.zip</code> extended streaming history
+            download.
           </p>
         </CardContent>
       </Card>
     </div>
   );
 }
+
+function ImportPreviewReport({
+  report,
+  committing,
+  discarding,
+  onCommit,
+  onDiscard,
+}: {
+  report: ImportReport;
+  committing: boolean;
+  discarding: boolean;
+  onCommit: () => void;
+  onDiscard: () => void;
+}) {
+  const rows: Array<[string, number]> = [
+    ["Records parsed", report.recordsParsed],
+    ["New plays", report.importedPlays],
+    ["Already imported", report.duplicatePlays],
+    ["Unresolved plays", report.unresolvedPlays],
+    ["Other skipped plays", report.skippedPlays - report.unresolvedPlays],
+    ["Rejected rows", report.rejectedRows],
+    ["New tracks", report.importedTracks],
+    ["New albums", report.importedAlbums],
+    ["New artists", report.importedArtists],
+  ];
+
+  return (
+    <div className="mt-3 space-y-3 rounded-md border border-zinc-800 bg-zinc-950/60 p-3 text-xs text-zinc-400">
+      <p className="font-medium text-zinc-200">Import preview</p>
+      <p>
+        Covers{" "}
+        {report.firstPlayedAt && report.lastPlayedAt
+          ? `${new Date(report.firstPlayedAt).toLocaleDateString()} to ${new Date(report.lastPlayedAt).toLocaleDateString()}`
+          : "no plays"}
+      </p>
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1 sm:grid-cols-3">
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex justify-between gap-2">
+            <dt>{label}</dt>
+            <dd className="text-zinc-200">{value.toLocaleString()}</dd>
+          </div>
+        ))}
+      </dl>
+      {report.unresolvedSample.length > 0 ? (
+        <div>
+          <p className="font-medium text-zinc-300">Sample of unresolved plays</p>
+          <ul className="mt-1 space-y-0.5">
+            {report.unresolvedSample.map((sample, index) => (
+              <li key={`${sample.description}-${sample.playedAt}-${index}`}>
+                {new Date(sample.playedAt).toLocaleString()} · {sample.description}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+      <div className="flex gap-2">
+        <Button onClick={onCommit} disabled={committing || discarding || report.importedPlays === 0}>
+          {committing ? "Queueing..." : `Import ${report.importedPlays.toLocaleString()} plays`}
+        </Button>
+        <Button variant="secondary" onClick={onDiscard} disabled={committing || discarding}>
+          {discarding ? "Discarding..." : "Discard"}
+        </Button>
+      </div>
+    </div>
+  );
+}
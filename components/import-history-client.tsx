@@ -0,0 +1,213 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "@/hooks/use-toast";
+
+type ImportRunRow = {
+  id: string;
+  source: string;
+  status: string;
+  dryRun: boolean;
+  message: string | null;
+  importedPlays: number;
+  importedTracks: number;
+  rateLimitedHits: number;
+  startedAt: string;
+  finishedAt: string | null;
+  fileCount: number;
+  durationMs: number | null;
+};
+
+type ImportRunsResponse = {
+  runs: ImportRunRow[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+};
+
+const PAGE_SIZE = 20;
+const UNDOABLE_IMPORT_STATUSES = ["completed", "failed"];
+const SOURCE_LABELS: Record<string, string> = {
+  spotify_api: "Spotify sync",
+  json_upload: "File upload",
+};
+
+function formatDuration(durationMs: number | null): string {
+  if (durationMs === null) {
+    return "-";
+  }
+
+  const totalSeconds = Math.round(durationMs / 1000);
+  if (totalSeconds < 60) {
+    return `${totalSeconds}s`;
+  }
+
+  const minutes = Math.floor(totalSeconds / 60);
+  if (minutes < 60) {
+    return `${minutes}m ${totalSeconds % 60}s`;
+  }
+
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+export function ImportHistoryClient() {
+  const [data, setData] = useState<ImportRunsResponse | null>(null);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [undoingRunId, setUndoingRunId] = useState<string | null>(null);
+
+  const loadRuns = useCallback(async (targetPage: number) => {
+    setLoading(true);
+    const response = await fetch(`/api/import/runs?page=${targetPage}&pageSize=${PAGE_SIZE}`, {
+      cache: "no-store",
+    });
+    if (response.ok) {
+      setData((await response.json()) as ImportRunsResponse);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    void loadRuns(page);
+  }, [page, loadRuns]);
+
+  const undoRun = async (run: ImportRunRow) => {
+    if (!window.confirm("Undo this import? Every play it added will be deleted.")) {
+      return;
+    }
+
+    setUndoingRunId(run.id);
+
+    try {
+      const response = await fetch(`/api/import/runs/${run.id}`, { method: "DELETE" });
+      const body = (await response.json().catch(() => null)) as
+        | { error?: string; removedPlays?: number }
+        | null;
+
+      if (!response.ok) {
+        toast({
+          title: "Undo failed",
+          description: body?.error ?? `HTTP ${response.status}`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({ title: "Import undone", description: `Removed ${body?.removedPlays ?? 0} play events.` });
+      await loadRuns(page);
+    } finally {
+      setUndoingRunId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-3">
+        <div>
+          <CardTitle>Import History</CardTitle>
+          <CardDescription>Every Spotify sync and file upload, newest first.</CardDescription>
+        </div>
+        <Button variant="secondary" onClick={() => loadRuns(page)} disabled={loading}>
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading && !data ? (
+          <Skeleton className="h-40 rounded-xl" />
+        ) : !data || data.runs.length === 0 ? (
+          <p className="text-sm text-zinc-400">No imports yet.</p>
+        ) : (
+          <div className="rounded-xl border border-zinc-800 bg-zinc-950/70">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Duration</TableHead>
+                  <TableHead className="text-right">Plays</TableHead>
+                  <TableHead className="text-right">Tracks</TableHead>
+                  <TableHead className="text-right">Rate-limit retries</TableHead>
+                  <TableHead>Message</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.runs.map((run) => (
+                  <TableRow key={run.id}>
+                    <TableCell className="whitespace-nowrap">{new Date(run.startedAt).toLocaleString()}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {SOURCE_LABELS[run.source] ?? run.source}
+                      {run.fileCount > 0 ? (
+                        <span className="text-zinc-500"> · {run.fileCount} file(s)</span>
+                      ) : null}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={run.status === "completed" ? "default" : "secondary"}>
+                        {run.dryRun ? `${run.status} (preview)` : run.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{formatDuration(run.durationMs)}</TableCell>
+                    <TableCell className="text-right">{run.importedPlays.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{run.importedTracks.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{run.rateLimitedHits}</TableCell>
+                    <TableCell
+                      className={`min-w-64 whitespace-pre-wrap break-words ${run.status === "failed" ? "text-red-400" : "text-zinc-400"}`}
+                    >
+                      {run.message ?? "-"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {UNDOABLE_IMPORT_STATUSES.includes(run.status) ? (
+                        <Button
+                          size="sm"
+                          variant="secondary"
+                          onClick={() => undoRun(run)}
+                          disabled={undoingRunId !== null}
+                        >
+                          {undoingRunId === run.id ? "Undoing..." : "Undo"}
+                        </Button>
+                      ) : null}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {data && data.totalPages > 1 ? (
+          <div className="flex items-center justify-between text-sm text-zinc-400">
+            <span>
+              Page {data.page} of {data.totalPages} · {data.total} runs
+            </span>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() => setPage((current) => current - 1)}
+                disabled={loading || page <= 1}
+              >
+                Previous
+              </Button>
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() => setPage((current) => current + 1)}
+                disabled={loading || page >= data.totalPages}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,5 @@
 import {
+  Activity,
   BarChart3,
   Compass,
   Disc3,
@@ -7,8 +8,11 @@ import {
   Import,
   Mic2,
   Music2,
+  Podcast,
   Settings,
   Sparkles,
+  Telescope,
+  Timer,
   type LucideIcon,
 } from "lucide-react";
 
@@ -25,6 +29,10 @@ export const NAV_ITEMS: NavItem[] = [
   { href: "/top-artists", label: "Top Artists", icon: Mic2 },
   { href: "/top-albums", label: "Top Albums", icon: Disc3 },
   { href: "/top-genres", label: "Top Genres", icon: BarChart3 },
+  { href: "/top-podcasts", label: "Top Podcasts", icon: Podcast },
+  { href: "/sessions", label: "Sessions", icon: Timer },
+  { href: "/discovery", label: "Discovery", icon: Telescope },
+  { href: "/mood", label: "Mood", icon: Activity },
   { href: "/wrapped", label: "Wrapped", icon: Sparkles },
   { href: "/daily-recs", label: "Daily Recs", icon: Compass },
   { href: "/import-export", label: "Import / Export", icon: Import },
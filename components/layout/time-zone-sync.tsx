@@ -0,0 +1,29 @@
+"use client";
+
+import { useEffect } from "react";
+import { useRouter } from "next/navigation";
+
+// Rendered while the user has no stored time zone: saves the browser's zone once, then re-renders
+// the page so its ranges use it.
+export function TimeZoneSync() {
+  const router = useRouter();
+
+  useEffect(() => {
+    const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    if (!timeZone) {
+      return;
+    }
+
+    void fetch("/api/settings/time-zone", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ timeZone }),
+    }).then((response) => {
+      if (response.ok) {
+        router.refresh();
+      }
+    });
+  }, [router]);
+
+  return null;
+}
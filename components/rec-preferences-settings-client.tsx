@@ -0,0 +1,193 @@
+"use client";
+
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { toast } from "@/hooks/use-toast";
+import {
+  MAX_ALBUM_RECS,
+  MAX_TRACK_RECS,
+  type RecPreferences,
+  TASTE_WINDOWS,
+  type TasteWindow,
+} from "@/lib/recommendations/preferences";
+
+const TASTE_WINDOW_LABELS: Record<TasteWindow, string> = {
+  month: "Last month",
+  year: "Last year",
+  all: "All time",
+};
+
+function parseList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+export function RecPreferencesSettingsClient({ initialPreferences }: { initialPreferences: RecPreferences }) {
+  const [preferences, setPreferences] = useState(initialPreferences);
+  const [excludedGenres, setExcludedGenres] = useState(initialPreferences.excludedGenres.join(", "));
+  const [excludedArtists, setExcludedArtists] = useState(initialPreferences.excludedArtists.join(", "));
+  const [saving, setSaving] = useState(false);
+
+  const update = <K extends keyof RecPreferences>(key: K, value: RecPreferences[K]) =>
+    setPreferences((current) => ({ ...current, [key]: value }));
+
+  const invalidPopularity = preferences.minPopularity > preferences.maxPopularity;
+
+  const savePreferences = async () => {
+    setSaving(true);
+
+    try {
+      const response = await fetch("/api/settings/recommendations", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...preferences,
+          excludedGenres: parseList(excludedGenres),
+          excludedArtists: parseList(excludedArtists),
+        }),
+      });
+      const body = (await response.json().catch(() => null)) as { error?: string } | null;
+
+      if (!response.ok) {
+        toast({
+          title: "Saving recommendation settings failed",
+          description: body?.error ?? `HTTP ${response.status}`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Recommendation settings saved",
+        description: "They apply from the next generated daily run.",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Recommendations</CardTitle>
+        <CardDescription>Shape the daily recommendations. Changes apply from the next generated run.</CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4 text-sm text-zinc-300 md:grid-cols-2">
+        <label className="space-y-1">
+          <span>Songs per day</span>
+          <Input
+            type="number"
+            min={1}
+            max={MAX_TRACK_RECS}
+            value={preferences.trackCount}
+            onChange={(event) => update("trackCount", Number(event.target.value))}
+          />
+        </label>
+        <label className="space-y-1">
+          <span>Albums per day</span>
+          <Input
+            type="number"
+            min={0}
+            max={MAX_ALBUM_RECS}
+            value={preferences.albumCount}
+            onChange={(event) => update("albumCount", Number(event.target.value))}
+          />
+        </label>
+
+        <label className="space-y-1 md:col-span-2">
+          <span>Familiar ← → New</span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={preferences.novelty}
+            onChange={(event) => update("novelty", Number(event.target.value))}
+            className="w-full"
+            aria-label="Novelty versus familiarity"
+          />
+          <span className="block text-xs text-zinc-500">
+            Towards new: favour artists and genres you have not heard. Towards familiar: favour new songs by
+            artists you already play.
+          </span>
+        </label>
+
+        <label className="space-y-1">
+          <span>Taste based on</span>
+          <select
+            value={preferences.tasteWindow}
+            onChange={(event) => update("tasteWindow", event.target.value as TasteWindow)}
+            className="h-10 w-full rounded-lg border border-zinc-700 bg-zinc-900 px-3 text-sm text-zinc-100"
+            aria-label="Taste window"
+          >
+            {TASTE_WINDOWS.map((window) => (
+              <option key={window} value={window}>
+                {TASTE_WINDOW_LABELS[window]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 self-end pb-2">
+          <input
+            type="checkbox"
+            checked={preferences.allowExplicit}
+            onChange={(event) => update("allowExplicit", event.target.checked)}
+          />
+          Include explicit tracks
+        </label>
+
+        <label className="space-y-1">
+          <span>Minimum popularity (0-100)</span>
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            value={preferences.minPopularity}
+            onChange={(event) => update("minPopularity", Number(event.target.value))}
+          />
+        </label>
+        <label className="space-y-1">
+          <span>Maximum popularity (0-100)</span>
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            value={preferences.maxPopularity}
+            onChange={(event) => update("maxPopularity", Number(event.target.value))}
+          />
+        </label>
+
+        <label className="space-y-1 md:col-span-2">
+          <span>Excluded genres (comma separated)</span>
+          <Input
+            value={excludedGenres}
+            onChange={(event) => setExcludedGenres(event.target.value)}
+            placeholder="e.g. country, polka"
+          />
+        </label>
+        <label className="space-y-1 md:col-span-2">
+          <span>Excluded artists (comma separated)</span>
+          <Input
+            value={excludedArtists}
+            onChange={(event) => setExcludedArtists(event.target.value)}
+            placeholder="Artist names"
+          />
+        </label>
+
+        <div className="flex items-center gap-3 md:col-span-2">
+          <Button onClick={savePreferences} disabled={saving || invalidPopularity}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+          {invalidPopularity ? (
+            <p className="text-xs text-red-400">Minimum popularity must not exceed maximum popularity.</p>
+          ) : null}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
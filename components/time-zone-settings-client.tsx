@@ -0,0 +1,84 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "@/hooks/use-toast";
+
+function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function TimeZoneSettingsClient({ initialTimeZone }: { initialTimeZone: string | null }) {
+  const router = useRouter();
+  const [timeZone, setTimeZone] = useState(initialTimeZone ?? "UTC");
+  const [savedTimeZone, setSavedTimeZone] = useState(initialTimeZone);
+  const [saving, setSaving] = useState(false);
+
+  const timeZones = useMemo(() => {
+    const supported = Intl.supportedValuesOf("timeZone");
+    return supported.includes(timeZone) ? supported : [timeZone, ...supported];
+  }, [timeZone]);
+
+  const saveTimeZone = async () => {
+    setSaving(true);
+
+    try {
+      const response = await fetch("/api/settings/time-zone", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ timeZone }),
+      });
+      const body = (await response.json().catch(() => null)) as { error?: string } | null;
+
+      if (!response.ok) {
+        toast({
+          title: "Saving time zone failed",
+          description: body?.error ?? `HTTP ${response.status}`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setSavedTimeZone(timeZone);
+      toast({ title: "Time zone saved", description: `Days now start at midnight in ${timeZone}.` });
+      router.refresh();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Time Zone</CardTitle>
+        <CardDescription>
+          Used for &quot;Today&quot;, weeks, months, daily charts and which day your daily recommendations
+          belong to.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap items-center gap-2">
+        <select
+          value={timeZone}
+          onChange={(event) => setTimeZone(event.target.value)}
+          className="h-10 min-w-64 rounded-lg border border-zinc-700 bg-zinc-900 px-3 text-sm"
+          aria-label="Time zone"
+        >
+          {timeZones.map((zone) => (
+            <option key={zone} value={zone}>
+              {zone}
+            </option>
+          ))}
+        </select>
+        <Button variant="secondary" onClick={() => setTimeZone(getBrowserTimeZone())}>
+          Use browser time zone
+        </Button>
+        <Button onClick={saveTimeZone} disabled={saving || timeZone === savedTimeZone}>
+          {saving ? "Saving..." : "Save"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
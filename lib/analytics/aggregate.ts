@@ -0,0 +1,260 @@
+import type { Album, Artist, Track } from "@prisma/client";
+
+import type { AggregationResult, TopEntry } from "@/lib/analytics/types";
+import { DEFAULT_TIME_ZONE, toDateKey } from "@/lib/date-range";
+
+export type AggregateAccumulator = {
+  id: string;
+  name: string;
+  imageUrl: string | null;
+  playCount: number;
+  totalMinutes: number;
+  lastListened: Date | null;
+};
+
+export type AggregationPlayEvent = {
+  trackId: string;
+  playedAt: Date;
+  msPlayed: number | null;
+};
+
+export type AggregationCatalog = {
+  tracks: Track[];
+  artists: Artist[];
+  albums: Album[];
+};
+
+export function createEmptyAggregation(): AggregationResult {
+  return {
+    totalListeningHours: 0,
+    totalUniqueSongs: 0,
+    totalUniqueArtists: 0,
+    totalUniqueAlbums: 0,
+    listeningOverTime: [],
+    songs: [],
+    artists: [],
+    albums: [],
+    genres: [],
+    featureAverages: {
+      energy: 0,
+      danceability: 0,
+      valence: 0,
+      tempo: 0,
+    },
+  };
+}
+
+export function sortEntries(input: TopEntry[], sortBy: "plays" | "minutes" | "recent"): TopEntry[] {
+  const sorted = [...input];
+
+  if (sortBy === "minutes") {
+    sorted.sort((a, b) => b.totalMinutes - a.totalMinutes);
+  } else if (sortBy === "recent") {
+    sorted.sort((a, b) => {
+      if (!a.lastListened) return 1;
+      if (!b.lastListened) return -1;
+      return new Date(b.lastListened).getTime() - new Date(a.lastListened).getTime();
+    });
+  } else {
+    sorted.sort((a, b) => b.playCount - a.playCount);
+  }
+
+  return sorted.map((entry, index) => ({ ...entry, rank: index + 1 }));
+}
+
+export function toTopEntries(map: Map<string, AggregateAccumulator>): TopEntry[] {
+  return [...map.values()].map((value) => ({
+    rank: 0,
+    id: value.id,
+    name: value.name,
+    imageUrl: value.imageUrl,
+    playCount: value.playCount,
+    totalMinutes: Number(value.totalMinutes.toFixed(1)),
+    lastListened: value.lastListened ? value.lastListened.toISOString() : null,
+  }));
+}
+
+// Listening time for a single play. Imports that know how long the track actually played
+// (extended streaming history) store `msPlayed`; other rows fall back to the full track duration.
+export function resolveListenedMs(msPlayed: number | null, durationMs: number): number {
+  return msPlayed ?? durationMs;
+}
+
+// In-memory aggregation of play events, newest first. aggregateForRange runs the same
+// aggregation in Postgres; this version is kept as the reference it is tested against.
+// Listening over time is bucketed by calendar day in `timeZone`.
+export function aggregatePlayEvents(
+  playEvents: AggregationPlayEvent[],
+  { tracks, artists, albums }: AggregationCatalog,
+  timeZone: string = DEFAULT_TIME_ZONE,
+): AggregationResult {
+  if (playEvents.length === 0) {
+    return createEmptyAggregation();
+  }
+
+  const trackMap = new Map(tracks.map((track) => [track.id, track]));
+
+  const artistMap = new Map(artists.map((artist) => [artist.id, artist]));
+  const albumMap = new Map(albums.map((album) => [album.id, album]));
+
+  const songAgg = new Map<string, AggregateAccumulator>();
+  const artistAgg = new Map<string, AggregateAccumulator>();
+  const albumAgg = new Map<string, AggregateAccumulator>();
+  const genreAgg = new Map<string, AggregateAccumulator>();
+  const dailyAgg = new Map<string, { plays: number; minutes: number }>();
+
+  const uniqueTrackIds = new Set<string>();
+  const uniqueArtistIds = new Set<string>();
+  const uniqueAlbumIds = new Set<string>();
+
+  let totalListeningMs = 0;
+  let featureWeight = 0;
+  let featureEnergy = 0;
+  let featureDanceability = 0;
+  let featureValence = 0;
+  let featureTempo = 0;
+
+  for (const event of playEvents) {
+    const track = trackMap.get(event.trackId);
+    if (!track) {
+      continue;
+    }
+
+    const listenedMs = resolveListenedMs(event.msPlayed, track.durationMs);
+    const minutes = listenedMs / 1000 / 60;
+    totalListeningMs += listenedMs;
+
+    uniqueTrackIds.add(track.id);
+    if (track.albumId) {
+      uniqueAlbumIds.add(track.albumId);
+    }
+
+    if (
+      track.energy !== null &&
+      track.danceability !== null &&
+      track.valence !== null &&
+      track.tempo !== null
+    ) {
+      featureEnergy += track.energy;
+      featureDanceability += track.danceability;
+      featureValence += track.valence;
+      featureTempo += track.tempo;
+      featureWeight += 1;
+    }
+
+    const dateKey = toDateKey(event.playedAt, timeZone);
+    const daily = dailyAgg.get(dateKey) ?? { plays: 0, minutes: 0 };
+    daily.plays += 1;
+    daily.minutes += minutes;
+    dailyAgg.set(dateKey, daily);
+
+    const songEntry = songAgg.get(track.id) ?? {
+      id: track.id,
+      name: track.name,
+      imageUrl: track.imageUrl,
+      playCount: 0,
+      totalMinutes: 0,
+      lastListened: null,
+    };
+
+    songEntry.playCount += 1;
+    songEntry.totalMinutes += minutes;
+    songEntry.lastListened =
+      !songEntry.lastListened || event.playedAt > songEntry.lastListened
+        ? event.playedAt
+        : songEntry.lastListened;
+    songAgg.set(track.id, songEntry);
+
+    if (track.albumId) {
+      const album = albumMap.get(track.albumId);
+      const albumEntry = albumAgg.get(track.albumId) ?? {
+        id: track.albumId,
+        name: album?.name ?? "Unknown Album",
+        imageUrl: album?.imageUrl ?? null,
+        playCount: 0,
+        totalMinutes: 0,
+        lastListened: null,
+      };
+
+      albumEntry.playCount += 1;
+      albumEntry.totalMinutes += minutes;
+      albumEntry.lastListened =
+        !albumEntry.lastListened || event.playedAt > albumEntry.lastListened
+          ? event.playedAt
+          : albumEntry.lastListened;
+      albumAgg.set(track.albumId, albumEntry);
+    }
+
+    for (const artistId of track.artistIds) {
+      uniqueArtistIds.add(artistId);
+
+      const artist = artistMap.get(artistId);
+      const artistEntry = artistAgg.get(artistId) ?? {
+        id: artistId,
+        name: artist?.name ?? "Unknown Artist",
+        imageUrl: artist?.imageUrl ?? null,
+        playCount: 0,
+        totalMinutes: 0,
+        lastListened: null,
+      };
+
+      artistEntry.playCount += 1;
+      artistEntry.totalMinutes += minutes;
+      artistEntry.lastListened =
+        !artistEntry.lastListened || event.playedAt > artistEntry.lastListened
+          ? event.playedAt
+          : artistEntry.lastListened;
+      artistAgg.set(artistId, artistEntry);
+
+      const genres = artist?.genres.length ? artist.genres : ["Unknown"];
+      for (const genre of genres) {
+        const genreEntry = genreAgg.get(genre) ?? {
+          id: genre,
+          name: genre,
+          imageUrl: null,
+          playCount: 0,
+          totalMinutes: 0,
+          lastListened: null,
+        };
+
+        genreEntry.playCount += 1;
+        genreEntry.totalMinutes += minutes;
+        genreEntry.lastListened =
+          !genreEntry.lastListened || event.playedAt > genreEntry.lastListened
+            ? event.playedAt
+            : genreEntry.lastListened;
+        genreAgg.set(genre, genreEntry);
+      }
+    }
+  }
+
+  const songs = sortEntries(toTopEntries(songAgg), "plays");
+  const artistsSorted = sortEntries(toTopEntries(artistAgg), "plays");
+  const albumsSorted = sortEntries(toTopEntries(albumAgg), "plays");
+  const genresSorted = sortEntries(toTopEntries(genreAgg), "plays");
+
+  return {
+    totalListeningHours: Number((totalListeningMs / 1000 / 60 / 60).toFixed(2)),
+    totalUniqueSongs: uniqueTrackIds.size,
+    totalUniqueArtists: uniqueArtistIds.size,
+    totalUniqueAlbums: uniqueAlbumIds.size,
+    listeningOverTime: [...dailyAgg.entries()]
+      .sort((a, b) => a[0].localeCompare(b[0]))
+      .map(([date, value]) => ({
+        date,
+        plays: value.plays,
+        minutes: Number(value.minutes.toFixed(1)),
+      })),
+    songs,
+    artists: artistsSorted,
+    albums: albumsSorted,
+    genres: genresSorted,
+    featureAverages: {
+      energy: featureWeight > 0 ? Number((featureEnergy / featureWeight).toFixed(3)) : 0,
+      danceability:
+        featureWeight > 0 ? Number((featureDanceability / featureWeight).toFixed(3)) : 0,
+      valence: featureWeight > 0 ? Number((featureValence / featureWeight).toFixed(3)) : 0,
+      tempo: featureWeight > 0 ? Number((featureTempo / featureWeight).toFixed(1)) : 0,
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import type { MetricDelta, TopEntry } from "@/lib/analytics/types";
+
+export function computeMetricDelta(current: number, previous: number): MetricDelta {
+  return {
+    previous,
+    change: Number((current - previous).toFixed(2)),
+    percentChange: previous === 0 ? null : Number((((current - previous) / previous) * 100).toFixed(1)),
+  };
+}
+
+// Both lists must be ranked by play count (rank 1 first), as returned by the aggregation.
+export function withRankMovement(current: TopEntry[], previous: TopEntry[]): TopEntry[] {
+  const previousRanks = new Map(previous.map((entry) => [entry.id, entry.rank]));
+
+  return current.map((entry) => {
+    const previousRank = previousRanks.get(entry.id) ?? null;
+    const change = previousRank === null ? 0 : previousRank - entry.rank;
+
+    return {
+      ...entry,
+      movement: {
+        status: previousRank === null ? "new" : change > 0 ? "up" : change < 0 ? "down" : "same",
+        previousRank,
+        change,
+      },
+    };
+  });
+}
+
+// The first `limit` entries of the previous ranking that are missing from the current one. They
+// keep their previous rank and stats.
+export function findDroppedEntries(current: TopEntry[], previous: TopEntry[], limit: number): TopEntry[] {
+  const currentIds = new Set(current.map((entry) => entry.id));
+
+  return previous
+    .filter((entry) => !currentIds.has(entry.id))
+    .slice(0, limit)
+    .map((entry) => ({
+      ...entry,
+      movement: { status: "dropped", previousRank: entry.rank, change: 0 },
+    }));
+}
@@ -0,0 +1,94 @@
+import type { Discovery, DiscoveryPeriod, DiscoveryPeriodSummary, DiscoveryReport } from "@/lib/analytics/types";
+import { addDaysToDateKey, toDateKey } from "@/lib/date-range";
+
+// A play counts towards the novelty ratio while its track was first heard at most this long ago.
+export const NOVELTY_WINDOW_DAYS = 30;
+
+export type DiscoveryMinutes = {
+  periodStart: string;
+  listenedMs: number;
+  novelMs: number;
+};
+
+export function isDiscoveryPeriod(value: unknown): value is DiscoveryPeriod {
+  return value === "week" || value === "month";
+}
+
+// First day of the week (Monday) or month containing `dateKey`.
+export function startOfPeriodKey(dateKey: string, period: DiscoveryPeriod): string {
+  if (period === "month") {
+    return `${dateKey.slice(0, 8)}01`;
+  }
+
+  const dayOfWeek = new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+  return addDaysToDateKey(dateKey, -((dayOfWeek + 6) % 7));
+}
+
+function toRatio(novelMs: number, listenedMs: number): number | null {
+  return listenedMs > 0 ? Number((novelMs / listenedMs).toFixed(3)) : null;
+}
+
+// Groups first plays into periods of the user's calendar and attaches each period's novelty
+// ratio. `minutes` must already be bucketed by startOfPeriodKey. Periods are listed newest first.
+export function buildDiscoveryReport(
+  discoveries: Discovery[],
+  minutes: DiscoveryMinutes[],
+  period: DiscoveryPeriod,
+  timeZone: string,
+): DiscoveryReport {
+  const periods = new Map<string, DiscoveryPeriodSummary>();
+  const periodFor = (periodStart: string) => {
+    let summary = periods.get(periodStart);
+    if (!summary) {
+      summary = {
+        periodStart,
+        newTracks: 0,
+        newArtists: 0,
+        newGenres: 0,
+        discoveries: [],
+        listenedMinutes: 0,
+        noveltyRatio: null,
+      };
+      periods.set(periodStart, summary);
+    }
+    return summary;
+  };
+
+  const sortedDiscoveries = [...discoveries].sort((a, b) => a.firstPlayedAt.localeCompare(b.firstPlayedAt));
+  for (const discovery of sortedDiscoveries) {
+    const summary = periodFor(startOfPeriodKey(toDateKey(new Date(discovery.firstPlayedAt), timeZone), period));
+    summary.discoveries.push(discovery);
+    if (discovery.type === "track") {
+      summary.newTracks += 1;
+    } else if (discovery.type === "artist") {
+      summary.newArtists += 1;
+    } else {
+      summary.newGenres += 1;
+    }
+  }
+
+  let listenedMs = 0;
+  let novelMs = 0;
+  for (const row of minutes) {
+    const summary = periodFor(row.periodStart);
+    summary.listenedMinutes = Number((row.listenedMs / 1000 / 60).toFixed(1));
+    summary.noveltyRatio = toRatio(row.novelMs, row.listenedMs);
+    listenedMs += row.listenedMs;
+    novelMs += row.novelMs;
+  }
+
+  const summaries = [...periods.values()].sort((a, b) => b.periodStart.localeCompare(a.periodStart));
+
+  return {
+    period,
+    timeZone,
+    noveltyWindowDays: NOVELTY_WINDOW_DAYS,
+    periods: summaries,
+    totals: {
+      newTracks: summaries.reduce((sum, summary) => sum + summary.newTracks, 0),
+      newArtists: summaries.reduce((sum, summary) => sum + summary.newArtists, 0),
+      newGenres: summaries.reduce((sum, summary) => sum + summary.newGenres, 0),
+      noveltyRatio: toRatio(novelMs, listenedMs),
+    },
+  };
+}
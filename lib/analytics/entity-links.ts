@@ -0,0 +1,13 @@
+import type { EntityRef } from "@/lib/analytics/types";
+
+const DETAIL_PATHS: Record<EntityRef["type"], string> = {
+  track: "/tracks",
+  album: "/albums",
+  artist: "/artists",
+  genre: "/genres",
+};
+
+// `rangeQuery` comes from buildRangeQuery, so the detail page opens on the same range.
+export function entityDetailHref(entity: EntityRef, rangeQuery = ""): string {
+  return `${DETAIL_PATHS[entity.type]}/${encodeURIComponent(entity.id)}${rangeQuery}`;
+}
@@ -0,0 +1,35 @@
+import type { MoodHistogramBin, MoodQuadrant } from "@/lib/analytics/types";
+
+export const MOOD_HISTOGRAM_BINS = 10;
+
+// Energy and valence split at the middle of their 0-1 scale.
+const QUADRANT_SPLIT = 0.5;
+
+export type MoodHistogramRow = {
+  bin: number;
+  plays: number;
+  listenedMs: number;
+};
+
+// `rows` hold 1-based bins of equal width over 0-1 (as computed by width_bucket); bins without
+// plays are filled in.
+export function toMoodHistogram(rows: MoodHistogramRow[]): MoodHistogramBin[] {
+  const rowMap = new Map(rows.map((row) => [row.bin, row]));
+
+  return Array.from({ length: MOOD_HISTOGRAM_BINS }, (_, index) => {
+    const row = rowMap.get(index + 1);
+    return {
+      from: Number((index / MOOD_HISTOGRAM_BINS).toFixed(2)),
+      to: Number(((index + 1) / MOOD_HISTOGRAM_BINS).toFixed(2)),
+      plays: row?.plays ?? 0,
+      minutes: row ? Number((row.listenedMs / 1000 / 60).toFixed(1)) : 0,
+    };
+  });
+}
+
+export function moodQuadrant(energy: number, valence: number): MoodQuadrant {
+  if (energy >= QUADRANT_SPLIT) {
+    return valence >= QUADRANT_SPLIT ? "upbeat" : "intense";
+  }
+  return valence >= QUADRANT_SPLIT ? "peaceful" : "melancholic";
+}
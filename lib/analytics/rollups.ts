@@ -0,0 +1,174 @@
+import { Prisma } from "@prisma/client";
+
+import { resolveTimeZone, toDateKey } from "@/lib/date-range";
+import { prisma } from "@/lib/prisma";
+
+const REFRESH_DAY_BATCH_SIZE = 31;
+const PENDING_REBUILD_BATCH_SIZE = 5;
+
+function chunkArray<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+}
+
+export async function getUserTimeZone(userId: string): Promise<string> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { timeZone: true } });
+  return resolveTimeZone(user?.timeZone);
+}
+
+// The calendar day in `timeZone` a play is rolled up under, as `YYYY-MM-DD`.
+export function toRollupDay(playedAt: Date | string, timeZone: string): string {
+  return toDateKey(new Date(playedAt), timeZone);
+}
+
+// Timestamp columns hold UTC wall-clock times; this is the date they fall on in `timeZone`.
+export function localDateSql(column: Prisma.Sql, timeZone: string): Prisma.Sql {
+  return Prisma.sql`(${column} AT TIME ZONE 'UTC' AT TIME ZONE ${timeZone})::date`;
+}
+
+// Rollup writes delete and re-insert whole days, so two concurrent writes for one user would
+// collide on the primary key. This transaction-scoped lock queues them per user instead.
+function lockUserRollups(userId: string) {
+  return prisma.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('listening_rollups'), hashtext(${userId}))`;
+}
+
+// Re-aggregates the user's play events matching `dayFilter` into rollup rows. Listening time and
+// the "Unknown" genre fallback follow aggregatePlayEvents.
+export function insertRollupsSql(userId: string, timeZone: string, dayFilter: Prisma.Sql): Prisma.Sql {
+  return Prisma.sql`
+    WITH plays AS (
+      SELECT
+        pe.played_at,
+        ${localDateSql(Prisma.sql`pe.played_at`, timeZone)} AS day,
+        pe.track_id,
+        COALESCE(pe.ms_played, t.duration_ms) AS listened_ms,
+        t.album_id,
+        t.artist_ids
+      FROM play_events pe
+      JOIN tracks t ON t.id = pe.track_id
+      WHERE pe.user_id = ${userId} ${dayFilter}
+    ), artist_plays AS (
+      SELECT plays.*, artist_id
+      FROM plays
+      CROSS JOIN LATERAL unnest(plays.artist_ids) AS artist_id
+    )
+    INSERT INTO listening_rollups (user_id, day, entity_type, entity_id, plays, listened_ms, last_played_at)
+    SELECT ${userId}, day, 'track', track_id, COUNT(*)::int, SUM(listened_ms), MAX(played_at)
+    FROM plays
+    GROUP BY day, track_id
+    UNION ALL
+    SELECT ${userId}, day, 'album', album_id, COUNT(*)::int, SUM(listened_ms), MAX(played_at)
+    FROM plays
+    WHERE album_id IS NOT NULL
+    GROUP BY day, album_id
+    UNION ALL
+    SELECT ${userId}, day, 'artist', artist_id, COUNT(*)::int, SUM(listened_ms), MAX(played_at)
+    FROM artist_plays
+    GROUP BY day, artist_id
+    UNION ALL
+    SELECT ${userId}, day, 'genre', genre, COUNT(*)::int, SUM(listened_ms), MAX(played_at)
+    FROM artist_plays
+    LEFT JOIN artists a ON a.id = artist_plays.artist_id
+    CROSS JOIN LATERAL unnest(
+      CASE WHEN cardinality(a.genres) > 0 THEN a.genres ELSE ARRAY['Unknown']::text[] END
+    ) AS genre
+    GROUP BY day, genre
+  `;
+}
+
+// Recomputes the rollups of the given days (in the user's time zone, see toRollupDay) from the
+// stored play events. Called after plays are inserted or deleted; recomputing whole days keeps it
+// idempotent, so retried imports are safe.
+export async function refreshListeningRollups(userId: string, days: Iterable<string>): Promise<void> {
+  const sortedDays = [...new Set(days)].sort();
+  if (sortedDays.length === 0) {
+    return;
+  }
+
+  const timeZone = await getUserTimeZone(userId);
+
+  for (const chunk of chunkArray(sortedDays, REFRESH_DAY_BATCH_SIZE)) {
+    await prisma.$transaction([
+      lockUserRollups(userId),
+      prisma.$executeRaw`DELETE FROM listening_rollups WHERE user_id = ${userId} AND day = ANY(${chunk}::date[])`,
+      prisma.$executeRaw(
+        insertRollupsSql(
+          userId,
+          timeZone,
+          Prisma.sql`AND ${localDateSql(Prisma.sql`pe.played_at`, timeZone)} = ANY(${chunk}::date[])`,
+        ),
+      ),
+    ]);
+  }
+}
+
+// Rollups copy each track's album, artists and duration and each artist's genres as they are when
+// the rows are written. When those change (say an artist imported without genres is enriched), every
+// day on which an affected track was played is recomputed for each user whose rollups are built;
+// users still waiting for a rebuild pick up the current catalog then. Returns how many users were
+// refreshed.
+export async function refreshRollupsForCatalogChanges(trackIds: string[], artistIds: string[]): Promise<number> {
+  if (trackIds.length === 0 && artistIds.length === 0) {
+    return 0;
+  }
+
+  const affectedPlays = Prisma.sql`
+    (pe.track_id = ANY(${trackIds}::text[]) OR t.artist_ids && ${artistIds}::text[])
+  `;
+  const users = await prisma.$queryRaw<{ user_id: string }[]>`
+    SELECT DISTINCT pe.user_id
+    FROM play_events pe
+    JOIN tracks t ON t.id = pe.track_id
+    JOIN users u ON u.id = pe.user_id AND u.rollups_built_at IS NOT NULL
+    WHERE ${affectedPlays}
+  `;
+
+  for (const { user_id: userId } of users) {
+    const timeZone = await getUserTimeZone(userId);
+    const dayRows = await prisma.$queryRaw<{ day: string }[]>`
+      SELECT DISTINCT to_char(${localDateSql(Prisma.sql`pe.played_at`, timeZone)}, 'YYYY-MM-DD') AS day
+      FROM play_events pe
+      JOIN tracks t ON t.id = pe.track_id
+      WHERE pe.user_id = ${userId} AND ${affectedPlays}
+    `;
+    await refreshListeningRollups(userId, dayRows.map((row) => row.day));
+  }
+
+  return users.length;
+}
+
+// Rebuilds every rollup of the user and marks them ready to be read. They are left unmarked if
+// the time zone changed meanwhile, so the next pending rebuild picks the user up again.
+export async function rebuildListeningRollups(userId: string): Promise<void> {
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { timeZone: true } });
+
+  await prisma.$transaction([
+    lockUserRollups(userId),
+    prisma.listeningRollup.deleteMany({ where: { userId } }),
+    prisma.$executeRaw(insertRollupsSql(userId, resolveTimeZone(user.timeZone), Prisma.empty)),
+    prisma.user.updateMany({
+      where: { id: userId, timeZone: user.timeZone },
+      data: { rollupsBuiltAt: new Date() },
+    }),
+  ]);
+}
+
+// Rebuilds the rollups of users that have none ready yet: new users, and users whose time zone
+// changed (which moves every day boundary). Returns how many users were rebuilt.
+export async function rebuildPendingListeningRollups(): Promise<number> {
+  const users = await prisma.user.findMany({
+    where: { rollupsBuiltAt: null },
+    select: { id: true },
+    orderBy: { createdAt: "asc" },
+    take: PENDING_REBUILD_BATCH_SIZE,
+  });
+
+  for (const user of users) {
+    await rebuildListeningRollups(user.id);
+  }
+
+  return users.length;
+}
@@ -1,302 +1,481 @@
-import { endOfYear, startOfYear } from "date-fns";
+import { Prisma } from "@prisma/client";
 
-import type { TimeRange } from "@/lib/date-range";
+import {
+  addDaysToDateKey,
+  getPreviousRange,
+  getYearRange,
+  isWholeDayRange,
+  resolveTimeZone,
+  startOfDateKey,
+  type TimeRange,
+  toDateKey,
+} from "@/lib/date-range";
 import { prisma } from "@/lib/prisma";
 
+import {
+  createEmptyAggregation,
+  resolveListenedMs,
+  sortEntries,
+} from "@/lib/analytics/aggregate";
+import { getUserTimeZone, localDateSql } from "@/lib/analytics/rollups";
+import { computeMetricDelta, findDroppedEntries, withRankMovement } from "@/lib/analytics/comparison";
+import { buildDiscoveryReport, NOVELTY_WINDOW_DAYS } from "@/lib/analytics/discovery";
+import { MOOD_HISTOGRAM_BINS, moodQuadrant, toMoodHistogram } from "@/lib/analytics/mood";
+import { buildListeningSessions, SESSION_GAP_MS, toSessionStats } from "@/lib/analytics/sessions";
+import { ARTIST_HOURS_MILESTONE, computeStreaks, PLAY_COUNT_MILESTONES } from "@/lib/analytics/streaks";
 import type {
+  AggregationResult,
   AnalyticsExportPayload,
   DashboardStats,
+  Discovery,
+  DiscoveryPeriod,
+  DiscoveryReport,
+  EntityDetail,
+  EntityRef,
+  HourOfDayEntry,
+  ListeningClock,
+  ListeningClockCell,
+  ListeningClockFilter,
+  ListeningMilestone,
+  ListeningMilestones,
+  MoodReport,
+  SessionPlay,
+  SessionStats,
+  SessionTimeline,
+  TopEntriesComparison,
   TopEntityType,
   TopEntry,
   WrappedSummary,
 } from "@/lib/analytics/types";
 
-type AggregateAccumulator = {
+const SESSION_TIMELINE_MARGIN_MS = 12 * 60 * 60 * 1000;
+const CURRENT_TOP_ARTIST_DAYS = 30;
+const CURRENT_TOP_ARTIST_COUNT = 3;
+const DROPPED_ENTRY_LIMIT = 20;
+const ENTITY_TOP_TRACK_LIMIT = 10;
+const MOOD_QUADRANT_TRACK_LIMIT = 50;
+
+type RangeTotalsRow = {
+  listened_ms: number;
+  unique_songs: number;
+  unique_albums: number;
+  unique_artists: number;
+  energy: number | null;
+  danceability: number | null;
+  valence: number | null;
+  tempo: number | null;
+};
+
+type DailyRow = {
+  date: string;
+  plays: number;
+  listened_ms: number;
+};
+
+type RankedEntryRow = {
+  rank: number;
   id: string;
   name: string;
-  imageUrl: string | null;
-  playCount: number;
-  totalMinutes: number;
-  lastListened: Date | null;
+  image_url: string | null;
+  play_count: number;
+  listened_ms: number;
+  last_listened: Date;
 };
 
-type AggregationResult = {
-  totalListeningHours: number;
-  totalUniqueSongs: number;
-  totalUniqueArtists: number;
-  totalUniqueAlbums: number;
-  listeningOverTime: DashboardStats["listeningOverTime"];
-  songs: TopEntry[];
-  artists: TopEntry[];
-  albums: TopEntry[];
-  genres: TopEntry[];
-  featureAverages: {
-    energy: number;
-    danceability: number;
-    valence: number;
-    tempo: number;
-  };
-};
+// Plays in the range joined to their track, with the listening time resolved as in
+// resolveListenedMs. Every aggregate below starts from this set.
+function rangePlaysSql(
+  userId: string,
+  range: TimeRange,
+  timeZone: string,
+  filter: Prisma.Sql = Prisma.empty,
+): Prisma.Sql {
+  return Prisma.sql`
+    SELECT
+      pe.track_id,
+      pe.played_at,
+      ${localDateSql(Prisma.sql`pe.played_at`, timeZone)} AS day,
+      COALESCE(pe.ms_played, t.duration_ms) AS listened_ms,
+      t.album_id,
+      t.artist_ids,
+      t.energy,
+      t.danceability,
+      t.valence,
+      t.tempo,
+      (t.energy IS NOT NULL AND t.danceability IS NOT NULL AND t.valence IS NOT NULL AND t.tempo IS NOT NULL)
+        AS has_features
+    FROM play_events pe
+    JOIN tracks t ON t.id = pe.track_id
+    WHERE pe.user_id = ${userId}
+      AND pe.played_at >= ${range.from}
+      AND pe.played_at <= ${range.to}
+      ${filter}
+  `;
+}
 
-function sortEntries(input: TopEntry[], sortBy: "plays" | "minutes" | "recent"): TopEntry[] {
-  const sorted = [...input];
-
-  if (sortBy === "minutes") {
-    sorted.sort((a, b) => b.totalMinutes - a.totalMinutes);
-  } else if (sortBy === "recent") {
-    sorted.sort((a, b) => {
-      if (!a.lastListened) return 1;
-      if (!b.lastListened) return -1;
-      return new Date(b.lastListened).getTime() - new Date(a.lastListened).getTime();
-    });
-  } else {
-    sorted.sort((a, b) => b.playCount - a.playCount);
+// Restricts play events (aliased `pe`, joined to tracks as `t`) to those of one entity. Genres use
+// the same "Unknown" fallback as the genre ranking.
+function entityFilterSql(entity: EntityRef): Prisma.Sql {
+  switch (entity.type) {
+    case "track":
+      return Prisma.sql`AND pe.track_id = ${entity.id}`;
+    case "album":
+      return Prisma.sql`AND t.album_id = ${entity.id}`;
+    case "artist":
+      return Prisma.sql`AND ${entity.id} = ANY(t.artist_ids)`;
+    case "genre":
+      return Prisma.sql`AND EXISTS (
+        SELECT 1
+        FROM unnest(t.artist_ids) AS artist_id
+        LEFT JOIN artists a ON a.id = artist_id
+        WHERE ${entity.id} = ANY(
+          CASE WHEN cardinality(a.genres) > 0 THEN a.genres ELSE ARRAY['Unknown']::text[] END
+        )
+      )`;
   }
-
-  return sorted.map((entry, index) => ({ ...entry, rank: index + 1 }));
 }
 
-function toTopEntries(map: Map<string, AggregateAccumulator>): TopEntry[] {
-  return [...map.values()].map((value) => ({
-    rank: 0,
-    id: value.id,
-    name: value.name,
-    imageUrl: value.imageUrl,
-    playCount: value.playCount,
-    totalMinutes: Number(value.totalMinutes.toFixed(1)),
-    lastListened: value.lastListened ? value.lastListened.toISOString() : null,
-  }));
+// `grouped` must yield id, name, image_url, play_count, listened_ms and last_listened per entry.
+// Ties on play count go to the entry played most recently, as in the in-memory aggregation.
+function rankedEntriesSql(ctes: Prisma.Sql, grouped: Prisma.Sql): Prisma.Sql {
+  return Prisma.sql`
+    WITH ${ctes}, grouped AS (${grouped})
+    SELECT
+      ROW_NUMBER() OVER (ORDER BY play_count DESC, last_listened DESC, id)::int AS rank,
+      id,
+      name,
+      image_url,
+      play_count,
+      listened_ms,
+      last_listened
+    FROM grouped
+    ORDER BY rank
+  `;
 }
 
-export async function aggregateForRange(userId: string, range: TimeRange): Promise<AggregationResult> {
-  const playEvents = await prisma.playEvent.findMany({
-    where: {
-      userId,
-      playedAt: {
-        gte: range.from,
-        lte: range.to,
-      },
-    },
-    orderBy: {
-      playedAt: "desc",
-    },
-    include: {
-      track: true,
-    },
-  });
+function dailyPlaysSql(ctes: Prisma.Sql): Prisma.Sql {
+  return Prisma.sql`
+    WITH ${ctes}
+    SELECT
+      to_char(day, 'YYYY-MM-DD') AS date,
+      COUNT(*)::int AS plays,
+      SUM(listened_ms)::float8 AS listened_ms
+    FROM plays
+    GROUP BY 1
+    ORDER BY 1
+  `;
+}
 
-  if (playEvents.length === 0) {
-    return {
-      totalListeningHours: 0,
-      totalUniqueSongs: 0,
-      totalUniqueArtists: 0,
-      totalUniqueAlbums: 0,
-      listeningOverTime: [],
-      songs: [],
-      artists: [],
-      albums: [],
-      genres: [],
-      featureAverages: {
-        energy: 0,
-        danceability: 0,
-        valence: 0,
-        tempo: 0,
-      },
-    };
-  }
+function toListeningOverTime(rows: DailyRow[]): DashboardStats["listeningOverTime"] {
+  return rows.map((row) => ({
+    date: row.date,
+    plays: row.plays,
+    minutes: Number((row.listened_ms / 1000 / 60).toFixed(1)),
+  }));
+}
 
-  const trackIds = [...new Set(playEvents.map((event) => event.trackId))];
-  const tracks = await prisma.track.findMany({
-    where: {
-      id: {
-        in: trackIds,
-      },
-    },
-  });
+// Per-track entries over the `plays` CTE of rangePlaysSql.
+const TRACK_ENTRIES_SQL = Prisma.sql`
+  SELECT
+    t.id,
+    t.name,
+    t.image_url,
+    COUNT(*)::int AS play_count,
+    SUM(plays.listened_ms)::float8 AS listened_ms,
+    MAX(plays.played_at) AS last_listened
+  FROM plays
+  JOIN tracks t ON t.id = plays.track_id
+  GROUP BY t.id
+`;
 
-  const trackMap = new Map(tracks.map((track) => [track.id, track]));
+function toRankedEntries(rows: RankedEntryRow[]): TopEntry[] {
+  return rows.map((row) => ({
+    rank: row.rank,
+    id: row.id,
+    name: row.name,
+    imageUrl: row.image_url,
+    playCount: row.play_count,
+    totalMinutes: Number((row.listened_ms / 1000 / 60).toFixed(1)),
+    lastListened: row.last_listened.toISOString(),
+  }));
+}
 
-  const artistIds = new Set<string>();
-  const albumIds = new Set<string>();
+export type RawQuery = <T>(sql: Prisma.Sql) => Promise<T[]>;
 
-  tracks.forEach((track) => {
-    track.artistIds.forEach((artistId) => artistIds.add(artistId));
-    if (track.albumId) {
-      albumIds.add(track.albumId);
-    }
-  });
+const prismaQuery: RawQuery = (sql) => prisma.$queryRaw(sql);
 
-  const [artists, albums] = await Promise.all([
-    prisma.artist.findMany({ where: { id: { in: [...artistIds] } } }),
-    prisma.album.findMany({ where: { id: { in: [...albumIds] } } }),
-  ]);
+type AggregationRows = [
+  totals: RangeTotalsRow[],
+  daily: DailyRow[],
+  songs: RankedEntryRow[],
+  albums: RankedEntryRow[],
+  artists: RankedEntryRow[],
+  genres: RankedEntryRow[],
+];
 
-  const artistMap = new Map(artists.map((artist) => [artist.id, artist]));
-  const albumMap = new Map(albums.map((album) => [album.id, album]));
-
-  const songAgg = new Map<string, AggregateAccumulator>();
-  const artistAgg = new Map<string, AggregateAccumulator>();
-  const albumAgg = new Map<string, AggregateAccumulator>();
-  const genreAgg = new Map<string, AggregateAccumulator>();
-  const dailyAgg = new Map<string, { plays: number; minutes: number }>();
-
-  const uniqueTrackIds = new Set<string>();
-  const uniqueArtistIds = new Set<string>();
-  const uniqueAlbumIds = new Set<string>();
-
-  let totalListeningMs = 0;
-  let featureWeight = 0;
-  let featureEnergy = 0;
-  let featureDanceability = 0;
-  let featureValence = 0;
-  let featureTempo = 0;
-
-  for (const event of playEvents) {
-    const track = trackMap.get(event.trackId);
-    if (!track) {
-      continue;
-    }
+function toAggregationResult([totals, daily, songs, albums, artists, genres]: AggregationRows): AggregationResult {
+  const total = totals[0];
+  if (!total || daily.length === 0) {
+    return createEmptyAggregation();
+  }
 
-    const minutes = track.durationMs / 1000 / 60;
-    totalListeningMs += track.durationMs;
+  return {
+    totalListeningHours: Number((total.listened_ms / 1000 / 60 / 60).toFixed(2)),
+    totalUniqueSongs: total.unique_songs,
+    totalUniqueArtists: total.unique_artists,
+    totalUniqueAlbums: total.unique_albums,
+    listeningOverTime: toListeningOverTime(daily),
+    songs: toRankedEntries(songs),
+    artists: toRankedEntries(artists),
+    albums: toRankedEntries(albums),
+    genres: toRankedEntries(genres),
+    featureAverages: {
+      energy: total.energy !== null ? Number(total.energy.toFixed(3)) : 0,
+      danceability: total.danceability !== null ? Number(total.danceability.toFixed(3)) : 0,
+      valence: total.valence !== null ? Number(total.valence.toFixed(3)) : 0,
+      tempo: total.tempo !== null ? Number(total.tempo.toFixed(1)) : 0,
+    },
+  };
+}
 
-    uniqueTrackIds.add(track.id);
-    if (track.albumId) {
-      uniqueAlbumIds.add(track.albumId);
-    }
+function aggregatePlays(
+  query: RawQuery,
+  userId: string,
+  range: TimeRange,
+  timeZone: string,
+): Promise<AggregationRows> {
+  const ctes = Prisma.sql`plays AS (${rangePlaysSql(userId, range, timeZone)})`;
 
-    if (
-      track.energy !== null &&
-      track.danceability !== null &&
-      track.valence !== null &&
-      track.tempo !== null
-    ) {
-      featureEnergy += track.energy;
-      featureDanceability += track.danceability;
-      featureValence += track.valence;
-      featureTempo += track.tempo;
-      featureWeight += 1;
-    }
+  return Promise.all([
+    query<RangeTotalsRow>(Prisma.sql`
+      WITH ${ctes}
+      SELECT
+        COALESCE(SUM(listened_ms), 0)::float8 AS listened_ms,
+        COUNT(DISTINCT track_id)::int AS unique_songs,
+        COUNT(DISTINCT album_id)::int AS unique_albums,
+        (SELECT COUNT(DISTINCT artist_id)::int FROM plays, unnest(plays.artist_ids) AS artist_id) AS unique_artists,
+        AVG(energy) FILTER (WHERE has_features)::float8 AS energy,
+        AVG(danceability) FILTER (WHERE has_features)::float8 AS danceability,
+        AVG(valence) FILTER (WHERE has_features)::float8 AS valence,
+        AVG(tempo) FILTER (WHERE has_features)::float8 AS tempo
+      FROM plays
+    `),
+    query<DailyRow>(dailyPlaysSql(ctes)),
+    query<RankedEntryRow>(
+      rankedEntriesSql(
+        ctes,
+        TRACK_ENTRIES_SQL,
+      ),
+    ),
+    query<RankedEntryRow>(
+      rankedEntriesSql(
+        ctes,
+        Prisma.sql`
+          SELECT
+            plays.album_id AS id,
+            COALESCE(MAX(a.name), 'Unknown Album') AS name,
+            MAX(a.image_url) AS image_url,
+            COUNT(*)::int AS play_count,
+            SUM(plays.listened_ms)::float8 AS listened_ms,
+            MAX(plays.played_at) AS last_listened
+          FROM plays
+          LEFT JOIN albums a ON a.id = plays.album_id
+          WHERE plays.album_id IS NOT NULL
+          GROUP BY plays.album_id
+        `,
+      ),
+    ),
+    query<RankedEntryRow>(
+      rankedEntriesSql(
+        ctes,
+        Prisma.sql`
+          SELECT
+            artist_id AS id,
+            COALESCE(MAX(a.name), 'Unknown Artist') AS name,
+            MAX(a.image_url) AS image_url,
+            COUNT(*)::int AS play_count,
+            SUM(plays.listened_ms)::float8 AS listened_ms,
+            MAX(plays.played_at) AS last_listened
+          FROM plays
+          CROSS JOIN LATERAL unnest(plays.artist_ids) AS artist_id
+          LEFT JOIN artists a ON a.id = artist_id
+          GROUP BY artist_id
+        `,
+      ),
+    ),
+    // Every artist credit counts once per genre; artists without genres count as "Unknown".
+    query<RankedEntryRow>(
+      rankedEntriesSql(
+        ctes,
+        Prisma.sql`
+          SELECT
+            genre AS id,
+            genre AS name,
+            NULL::text AS image_url,
+            COUNT(*)::int AS play_count,
+            SUM(plays.listened_ms)::float8 AS listened_ms,
+            MAX(plays.played_at) AS last_listened
+          FROM plays
+          CROSS JOIN LATERAL unnest(plays.artist_ids) AS artist_id
+          LEFT JOIN artists a ON a.id = artist_id
+          CROSS JOIN LATERAL unnest(
+            CASE WHEN cardinality(a.genres) > 0 THEN a.genres ELSE ARRAY['Unknown']::text[] END
+          ) AS genre
+          GROUP BY genre
+        `,
+      ),
+    ),
+  ]);
+}
 
-    const dateKey = event.playedAt.toISOString().slice(0, 10);
-    const daily = dailyAgg.get(dateKey) ?? { plays: 0, minutes: 0 };
-    daily.plays += 1;
-    daily.minutes += minutes;
-    dailyAgg.set(dateKey, daily);
-
-    const songEntry = songAgg.get(track.id) ?? {
-      id: track.id,
-      name: track.name,
-      imageUrl: track.imageUrl,
-      playCount: 0,
-      totalMinutes: 0,
-      lastListened: null,
-    };
+// Same aggregates as aggregatePlays, summed from the daily rollups of the days in the range.
+function aggregateRollups(
+  query: RawQuery,
+  userId: string,
+  range: TimeRange,
+  timeZone: string,
+): Promise<AggregationRows> {
+  const ctes = Prisma.sql`rollups AS (
+    SELECT *
+    FROM listening_rollups
+    WHERE user_id = ${userId}
+      AND day >= ${toDateKey(range.from, timeZone)}::date
+      AND day <= ${toDateKey(range.to, timeZone)}::date
+  )`;
 
-    songEntry.playCount += 1;
-    songEntry.totalMinutes += minutes;
-    songEntry.lastListened =
-      !songEntry.lastListened || event.playedAt > songEntry.lastListened
-        ? event.playedAt
-        : songEntry.lastListened;
-    songAgg.set(track.id, songEntry);
-
-    if (track.albumId) {
-      const album = albumMap.get(track.albumId);
-      const albumEntry = albumAgg.get(track.albumId) ?? {
-        id: track.albumId,
-        name: album?.name ?? "Unknown Album",
-        imageUrl: album?.imageUrl ?? null,
-        playCount: 0,
-        totalMinutes: 0,
-        lastListened: null,
-      };
+  const groupedByEntity = (entityType: string, catalog: Prisma.Sql, fallbackName: string) => Prisma.sql`
+    SELECT
+      r.entity_id AS id,
+      COALESCE(MAX(c.name), ${fallbackName}) AS name,
+      MAX(c.image_url) AS image_url,
+      SUM(r.plays)::int AS play_count,
+      SUM(r.listened_ms)::float8 AS listened_ms,
+      MAX(r.last_played_at) AS last_listened
+    FROM rollups r
+    LEFT JOIN ${catalog} c ON c.id = r.entity_id
+    WHERE r.entity_type = ${entityType}
+    GROUP BY r.entity_id
+  `;
 
-      albumEntry.playCount += 1;
-      albumEntry.totalMinutes += minutes;
-      albumEntry.lastListened =
-        !albumEntry.lastListened || event.playedAt > albumEntry.lastListened
-          ? event.playedAt
-          : albumEntry.lastListened;
-      albumAgg.set(track.albumId, albumEntry);
-    }
+  return Promise.all([
+    query<RangeTotalsRow>(Prisma.sql`
+      WITH ${ctes}, track_rollups AS (
+        SELECT
+          r.entity_id,
+          r.plays,
+          r.listened_ms,
+          t.energy,
+          t.danceability,
+          t.valence,
+          t.tempo,
+          (t.energy IS NOT NULL AND t.danceability IS NOT NULL AND t.valence IS NOT NULL AND t.tempo IS NOT NULL)
+            AS has_features
+        FROM rollups r
+        JOIN tracks t ON t.id = r.entity_id
+        WHERE r.entity_type = 'track'
+      )
+      SELECT
+        COALESCE(SUM(listened_ms), 0)::float8 AS listened_ms,
+        COUNT(DISTINCT entity_id)::int AS unique_songs,
+        (SELECT COUNT(DISTINCT entity_id)::int FROM rollups WHERE entity_type = 'album') AS unique_albums,
+        (SELECT COUNT(DISTINCT entity_id)::int FROM rollups WHERE entity_type = 'artist') AS unique_artists,
+        (SUM(energy * plays) FILTER (WHERE has_features) / NULLIF(SUM(plays) FILTER (WHERE has_features), 0))::float8
+          AS energy,
+        (SUM(danceability * plays) FILTER (WHERE has_features) / NULLIF(SUM(plays) FILTER (WHERE has_features), 0))::float8
+          AS danceability,
+        (SUM(valence * plays) FILTER (WHERE has_features) / NULLIF(SUM(plays) FILTER (WHERE has_features), 0))::float8
+          AS valence,
+        (SUM(tempo * plays) FILTER (WHERE has_features) / NULLIF(SUM(plays) FILTER (WHERE has_features), 0))::float8
+          AS tempo
+      FROM track_rollups
+    `),
+    query<DailyRow>(Prisma.sql`
+      WITH ${ctes}
+      SELECT
+        to_char(day, 'YYYY-MM-DD') AS date,
+        SUM(plays)::int AS plays,
+        SUM(listened_ms)::float8 AS listened_ms
+      FROM rollups
+      WHERE entity_type = 'track'
+      GROUP BY day
+      ORDER BY day
+    `),
+    query<RankedEntryRow>(
+      rankedEntriesSql(ctes, groupedByEntity("track", Prisma.sql`tracks`, "Unknown Track")),
+    ),
+    query<RankedEntryRow>(
+      rankedEntriesSql(ctes, groupedByEntity("album", Prisma.sql`albums`, "Unknown Album")),
+    ),
+    query<RankedEntryRow>(
+      rankedEntriesSql(ctes, groupedByEntity("artist", Prisma.sql`artists`, "Unknown Artist")),
+    ),
+    query<RankedEntryRow>(
+      rankedEntriesSql(
+        ctes,
+        Prisma.sql`
+          SELECT
+            entity_id AS id,
+            entity_id AS name,
+            NULL::text AS image_url,
+            SUM(plays)::int AS play_count,
+            SUM(listened_ms)::float8 AS listened_ms,
+            MAX(last_played_at) AS last_listened
+          FROM rollups
+          WHERE entity_type = 'genre'
+          GROUP BY entity_id
+        `,
+      ),
+    ),
+  ]);
+}
 
-    for (const artistId of track.artistIds) {
-      uniqueArtistIds.add(artistId);
-
-      const artist = artistMap.get(artistId);
-      const artistEntry = artistAgg.get(artistId) ?? {
-        id: artistId,
-        name: artist?.name ?? "Unknown Artist",
-        imageUrl: artist?.imageUrl ?? null,
-        playCount: 0,
-        totalMinutes: 0,
-        lastListened: null,
-      };
+// Aggregates a user's plays in Postgres and returns the same result as aggregatePlayEvents without
+// loading individual play events. Days are calendar days in the user's time zone. Ranges made of
+// whole days are summed from the daily rollups once they have been built for the user; other
+// ranges are aggregated from the play events.
+export async function aggregateForRange(userId: string, range: TimeRange): Promise<AggregationResult> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { rollupsBuiltAt: true, timeZone: true },
+  });
+  const timeZone = resolveTimeZone(user?.timeZone);
 
-      artistEntry.playCount += 1;
-      artistEntry.totalMinutes += minutes;
-      artistEntry.lastListened =
-        !artistEntry.lastListened || event.playedAt > artistEntry.lastListened
-          ? event.playedAt
-          : artistEntry.lastListened;
-      artistAgg.set(artistId, artistEntry);
-
-      const genres = artist?.genres.length ? artist.genres : ["Unknown"];
-      for (const genre of genres) {
-        const genreEntry = genreAgg.get(genre) ?? {
-          id: genre,
-          name: genre,
-          imageUrl: null,
-          playCount: 0,
-          totalMinutes: 0,
-          lastListened: null,
-        };
-
-        genreEntry.playCount += 1;
-        genreEntry.totalMinutes += minutes;
-        genreEntry.lastListened =
-          !genreEntry.lastListened || event.playedAt > genreEntry.lastListened
-            ? event.playedAt
-            : genreEntry.lastListened;
-        genreAgg.set(genre, genreEntry);
-      }
-    }
-  }
+  return aggregateRange(prismaQuery, userId, range, {
+    timeZone,
+    fromRollups: Boolean(user?.rollupsBuiltAt) && isWholeDayRange(range, timeZone),
+  });
+}
 
-  const songs = sortEntries(toTopEntries(songAgg), "plays");
-  const artistsSorted = sortEntries(toTopEntries(artistAgg), "plays");
-  const albumsSorted = sortEntries(toTopEntries(albumAgg), "plays");
-  const genresSorted = sortEntries(toTopEntries(genreAgg), "plays");
+// The aggregation behind aggregateForRange, run through `query` so the tests can point it at an
+// in-process database.
+export async function aggregateRange(
+  query: RawQuery,
+  userId: string,
+  range: TimeRange,
+  options: { timeZone: string; fromRollups: boolean },
+): Promise<AggregationResult> {
+  const rows = options.fromRollups
+    ? await aggregateRollups(query, userId, range, options.timeZone)
+    : await aggregatePlays(query, userId, range, options.timeZone);
 
-  return {
-    totalListeningHours: Number((totalListeningMs / 1000 / 60 / 60).toFixed(2)),
-    totalUniqueSongs: uniqueTrackIds.size,
-    totalUniqueArtists: uniqueArtistIds.size,
-    totalUniqueAlbums: uniqueAlbumIds.size,
-    listeningOverTime: [...dailyAgg.entries()]
-      .sort((a, b) => a[0].localeCompare(b[0]))
-      .map(([date, value]) => ({
-        date,
-        plays: value.plays,
-        minutes: Number(value.minutes.toFixed(1)),
-      })),
-    songs,
-    artists: artistsSorted,
-    albums: albumsSorted,
-    genres: genresSorted,
-    featureAverages: {
-      energy: featureWeight > 0 ? Number((featureEnergy / featureWeight).toFixed(3)) : 0,
-      danceability:
-        featureWeight > 0 ? Number((featureDanceability / featureWeight).toFixed(3)) : 0,
-      valence: featureWeight > 0 ? Number((featureValence / featureWeight).toFixed(3)) : 0,
-      tempo: featureWeight > 0 ? Number((featureTempo / featureWeight).toFixed(1)) : 0,
-    },
-  };
+  return toAggregationResult(rows);
 }
 
-export async function getDashboardStats(userId: string, range: TimeRange): Promise<DashboardStats> {
-  const data = await aggregateForRange(userId, range);
+// With `compare`, the previous period of equal length (see getPreviousRange) is aggregated too, and
+// the result carries deltas for the totals and rank movement on the previews.
+export async function getDashboardStats(
+  userId: string,
+  range: TimeRange,
+  options?: { compare?: boolean },
+): Promise<DashboardStats> {
+  const previousRange = options?.compare ? getPreviousRange(range, await getUserTimeZone(userId)) : null;
+  const [data, previous] = await Promise.all([
+    aggregateForRange(userId, range),
+    previousRange ? aggregateForRange(userId, previousRange) : null,
+  ]);
+
+  const preview = (current: TopEntry[], previousEntries: TopEntry[] | undefined) =>
+    (previousEntries ? withRankMovement(current, previousEntries) : current).slice(0, 5);
 
   return {
     range,
@@ -305,23 +484,29 @@ export async function getDashboardStats(userId: string, range: TimeRange): Promi
     totalUniqueArtists: data.totalUniqueArtists,
     totalUniqueAlbums: data.totalUniqueAlbums,
     listeningOverTime: data.listeningOverTime,
-    topSongsPreview: data.songs.slice(0, 5),
-    topArtistsPreview: data.artists.slice(0, 5),
-    topAlbumsPreview: data.albums.slice(0, 5),
+    topSongsPreview: preview(data.songs, previous?.songs),
+    topArtistsPreview: preview(data.artists, previous?.artists),
+    topAlbumsPreview: preview(data.albums, previous?.albums),
+    topGenresPreview: preview(data.genres, previous?.genres),
+    comparison:
+      previous && previousRange
+        ? {
+            previousRange,
+            totalListeningHours: computeMetricDelta(data.totalListeningHours, previous.totalListeningHours),
+            totalUniqueSongs: computeMetricDelta(data.totalUniqueSongs, previous.totalUniqueSongs),
+            totalUniqueArtists: computeMetricDelta(data.totalUniqueArtists, previous.totalUniqueArtists),
+            totalUniqueAlbums: computeMetricDelta(data.totalUniqueAlbums, previous.totalUniqueAlbums),
+          }
+        : undefined,
   };
 }
 
-export async function getTopEntries(
-  userId: string,
-  range: TimeRange,
-  type: TopEntityType,
-  options?: {
-    search?: string;
-    sort?: "plays" | "minutes" | "recent";
-  },
-): Promise<TopEntry[]> {
-  const data = await aggregateForRange(userId, range);
+type TopEntriesOptions = {
+  search?: string;
+  sort?: "plays" | "minutes" | "recent";
+};
 
+function rankTopEntries(data: AggregationResult, type: TopEntityType, options?: TopEntriesOptions): TopEntry[] {
   const sortBy = options?.sort ?? "plays";
   const search = options?.search?.toLowerCase().trim();
 
@@ -341,6 +526,677 @@ export async function getTopEntries(
   return sortEntries(filtered, sortBy);
 }
 
+type ListeningClockRow = {
+  day_of_week: number;
+  hour: number;
+  plays: number;
+  listened_ms: number;
+};
+
+// Plays and minutes per weekday and hour of day in the user's time zone, optionally limited to
+// the tracks of one artist or one genre. Always returns all 7x24 cells.
+export async function getListeningClock(
+  userId: string,
+  range: TimeRange,
+  filter: ListeningClockFilter = {},
+): Promise<ListeningClock> {
+  const timeZone = await getUserTimeZone(userId);
+  const localPlayedAt = Prisma.sql`(pe.played_at AT TIME ZONE 'UTC' AT TIME ZONE ${timeZone})`;
+
+  const filterSql = filter.artistId
+    ? entityFilterSql({ type: "artist", id: filter.artistId })
+    : filter.genre
+      ? entityFilterSql({ type: "genre", id: filter.genre })
+      : Prisma.empty;
+
+  const [rows, artist] = await Promise.all([
+    prisma.$queryRaw<ListeningClockRow[]>`
+      SELECT
+        (EXTRACT(ISODOW FROM ${localPlayedAt})::int - 1) AS day_of_week,
+        EXTRACT(HOUR FROM ${localPlayedAt})::int AS hour,
+        COUNT(*)::int AS plays,
+        SUM(COALESCE(pe.ms_played, t.duration_ms))::float8 AS listened_ms
+      FROM play_events pe
+      JOIN tracks t ON t.id = pe.track_id
+      WHERE pe.user_id = ${userId}
+        AND pe.played_at >= ${range.from}
+        AND pe.played_at <= ${range.to}
+        ${filterSql}
+      GROUP BY 1, 2
+    `,
+    filter.artistId
+      ? prisma.artist.findUnique({ where: { id: filter.artistId }, select: { name: true } })
+      : null,
+  ]);
+
+  const rowMap = new Map(rows.map((row) => [`${row.day_of_week}:${row.hour}`, row]));
+  const cells: ListeningClockCell[] = [];
+
+  for (let dayOfWeek = 0; dayOfWeek < 7; dayOfWeek += 1) {
+    for (let hour = 0; hour < 24; hour += 1) {
+      const row = rowMap.get(`${dayOfWeek}:${hour}`);
+      cells.push({
+        dayOfWeek,
+        hour,
+        plays: row?.plays ?? 0,
+        minutes: row ? Number((row.listened_ms / 1000 / 60).toFixed(1)) : 0,
+      });
+    }
+  }
+
+  return {
+    timeZone,
+    filter: {
+      ...filter,
+      label: filter.artistId ? (artist?.name ?? "Unknown Artist") : (filter.genre ?? null),
+    },
+    cells,
+    maxPlays: Math.max(0, ...cells.map((cell) => cell.plays)),
+    maxMinutes: Math.max(0, ...cells.map((cell) => cell.minutes)),
+  };
+}
+
+export async function getTopEntries(
+  userId: string,
+  range: TimeRange,
+  type: TopEntityType,
+  options?: TopEntriesOptions,
+): Promise<TopEntry[]> {
+  const data = await aggregateForRange(userId, range);
+  return rankTopEntries(data, type, options);
+}
+
+// Same ranking as getTopEntries with rank movement against the previous period of equal length.
+// Both periods are filtered and sorted the same way, so movement compares like with like.
+export async function getTopEntriesComparison(
+  userId: string,
+  range: TimeRange,
+  type: TopEntityType,
+  options?: TopEntriesOptions,
+): Promise<TopEntriesComparison> {
+  const previousRange = getPreviousRange(range, await getUserTimeZone(userId));
+  const [data, previous] = await Promise.all([
+    aggregateForRange(userId, range),
+    aggregateForRange(userId, previousRange),
+  ]);
+
+  const entries = rankTopEntries(data, type, options);
+  const previousEntries = rankTopEntries(previous, type, options);
+
+  return {
+    previousRange,
+    entries: withRankMovement(entries, previousEntries),
+    dropped: findDroppedEntries(entries, previousEntries, DROPPED_ENTRY_LIMIT),
+  };
+}
+
+type EntityTotalsRow = {
+  plays: number;
+  listened_ms: number;
+  first_listened: Date | null;
+  last_listened: Date | null;
+};
+
+type SessionStatsRow = {
+  session_count: number;
+  total_duration_ms: number;
+  longest_duration_ms: number;
+  total_plays: number;
+  first_track_id: string | null;
+  first_track_name: string | null;
+  first_track_sessions: number | null;
+};
+
+type HourOfDayRow = {
+  hour: number;
+  plays: number;
+  listened_ms: number;
+};
+
+type EntityMetadata = Pick<EntityDetail, "name" | "imageUrl" | "artists" | "album">;
+
+async function loadArtistNames(artistIds: string[]): Promise<EntityDetail["artists"]> {
+  const artists = await prisma.artist.findMany({
+    where: { id: { in: artistIds } },
+    select: { id: true, name: true },
+  });
+  const names = new Map(artists.map((artist) => [artist.id, artist.name]));
+  return artistIds.map((id) => ({ id, name: names.get(id) ?? "Unknown Artist" }));
+}
+
+async function loadEntityMetadata(entity: EntityRef): Promise<EntityMetadata | null> {
+  switch (entity.type) {
+    case "track": {
+      const track = await prisma.track.findUnique({
+        where: { id: entity.id },
+        select: {
+          name: true,
+          imageUrl: true,
+          artistIds: true,
+          album: { select: { id: true, name: true, imageUrl: true } },
+        },
+      });
+      if (!track) {
+        return null;
+      }
+      return {
+        name: track.name,
+        imageUrl: track.imageUrl ?? track.album?.imageUrl ?? null,
+        artists: await loadArtistNames(track.artistIds),
+        album: track.album ? { id: track.album.id, name: track.album.name } : null,
+      };
+    }
+    case "album": {
+      const album = await prisma.album.findUnique({
+        where: { id: entity.id },
+        select: { name: true, imageUrl: true, tracks: { select: { artistIds: true } } },
+      });
+      if (!album) {
+        return null;
+      }
+      return {
+        name: album.name,
+        imageUrl: album.imageUrl,
+        artists: await loadArtistNames([...new Set(album.tracks.flatMap((track) => track.artistIds))]),
+        album: null,
+      };
+    }
+    case "artist": {
+      const artist = await prisma.artist.findUnique({
+        where: { id: entity.id },
+        select: { name: true, imageUrl: true },
+      });
+      return artist ? { name: artist.name, imageUrl: artist.imageUrl, artists: [], album: null } : null;
+    }
+    case "genre":
+      return { name: entity.id, imageUrl: null, artists: [], album: null };
+  }
+}
+
+// Listening stats of one track, album, artist or genre within the range. Returns null when the
+// track, album or artist is not in the catalog.
+export async function getEntityDetail(
+  userId: string,
+  range: TimeRange,
+  entity: EntityRef,
+): Promise<EntityDetail | null> {
+  const metadata = await loadEntityMetadata(entity);
+  if (!metadata) {
+    return null;
+  }
+
+  const timeZone = await getUserTimeZone(userId);
+  const ctes = Prisma.sql`plays AS (${rangePlaysSql(userId, range, timeZone, entityFilterSql(entity))})`;
+
+  const [totals, daily, topTracks, hours] = await Promise.all([
+    prisma.$queryRaw<EntityTotalsRow[]>`
+      WITH ${ctes}
+      SELECT
+        COUNT(*)::int AS plays,
+        COALESCE(SUM(listened_ms), 0)::float8 AS listened_ms,
+        MIN(played_at) AS first_listened,
+        MAX(played_at) AS last_listened
+      FROM plays
+    `,
+    prisma.$queryRaw<DailyRow[]>(dailyPlaysSql(ctes)),
+    entity.type === "track"
+      ? Promise.resolve<RankedEntryRow[]>([])
+      : prisma.$queryRaw<RankedEntryRow[]>`
+          ${rankedEntriesSql(ctes, TRACK_ENTRIES_SQL)}
+          LIMIT ${ENTITY_TOP_TRACK_LIMIT}
+        `,
+    prisma.$queryRaw<HourOfDayRow[]>`
+      WITH ${ctes}
+      SELECT
+        EXTRACT(HOUR FROM (played_at AT TIME ZONE 'UTC' AT TIME ZONE ${timeZone}))::int AS hour,
+        COUNT(*)::int AS plays,
+        SUM(listened_ms)::float8 AS listened_ms
+      FROM plays
+      GROUP BY 1
+    `,
+  ]);
+
+  const total = totals[0];
+  const hourMap = new Map(hours.map((row) => [row.hour, row]));
+  const hourOfDay: HourOfDayEntry[] = Array.from({ length: 24 }, (_, hour) => {
+    const row = hourMap.get(hour);
+    return {
+      hour,
+      plays: row?.plays ?? 0,
+      minutes: row ? Number((row.listened_ms / 1000 / 60).toFixed(1)) : 0,
+    };
+  });
+  const peak = hourOfDay.reduce((best, entry) => (entry.plays > best.plays ? entry : best), hourOfDay[0]);
+
+  return {
+    entity,
+    ...metadata,
+    timeZone,
+    totalPlays: total?.plays ?? 0,
+    totalMinutes: total ? Number((total.listened_ms / 1000 / 60).toFixed(1)) : 0,
+    firstListened: total?.first_listened?.toISOString() ?? null,
+    lastListened: total?.last_listened?.toISOString() ?? null,
+    listeningOverTime: toListeningOverTime(daily),
+    topTracks: toRankedEntries(topTracks),
+    hourOfDay,
+    peakHour: peak.plays > 0 ? peak.hour : null,
+  };
+}
+
+type DiscoveryRow = {
+  entity_type: Discovery["type"];
+  entity_id: string;
+  name: string;
+  first_played_at: Date;
+};
+
+type DiscoveryMinutesRow = {
+  period_start: string;
+  listened_ms: number;
+  novel_ms: number;
+};
+
+// Tracks, artists and genres first heard within the range, grouped by week or month, with the
+// share of minutes spent on recently discovered tracks. "New" is the same notion as
+// filterNewToMeTracks: never played before, across the user's whole history. Artists without
+// genres do not add an "Unknown" genre here.
+export async function getDiscoveryReport(
+  userId: string,
+  range: TimeRange,
+  period: DiscoveryPeriod,
+): Promise<DiscoveryReport> {
+  const timeZone = await getUserTimeZone(userId);
+
+  const [discoveries, minutes] = await Promise.all([
+    prisma.$queryRaw<DiscoveryRow[]>`
+      WITH plays AS (
+        SELECT pe.track_id, pe.played_at, t.artist_ids
+        FROM play_events pe
+        JOIN tracks t ON t.id = pe.track_id
+        WHERE pe.user_id = ${userId}
+      ), artist_firsts AS (
+        SELECT artist_id, MIN(played_at) AS first_played_at
+        FROM plays
+        CROSS JOIN LATERAL unnest(plays.artist_ids) AS artist_id
+        GROUP BY artist_id
+      ), firsts AS (
+        SELECT 'track' AS entity_type, track_id AS entity_id, MIN(played_at) AS first_played_at
+        FROM plays
+        GROUP BY track_id
+        UNION ALL
+        SELECT 'artist', artist_id, first_played_at
+        FROM artist_firsts
+        UNION ALL
+        SELECT 'genre', genre, MIN(artist_firsts.first_played_at)
+        FROM artist_firsts
+        JOIN artists a ON a.id = artist_firsts.artist_id
+        CROSS JOIN LATERAL unnest(a.genres) AS genre
+        GROUP BY genre
+      )
+      SELECT
+        f.entity_type,
+        f.entity_id,
+        CASE f.entity_type
+          WHEN 'track' THEN COALESCE(t.name, 'Unknown Track')
+          WHEN 'artist' THEN COALESCE(a.name, 'Unknown Artist')
+          ELSE f.entity_id
+        END AS name,
+        f.first_played_at
+      FROM firsts f
+      LEFT JOIN tracks t ON f.entity_type = 'track' AND t.id = f.entity_id
+      LEFT JOIN artists a ON f.entity_type = 'artist' AND a.id = f.entity_id
+      WHERE f.first_played_at >= ${range.from}
+        AND f.first_played_at <= ${range.to}
+    `,
+    prisma.$queryRaw<DiscoveryMinutesRow[]>`
+      WITH firsts AS (
+        SELECT track_id, MIN(played_at) AS first_played_at
+        FROM play_events
+        WHERE user_id = ${userId}
+        GROUP BY track_id
+      )
+      SELECT
+        to_char(date_trunc(${period}::text, pe.played_at AT TIME ZONE 'UTC' AT TIME ZONE ${timeZone}), 'YYYY-MM-DD')
+          AS period_start,
+        SUM(COALESCE(pe.ms_played, t.duration_ms))::float8 AS listened_ms,
+        COALESCE(
+          SUM(COALESCE(pe.ms_played, t.duration_ms)) FILTER (
+            WHERE pe.played_at <= firsts.first_played_at + make_interval(days => ${NOVELTY_WINDOW_DAYS}::int)
+          ),
+          0
+        )::float8 AS novel_ms
+      FROM play_events pe
+      JOIN tracks t ON t.id = pe.track_id
+      JOIN firsts ON firsts.track_id = pe.track_id
+      WHERE pe.user_id = ${userId}
+        AND pe.played_at >= ${range.from}
+        AND pe.played_at <= ${range.to}
+      GROUP BY 1
+    `,
+  ]);
+
+  return buildDiscoveryReport(
+    discoveries.map((row) => ({
+      type: row.entity_type,
+      id: row.entity_id,
+      name: row.name,
+      firstPlayedAt: row.first_played_at.toISOString(),
+    })),
+    minutes.map((row) => ({ periodStart: row.period_start, listenedMs: row.listened_ms, novelMs: row.novel_ms })),
+    period,
+    timeZone,
+  );
+}
+
+type MoodCoverageRow = {
+  total_plays: number;
+  plays_with_features: number;
+};
+
+type MoodTimelineRow = {
+  week_start: string;
+  energy: number;
+  valence: number;
+  danceability: number;
+  tempo: number;
+  listened_ms: number;
+};
+
+type MoodHistogramQueryRow = {
+  feature: "energy" | "valence";
+  bin: number;
+  plays: number;
+  listened_ms: number;
+};
+
+type MoodTrackRow = {
+  id: string;
+  name: string;
+  image_url: string | null;
+  energy: number;
+  valence: number;
+  play_count: number;
+};
+
+// Audio features over the range: weekly averages weighted by listened time, play histograms of
+// energy and valence, and the most played tracks placed on the energy/valence plane. Plays of
+// tracks without features are left out of all three.
+export async function getMoodReport(userId: string, range: TimeRange): Promise<MoodReport> {
+  const timeZone = await getUserTimeZone(userId);
+  const ctes = Prisma.sql`plays AS (${rangePlaysSql(userId, range, timeZone)})`;
+  // width_bucket puts 1.0 in an overflow bin; it is folded into the last one.
+  const histogramSql = (feature: "energy" | "valence") => Prisma.sql`
+    SELECT
+      ${feature}::text AS feature,
+      LEAST(
+        GREATEST(width_bucket(${Prisma.raw(feature)}, 0, 1, ${MOOD_HISTOGRAM_BINS}::int), 1),
+        ${MOOD_HISTOGRAM_BINS}::int
+      ) AS bin,
+      COUNT(*)::int AS plays,
+      SUM(listened_ms)::float8 AS listened_ms
+    FROM plays
+    WHERE ${Prisma.raw(feature)} IS NOT NULL
+    GROUP BY 2
+  `;
+
+  const [coverage, timeline, histograms, tracks] = await Promise.all([
+    prisma.$queryRaw<MoodCoverageRow[]>`
+      WITH ${ctes}
+      SELECT
+        COUNT(*)::int AS total_plays,
+        (COUNT(*) FILTER (WHERE has_features))::int AS plays_with_features
+      FROM plays
+    `,
+    prisma.$queryRaw<MoodTimelineRow[]>`
+      WITH ${ctes}
+      SELECT
+        to_char(day - (EXTRACT(ISODOW FROM day)::int - 1), 'YYYY-MM-DD') AS week_start,
+        (SUM(energy * listened_ms) / SUM(listened_ms))::float8 AS energy,
+        (SUM(valence * listened_ms) / SUM(listened_ms))::float8 AS valence,
+        (SUM(danceability * listened_ms) / SUM(listened_ms))::float8 AS danceability,
+        (SUM(tempo * listened_ms) / SUM(listened_ms))::float8 AS tempo,
+        SUM(listened_ms)::float8 AS listened_ms
+      FROM plays
+      WHERE has_features AND listened_ms > 0
+      GROUP BY 1
+      ORDER BY 1
+    `,
+    prisma.$queryRaw<MoodHistogramQueryRow[]>`
+      WITH ${ctes}
+      ${histogramSql("energy")}
+      UNION ALL
+      ${histogramSql("valence")}
+    `,
+    prisma.$queryRaw<MoodTrackRow[]>`
+      WITH ${ctes}
+      SELECT
+        t.id,
+        t.name,
+        t.image_url,
+        t.energy,
+        t.valence,
+        COUNT(*)::int AS play_count
+      FROM plays
+      JOIN tracks t ON t.id = plays.track_id
+      WHERE t.energy IS NOT NULL AND t.valence IS NOT NULL
+      GROUP BY t.id
+      ORDER BY play_count DESC, MAX(plays.played_at) DESC, t.id
+      LIMIT ${MOOD_QUADRANT_TRACK_LIMIT}
+    `,
+  ]);
+
+  const histogramRows = (feature: MoodHistogramQueryRow["feature"]) =>
+    histograms
+      .filter((row) => row.feature === feature)
+      .map((row) => ({ bin: row.bin, plays: row.plays, listenedMs: row.listened_ms }));
+
+  return {
+    timeZone,
+    totalPlays: coverage[0]?.total_plays ?? 0,
+    playsWithFeatures: coverage[0]?.plays_with_features ?? 0,
+    timeline: timeline.map((row) => ({
+      weekStart: row.week_start,
+      energy: Number(row.energy.toFixed(3)),
+      valence: Number(row.valence.toFixed(3)),
+      danceability: Number(row.danceability.toFixed(3)),
+      tempo: Number(row.tempo.toFixed(1)),
+      minutes: Number((row.listened_ms / 1000 / 60).toFixed(1)),
+    })),
+    energyHistogram: toMoodHistogram(histogramRows("energy")),
+    valenceHistogram: toMoodHistogram(histogramRows("valence")),
+    quadrantTracks: tracks.map((row) => ({
+      id: row.id,
+      name: row.name,
+      imageUrl: row.image_url,
+      energy: row.energy,
+      valence: row.valence,
+      playCount: row.play_count,
+      quadrant: moodQuadrant(row.energy, row.valence),
+    })),
+  };
+}
+
+// Sessions need each play in order, so only the columns the session builder uses are loaded.
+async function loadSessionPlays(userId: string, from: Date, to: Date): Promise<SessionPlay[]> {
+  const rows = await prisma.playEvent.findMany({
+    where: { userId, playedAt: { gte: from, lte: to } },
+    orderBy: { playedAt: "asc" },
+    select: {
+      trackId: true,
+      playedAt: true,
+      msPlayed: true,
+      track: { select: { name: true, durationMs: true, artistIds: true } },
+    },
+  });
+
+  return rows.map((row) => ({
+    trackId: row.trackId,
+    trackName: row.track.name,
+    artistIds: row.track.artistIds,
+    playedAt: row.playedAt,
+    listenedMs: resolveListenedMs(row.msPlayed, row.track.durationMs),
+  }));
+}
+
+// Sessions are built from the plays inside the range, so one that started before it is counted
+// from its first play in the range. As in buildListeningSessions, a play starts a new session when
+// it comes more than SESSION_GAP_MS after the latest end of the plays before it.
+export async function getSessionStats(userId: string, range: TimeRange): Promise<SessionStats> {
+  const rows = await prisma.$queryRaw<SessionStatsRow[]>`
+    WITH plays AS (
+      SELECT
+        pe.id,
+        pe.track_id,
+        pe.played_at,
+        pe.played_at + COALESCE(pe.ms_played, t.duration_ms) * interval '1 millisecond' AS ended_at
+      FROM play_events pe
+      JOIN tracks t ON t.id = pe.track_id
+      WHERE pe.user_id = ${userId}
+        AND pe.played_at >= ${range.from}
+        AND pe.played_at <= ${range.to}
+    ),
+    marked AS (
+      SELECT
+        plays.*,
+        CASE
+          WHEN played_at - max(ended_at) OVER (
+            ORDER BY played_at, id ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+          ) <= ${SESSION_GAP_MS}::int * interval '1 millisecond'
+          THEN 0
+          ELSE 1
+        END AS starts_session
+      FROM plays
+    ),
+    numbered AS (
+      SELECT marked.*, sum(starts_session) OVER (ORDER BY played_at, id) AS session_id
+      FROM marked
+    ),
+    sessions AS (
+      SELECT
+        min(played_at) AS started_at,
+        max(ended_at) AS ended_at,
+        count(*) AS plays,
+        (array_agg(track_id ORDER BY played_at, id))[1] AS first_track_id
+      FROM numbered
+      GROUP BY session_id
+    ),
+    first_track AS (
+      -- Ties go to the track that opened a session first.
+      SELECT first_track_id, count(*) AS session_count
+      FROM sessions
+      GROUP BY first_track_id
+      ORDER BY count(*) DESC, min(started_at)
+      LIMIT 1
+    )
+    SELECT
+      (SELECT count(*) FROM sessions)::int AS session_count,
+      (SELECT COALESCE(sum(extract(epoch FROM ended_at - started_at)), 0) FROM sessions)::float8 * 1000
+        AS total_duration_ms,
+      (SELECT COALESCE(max(extract(epoch FROM ended_at - started_at)), 0) FROM sessions)::float8 * 1000
+        AS longest_duration_ms,
+      (SELECT COALESCE(sum(plays), 0) FROM sessions)::int AS total_plays,
+      ft.first_track_id,
+      t.name AS first_track_name,
+      ft.session_count::int AS first_track_sessions
+    FROM (SELECT 1) AS one
+    LEFT JOIN first_track ft ON true
+    LEFT JOIN tracks t ON t.id = ft.first_track_id
+  `;
+
+  const row = rows[0];
+  return toSessionStats({
+    sessionCount: row?.session_count ?? 0,
+    totalDurationMs: row?.total_duration_ms ?? 0,
+    longestDurationMs: row?.longest_duration_ms ?? 0,
+    totalPlays: row?.total_plays ?? 0,
+    mostCommonFirstTrack:
+      row?.first_track_id && row.first_track_sessions !== null
+        ? {
+            id: row.first_track_id,
+            name: row.first_track_name ?? row.first_track_id,
+            sessionCount: row.first_track_sessions,
+          }
+        : null,
+  });
+}
+
+// The sessions that started on `dateKey` in the user's time zone, with the names of every artist
+// they played. Plays up to SESSION_TIMELINE_MARGIN_MS either side of the day are loaded so that
+// sessions crossing midnight are complete.
+export async function getSessionTimeline(
+  userId: string,
+  dateKey: string,
+  timeZone: string,
+): Promise<SessionTimeline> {
+  const dayStart = startOfDateKey(dateKey, timeZone);
+  const dayEnd = startOfDateKey(addDaysToDateKey(dateKey, 1), timeZone);
+
+  const plays = await loadSessionPlays(
+    userId,
+    new Date(dayStart.getTime() - SESSION_TIMELINE_MARGIN_MS),
+    new Date(dayEnd.getTime() + SESSION_TIMELINE_MARGIN_MS),
+  );
+  const sessions = buildListeningSessions(plays).filter(
+    (session) => session.startedAt >= dayStart && session.startedAt < dayEnd,
+  );
+
+  const artistIds = [...new Set(sessions.flatMap((session) => session.plays.flatMap((play) => play.artistIds)))];
+  const artists = artistIds.length
+    ? await prisma.artist.findMany({ where: { id: { in: artistIds } }, select: { id: true, name: true } })
+    : [];
+
+  return {
+    date: dateKey,
+    sessions,
+    artistNames: Object.fromEntries(artists.map((artist) => [artist.id, artist.name])),
+  };
+}
+
+// Listening time per podcast (or audiobook) show. Episode plays are stored separately from
+// track plays, so they do not feed the music aggregates above.
+export async function getTopPodcasts(
+  userId: string,
+  range: TimeRange,
+  options?: {
+    search?: string;
+    sort?: "plays" | "minutes" | "recent";
+    mediaType?: "podcast" | "audiobook";
+  },
+): Promise<TopEntry[]> {
+  const search = options?.search?.toLowerCase().trim();
+
+  // Plays are summed per show first, so only one row per show leaves the database.
+  const rows = await prisma.$queryRaw<RankedEntryRow[]>`
+    WITH grouped AS (
+      SELECT
+        e.show_id,
+        COUNT(*)::int AS play_count,
+        SUM(COALESCE(ep.ms_played, e.duration_ms))::float8 AS listened_ms,
+        MAX(ep.played_at) AS last_listened
+      FROM episode_play_events ep
+      JOIN episodes e ON e.id = ep.episode_id
+      WHERE ep.user_id = ${userId}
+        AND ep.played_at >= ${range.from}
+        AND ep.played_at <= ${range.to}
+      GROUP BY e.show_id
+    )
+    SELECT
+      0 AS rank,
+      s.id,
+      s.name,
+      s.image_url,
+      g.play_count,
+      g.listened_ms,
+      g.last_listened
+    FROM grouped g
+    JOIN shows s ON s.id = g.show_id
+    WHERE s.media_type = ${options?.mediaType ?? "podcast"}
+      ${search ? Prisma.sql`AND strpos(lower(s.name), ${search}) > 0` : Prisma.empty}
+  `;
+
+  return sortEntries(toRankedEntries(rows), options?.sort ?? "minutes");
+}
+
 function classifyPersonality(features: {
   energy: number;
   danceability: number;
@@ -378,14 +1234,175 @@ function classifyPersonality(features: {
   };
 }
 
-export async function getWrappedSummary(userId: string, year: number): Promise<WrappedSummary> {
-  const range: TimeRange = {
-    from: startOfYear(new Date(year, 0, 1)),
-    to: endOfYear(new Date(year, 11, 31)),
-    preset: "custom",
+type CurrentTopArtistRow = {
+  artist_id: string;
+  name: string;
+  first_played_at: Date;
+};
+
+type PlayCountMilestoneRow = {
+  threshold: number;
+  played_at: Date;
+};
+
+type ArtistHoursRow = {
+  artist_id: string;
+  name: string;
+  achieved_at: Date;
+};
+
+// Distinct days (in the user's time zone) with at least one play, optionally of one artist.
+async function loadListeningDays(userId: string, timeZone: string, artistId?: string): Promise<string[]> {
+  const rows = await prisma.$queryRaw<{ day: string }[]>`
+    SELECT DISTINCT to_char(${localDateSql(Prisma.sql`pe.played_at`, timeZone)}, 'YYYY-MM-DD') AS day
+    FROM play_events pe
+    ${artistId ? Prisma.sql`JOIN tracks t ON t.id = pe.track_id AND ${artistId} = ANY(t.artist_ids)` : Prisma.empty}
+    WHERE pe.user_id = ${userId}
+  `;
+
+  return rows.map((row) => row.day);
+}
+
+// The artists played most over the last CURRENT_TOP_ARTIST_DAYS days, with their first play ever.
+async function loadCurrentTopArtists(userId: string): Promise<CurrentTopArtistRow[]> {
+  const since = new Date(Date.now() - CURRENT_TOP_ARTIST_DAYS * 24 * 60 * 60 * 1000);
+
+  return prisma.$queryRaw<CurrentTopArtistRow[]>`
+    WITH recent AS (
+      SELECT artist_id, COUNT(*) AS plays
+      FROM play_events pe
+      JOIN tracks t ON t.id = pe.track_id
+      CROSS JOIN LATERAL unnest(t.artist_ids) AS artist_id
+      WHERE pe.user_id = ${userId} AND pe.played_at >= ${since}
+      GROUP BY artist_id
+      ORDER BY plays DESC, artist_id
+      LIMIT ${CURRENT_TOP_ARTIST_COUNT}
+    )
+    SELECT
+      recent.artist_id,
+      COALESCE(a.name, 'Unknown Artist') AS name,
+      (
+        SELECT MIN(pe.played_at)
+        FROM play_events pe
+        JOIN tracks t ON t.id = pe.track_id
+        WHERE pe.user_id = ${userId} AND recent.artist_id = ANY(t.artist_ids)
+      ) AS first_played_at
+    FROM recent
+    LEFT JOIN artists a ON a.id = recent.artist_id
+    ORDER BY recent.plays DESC, recent.artist_id
+  `;
+}
+
+async function findListeningMilestones(
+  userId: string,
+  currentTopArtists: CurrentTopArtistRow[],
+): Promise<ListeningMilestone[]> {
+  const [playCountPlays, artistHours] = await Promise.all([
+    // The plays that reached each play count, numbered in a single pass.
+    prisma.$queryRaw<PlayCountMilestoneRow[]>`
+      SELECT play_number::int AS threshold, played_at
+      FROM (
+        SELECT played_at, ROW_NUMBER() OVER (ORDER BY played_at, id) AS play_number
+        FROM play_events
+        WHERE user_id = ${userId}
+      ) numbered
+      WHERE play_number = ANY(${PLAY_COUNT_MILESTONES}::int[])
+      ORDER BY play_number
+    `,
+    // Only artists with enough listening in total are walked play by play.
+    prisma.$queryRaw<ArtistHoursRow[]>`
+      WITH artist_plays AS (
+        SELECT artist_id, pe.played_at, COALESCE(pe.ms_played, t.duration_ms) AS listened_ms
+        FROM play_events pe
+        JOIN tracks t ON t.id = pe.track_id
+        CROSS JOIN LATERAL unnest(t.artist_ids) AS artist_id
+        WHERE pe.user_id = ${userId}
+      ), qualifying AS (
+        SELECT artist_id
+        FROM artist_plays
+        GROUP BY artist_id
+        HAVING SUM(listened_ms) >= ${ARTIST_HOURS_MILESTONE * 60 * 60 * 1000}
+      ), running AS (
+        SELECT
+          artist_id,
+          played_at,
+          SUM(listened_ms) OVER (PARTITION BY artist_id ORDER BY played_at ROWS UNBOUNDED PRECEDING) AS total_ms
+        FROM artist_plays
+        WHERE artist_id IN (SELECT artist_id FROM qualifying)
+      )
+      SELECT running.artist_id, COALESCE(MAX(a.name), 'Unknown Artist') AS name, MIN(running.played_at) AS achieved_at
+      FROM running
+      LEFT JOIN artists a ON a.id = running.artist_id
+      WHERE running.total_ms >= ${ARTIST_HOURS_MILESTONE * 60 * 60 * 1000}
+      GROUP BY running.artist_id
+    `,
+  ]);
+
+  const milestones: ListeningMilestone[] = [
+    ...playCountPlays.map((play) => ({
+      kind: "play-count" as const,
+      label: `${play.threshold.toLocaleString("en-US")}th play`,
+      achievedAt: play.played_at.toISOString(),
+      artistId: null,
+    })),
+    ...currentTopArtists.map((artist) => ({
+      kind: "first-artist-play" as const,
+      label: `First play of ${artist.name}`,
+      achievedAt: artist.first_played_at.toISOString(),
+      artistId: artist.artist_id,
+    })),
+    ...artistHours.map((artist) => ({
+      kind: "artist-hours" as const,
+      label: `${ARTIST_HOURS_MILESTONE} hours of ${artist.name}`,
+      achievedAt: artist.achieved_at.toISOString(),
+      artistId: artist.artist_id,
+    })),
+  ];
+
+  return milestones.sort((a, b) => b.achievedAt.localeCompare(a.achievedAt));
+}
+
+// All-time streaks and milestones; streak days are calendar days in the user's time zone.
+export async function getListeningMilestones(userId: string): Promise<ListeningMilestones> {
+  const timeZone = await getUserTimeZone(userId);
+  const today = toDateKey(new Date(), timeZone);
+
+  const [listeningDays, currentTopArtists] = await Promise.all([
+    loadListeningDays(userId, timeZone),
+    loadCurrentTopArtists(userId),
+  ]);
+
+  const topArtist = currentTopArtists[0];
+  const [topArtistDays, milestones] = await Promise.all([
+    topArtist ? loadListeningDays(userId, timeZone, topArtist.artist_id) : [],
+    findListeningMilestones(userId, currentTopArtists),
+  ]);
+
+  return {
+    listeningStreak: computeStreaks(listeningDays, today),
+    topArtistStreak: topArtist
+      ? { ...computeStreaks(topArtistDays, today), artistId: topArtist.artist_id, artistName: topArtist.name }
+      : null,
+    milestones,
   };
+}
 
-  const data = await aggregateForRange(userId, range);
+// Callers that already loaded the all-time milestones pass them in so they are not computed twice.
+export async function getWrappedSummary(
+  userId: string,
+  year: number,
+  allMilestones?: ListeningMilestones["milestones"],
+): Promise<WrappedSummary> {
+  const timeZone = await getUserTimeZone(userId);
+  const range = getYearRange(year, timeZone);
+
+  const [data, listeningDays, milestones] = await Promise.all([
+    aggregateForRange(userId, range),
+    loadListeningDays(userId, timeZone),
+    allMilestones ?? loadCurrentTopArtists(userId).then((artists) => findListeningMilestones(userId, artists)),
+  ]);
+
+  const yearPrefix = `${year}-`;
 
   return {
     year,
@@ -394,6 +1411,13 @@ export async function getWrappedSummary(userId: string, year: number): Promise<W
     topArtist: data.artists[0] ?? null,
     topAlbum: data.albums[0] ?? null,
     topGenres: data.genres.slice(0, 5),
+    longestStreak: computeStreaks(
+      listeningDays.filter((day) => day.startsWith(yearPrefix)),
+      toDateKey(new Date(), timeZone),
+    ).longest,
+    milestones: milestones.filter((milestone) =>
+      toDateKey(new Date(milestone.achievedAt), timeZone).startsWith(yearPrefix),
+    ),
     personality: classifyPersonality(data.featureAverages),
   };
 }
@@ -403,13 +1427,16 @@ export async function getAnalyticsExportPayload(
   range: TimeRange,
   wrappedYear?: number,
 ): Promise<AnalyticsExportPayload> {
-  const [dashboard, topSongs, topArtists, topAlbums, topGenres, wrapped] = await Promise.all([
+  const [dashboard, topSongs, topArtists, topAlbums, topGenres, { wrapped, milestones }] = await Promise.all([
     getDashboardStats(userId, range),
     getTopEntries(userId, range, "songs"),
     getTopEntries(userId, range, "artists"),
     getTopEntries(userId, range, "albums"),
     getTopEntries(userId, range, "genres"),
-    getWrappedSummary(userId, wrappedYear ?? new Date().getFullYear()),
+    getListeningMilestones(userId).then(async (milestones) => ({
+      milestones,
+      wrapped: await getWrappedSummary(userId, wrappedYear ?? new Date().getFullYear(), milestones.milestones),
+    })),
   ]);
 
   return {
@@ -420,5 +1447,6 @@ export async function getAnalyticsExportPayload(
     topAlbums,
     topGenres,
     wrapped,
+    milestones,
   };
 }
@@ -0,0 +1,104 @@
+import type { ListeningSession, SessionPlay, SessionStats } from "@/lib/analytics/types";
+
+export type SessionTotals = {
+  sessionCount: number;
+  totalDurationMs: number;
+  longestDurationMs: number;
+  totalPlays: number;
+  mostCommonFirstTrack: SessionStats["mostCommonFirstTrack"];
+};
+
+// A new session starts when more than this much silence follows the end of the previous play.
+export const SESSION_GAP_MS = 30 * 60 * 1000;
+
+// Groups plays into listening sessions. A play ends `listenedMs` after it started, and the next
+// play continues the session if it starts within `gapMs` of that end. Plays may come in any order.
+export function buildListeningSessions(plays: SessionPlay[], gapMs = SESSION_GAP_MS): ListeningSession[] {
+  const sorted = [...plays].sort((a, b) => a.playedAt.getTime() - b.playedAt.getTime());
+  const sessions: ListeningSession[] = [];
+  let current: ListeningSession | null = null;
+
+  for (const play of sorted) {
+    const playEnd = new Date(play.playedAt.getTime() + play.listenedMs);
+
+    if (current && play.playedAt.getTime() - current.endedAt.getTime() <= gapMs) {
+      current.plays.push(play);
+      current.listenedMs += play.listenedMs;
+      if (playEnd > current.endedAt) {
+        current.endedAt = playEnd;
+      }
+      continue;
+    }
+
+    current = {
+      startedAt: play.playedAt,
+      endedAt: playEnd,
+      listenedMs: play.listenedMs,
+      plays: [play],
+    };
+    sessions.push(current);
+  }
+
+  return sessions;
+}
+
+export function toSessionStats(totals: SessionTotals): SessionStats {
+  if (totals.sessionCount === 0) {
+    return {
+      sessionCount: 0,
+      averageSessionMinutes: 0,
+      longestSessionMinutes: 0,
+      averageTracksPerSession: 0,
+      mostCommonFirstTrack: null,
+    };
+  }
+
+  return {
+    sessionCount: totals.sessionCount,
+    averageSessionMinutes: Number((totals.totalDurationMs / totals.sessionCount / 1000 / 60).toFixed(1)),
+    longestSessionMinutes: Number((totals.longestDurationMs / 1000 / 60).toFixed(1)),
+    averageTracksPerSession: Number((totals.totalPlays / totals.sessionCount).toFixed(1)),
+    mostCommonFirstTrack: totals.mostCommonFirstTrack,
+  };
+}
+
+// In-memory counterpart of getSessionStats, which finds the sessions in Postgres; kept as the
+// reference the SQL follows.
+export function summarizeListeningSessions(sessions: ListeningSession[]): SessionStats {
+  let totalDurationMs = 0;
+  let longestDurationMs = 0;
+  let totalPlays = 0;
+  const firstTrackCounts = new Map<string, { id: string; name: string; sessionCount: number }>();
+
+  for (const session of sessions) {
+    const durationMs = session.endedAt.getTime() - session.startedAt.getTime();
+    totalDurationMs += durationMs;
+    longestDurationMs = Math.max(longestDurationMs, durationMs);
+    totalPlays += session.plays.length;
+
+    const first = session.plays[0];
+    const entry = firstTrackCounts.get(first.trackId) ?? {
+      id: first.trackId,
+      name: first.trackName,
+      sessionCount: 0,
+    };
+    entry.sessionCount += 1;
+    firstTrackCounts.set(first.trackId, entry);
+  }
+
+  // Ties go to the track that opened a session first.
+  let mostCommonFirstTrack: SessionStats["mostCommonFirstTrack"] = null;
+  for (const entry of firstTrackCounts.values()) {
+    if (!mostCommonFirstTrack || entry.sessionCount > mostCommonFirstTrack.sessionCount) {
+      mostCommonFirstTrack = entry;
+    }
+  }
+
+  return toSessionStats({
+    sessionCount: sessions.length,
+    totalDurationMs,
+    longestDurationMs,
+    totalPlays,
+    mostCommonFirstTrack,
+  });
+}
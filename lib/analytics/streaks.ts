@@ -0,0 +1,34 @@
+import type { Streak, StreakSummary } from "@/lib/analytics/types";
+import { addDaysToDateKey } from "@/lib/date-range";
+
+// Total plays at which a milestone is recorded.
+export const PLAY_COUNT_MILESTONES = [100, 1_000, 10_000, 50_000, 100_000];
+
+// Listening hours with a single artist at which a milestone is recorded.
+export const ARTIST_HOURS_MILESTONE = 100;
+
+// Streaks of consecutive calendar days in `dayKeys` (`YYYY-MM-DD`, any order, duplicates allowed).
+// The current streak is the one ending today or yesterday, so it is not broken before the user has
+// listened today. Ties for the longest streak go to the most recent one.
+export function computeStreaks(dayKeys: string[], todayKey: string): StreakSummary {
+  const days = [...new Set(dayKeys)].sort();
+  let longest: Streak | null = null;
+  let run: Streak | null = null;
+
+  for (const day of days) {
+    if (run && addDaysToDateKey(run.endDate, 1) === day) {
+      run = { days: run.days + 1, startDate: run.startDate, endDate: day };
+    } else {
+      run = { days: 1, startDate: day, endDate: day };
+    }
+
+    if (!longest || run.days >= longest.days) {
+      longest = run;
+    }
+  }
+
+  const current =
+    run && (run.endDate === todayKey || run.endDate === addDaysToDateKey(todayKey, -1)) ? run : null;
+
+  return { current, longest };
+}
@@ -2,6 +2,13 @@ import type { TimeRange } from "@/lib/date-range";
 
 export type TopEntityType = "songs" | "artists" | "albums" | "genres";
 
+// `change` is how many places the entry climbed since the previous period (negative when it fell).
+export type RankMovement = {
+  status: "up" | "down" | "same" | "new" | "dropped";
+  previousRank: number | null;
+  change: number;
+};
+
 export type TopEntry = {
   rank: number;
   id: string;
@@ -10,6 +17,28 @@ export type TopEntry = {
   playCount: number;
   totalMinutes: number;
   lastListened: string | null;
+  movement?: RankMovement;
+};
+
+export type MetricDelta = {
+  previous: number;
+  change: number;
+  percentChange: number | null;
+};
+
+export type DashboardComparison = {
+  previousRange: TimeRange;
+  totalListeningHours: MetricDelta;
+  totalUniqueSongs: MetricDelta;
+  totalUniqueArtists: MetricDelta;
+  totalUniqueAlbums: MetricDelta;
+};
+
+export type TopEntriesComparison = {
+  previousRange: TimeRange;
+  entries: TopEntry[];
+  // Entries of the previous period's top list that were not played at all in the current range.
+  dropped: TopEntry[];
 };
 
 export type DashboardStats = {
@@ -26,6 +55,211 @@ export type DashboardStats = {
   topSongsPreview: TopEntry[];
   topArtistsPreview: TopEntry[];
   topAlbumsPreview: TopEntry[];
+  topGenresPreview: TopEntry[];
+  comparison?: DashboardComparison;
+};
+
+export type ListeningClockFilter = {
+  artistId?: string;
+  genre?: string;
+};
+
+// `dayOfWeek` runs from 0 (Monday) to 6 (Sunday); both it and `hour` are in the user's time zone.
+export type ListeningClockCell = {
+  dayOfWeek: number;
+  hour: number;
+  plays: number;
+  minutes: number;
+};
+
+export type ListeningClock = {
+  timeZone: string;
+  filter: ListeningClockFilter & { label: string | null };
+  cells: ListeningClockCell[];
+  maxPlays: number;
+  maxMinutes: number;
+};
+
+export type EntityDetailType = "track" | "album" | "artist" | "genre";
+
+// Genres are identified by name.
+export type EntityRef = {
+  type: EntityDetailType;
+  id: string;
+};
+
+// `hour` is in the user's time zone.
+export type HourOfDayEntry = {
+  hour: number;
+  plays: number;
+  minutes: number;
+};
+
+export type EntityDetail = {
+  entity: EntityRef;
+  name: string;
+  imageUrl: string | null;
+  artists: Array<{ id: string; name: string }>;
+  album: { id: string; name: string } | null;
+  timeZone: string;
+  totalPlays: number;
+  totalMinutes: number;
+  firstListened: string | null;
+  lastListened: string | null;
+  listeningOverTime: DashboardStats["listeningOverTime"];
+  topTracks: TopEntry[];
+  hourOfDay: HourOfDayEntry[];
+  peakHour: number | null;
+};
+
+export type DiscoveryPeriod = "week" | "month";
+
+// First-ever play of a track, artist or genre.
+export type Discovery = {
+  type: "track" | "artist" | "genre";
+  id: string;
+  name: string;
+  firstPlayedAt: string;
+};
+
+// `periodStart` is the first day (`YYYY-MM-DD`, weeks start on Monday) in the user's time zone.
+// `noveltyRatio` is the share of the period's minutes spent on tracks first heard at most
+// `noveltyWindowDays` before the play, or null when nothing was played.
+export type DiscoveryPeriodSummary = {
+  periodStart: string;
+  newTracks: number;
+  newArtists: number;
+  newGenres: number;
+  discoveries: Discovery[];
+  listenedMinutes: number;
+  noveltyRatio: number | null;
+};
+
+export type DiscoveryReport = {
+  period: DiscoveryPeriod;
+  timeZone: string;
+  noveltyWindowDays: number;
+  periods: DiscoveryPeriodSummary[];
+  totals: {
+    newTracks: number;
+    newArtists: number;
+    newGenres: number;
+    noveltyRatio: number | null;
+  };
+};
+
+// Averages of the week starting `weekStart` (Monday, in the user's time zone), weighted by
+// listened time over plays of tracks with audio features.
+export type MoodTimelinePoint = {
+  weekStart: string;
+  energy: number;
+  valence: number;
+  danceability: number;
+  tempo: number;
+  minutes: number;
+};
+
+// Covers feature values from `from` (inclusive) to `to` (exclusive; the last bin includes 1).
+export type MoodHistogramBin = {
+  from: number;
+  to: number;
+  plays: number;
+  minutes: number;
+};
+
+export type MoodQuadrant = "upbeat" | "intense" | "melancholic" | "peaceful";
+
+export type MoodTrack = {
+  id: string;
+  name: string;
+  imageUrl: string | null;
+  energy: number;
+  valence: number;
+  playCount: number;
+  quadrant: MoodQuadrant;
+};
+
+export type MoodReport = {
+  timeZone: string;
+  totalPlays: number;
+  playsWithFeatures: number;
+  timeline: MoodTimelinePoint[];
+  energyHistogram: MoodHistogramBin[];
+  valenceHistogram: MoodHistogramBin[];
+  quadrantTracks: MoodTrack[];
+};
+
+export type SessionPlay = {
+  trackId: string;
+  trackName: string;
+  artistIds: string[];
+  playedAt: Date;
+  listenedMs: number;
+};
+
+export type ListeningSession = {
+  startedAt: Date;
+  endedAt: Date;
+  listenedMs: number;
+  plays: SessionPlay[];
+};
+
+export type SessionStats = {
+  sessionCount: number;
+  averageSessionMinutes: number;
+  longestSessionMinutes: number;
+  averageTracksPerSession: number;
+  mostCommonFirstTrack: { id: string; name: string; sessionCount: number } | null;
+};
+
+export type SessionTimeline = {
+  date: string;
+  sessions: ListeningSession[];
+  artistNames: Record<string, string>;
+};
+
+export type AggregationResult = {
+  totalListeningHours: number;
+  totalUniqueSongs: number;
+  totalUniqueArtists: number;
+  totalUniqueAlbums: number;
+  listeningOverTime: DashboardStats["listeningOverTime"];
+  songs: TopEntry[];
+  artists: TopEntry[];
+  albums: TopEntry[];
+  genres: TopEntry[];
+  featureAverages: {
+    energy: number;
+    danceability: number;
+    valence: number;
+    tempo: number;
+  };
+};
+
+export type Streak = {
+  days: number;
+  startDate: string;
+  endDate: string;
+};
+
+export type StreakSummary = {
+  current: Streak | null;
+  longest: Streak | null;
+};
+
+export type ListeningMilestone = {
+  kind: "play-count" | "first-artist-play" | "artist-hours";
+  label: string;
+  achievedAt: string;
+  artistId: string | null;
+};
+
+export type ListeningMilestones = {
+  listeningStreak: StreakSummary;
+  // Streaks of the artist played most over the last CURRENT_TOP_ARTIST_DAYS days.
+  topArtistStreak: (StreakSummary & { artistId: string; artistName: string }) | null;
+  // Newest first.
+  milestones: ListeningMilestone[];
 };
 
 export type WrappedSummary = {
@@ -35,6 +269,8 @@ export type WrappedSummary = {
   topArtist: TopEntry | null;
   topAlbum: TopEntry | null;
   topGenres: TopEntry[];
+  longestStreak: Streak | null;
+  milestones: ListeningMilestone[];
   personality: {
     label: string;
     description: string;
@@ -55,4 +291,5 @@ export type AnalyticsExportPayload = {
   topAlbums: TopEntry[];
   topGenres: TopEntry[];
   wrapped: WrappedSummary;
+  milestones: ListeningMilestones;
 };
@@ -1,18 +1,8 @@
-import {
-  endOfDay,
-  endOfMonth,
-  endOfToday,
-  endOfWeek,
-  endOfYear,
-  parseISO,
-  startOfDay,
-  startOfMonth,
-  startOfToday,
-  startOfWeek,
-  startOfYear,
-} from "date-fns";
-
 const TIME_PRESETS = ["today", "week", "month", "year", "all"] as const;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_KEY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+export const DEFAULT_TIME_ZONE = "UTC";
 
 export type TimePreset = (typeof TIME_PRESETS)[number];
 
@@ -22,58 +12,170 @@ export type TimeRange = {
   preset?: TimePreset | "custom";
 };
 
-export function getPresetRange(preset: TimePreset): TimeRange {
-  const now = new Date();
+const dateTimeFormats = new Map<string, Intl.DateTimeFormat>();
+
+function getDateTimeFormat(timeZone: string): Intl.DateTimeFormat {
+  let format = dateTimeFormats.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    dateTimeFormats.set(timeZone, format);
+  }
+  return format;
+}
+
+// The wall-clock time in `timeZone` at `date`, expressed as if it were a UTC timestamp.
+function toWallClockMs(date: Date, timeZone: string): number {
+  const parts = Object.fromEntries(
+    getDateTimeFormat(timeZone)
+      .formatToParts(date)
+      .map((part) => [part.type, Number(part.value)]),
+  );
+
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+function parseDateKey(dateKey: string): number {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+function formatDateKey(utcMs: number): string {
+  return new Date(utcMs).toISOString().slice(0, 10);
+}
+
+export function addDaysToDateKey(dateKey: string, days: number): string {
+  return formatDateKey(parseDateKey(dateKey) + days * DAY_MS);
+}
+
+export function isValidTimeZone(value: string): boolean {
+  try {
+    getDateTimeFormat(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Users without a stored (or with an unknown) time zone see UTC days.
+export function resolveTimeZone(value: string | null | undefined): string {
+  return value && isValidTimeZone(value) ? value : DEFAULT_TIME_ZONE;
+}
+
+// The calendar day `date` falls on in `timeZone`, as `YYYY-MM-DD`.
+export function toDateKey(date: Date, timeZone: string = DEFAULT_TIME_ZONE): string {
+  return formatDateKey(toWallClockMs(date, timeZone));
+}
+
+// The instant the calendar day `dateKey` starts in `timeZone`. The offset is checked again at the
+// result, so days that start next to a DST change still land on local midnight.
+export function startOfDateKey(dateKey: string, timeZone: string = DEFAULT_TIME_ZONE): Date {
+  const wallClockMs = parseDateKey(dateKey);
+  const guessMs = wallClockMs - (toWallClockMs(new Date(wallClockMs), timeZone) - wallClockMs);
+  const offsetMs = toWallClockMs(new Date(guessMs), timeZone) - guessMs;
+  return new Date(wallClockMs - offsetMs);
+}
+
+// From the start of `fromKey` to the last millisecond of `toKey`, both in `timeZone`.
+function dateKeyRange(fromKey: string, toKey: string, timeZone: string): Pick<TimeRange, "from" | "to"> {
+  return {
+    from: startOfDateKey(fromKey, timeZone),
+    to: new Date(startOfDateKey(addDaysToDateKey(toKey, 1), timeZone).getTime() - 1),
+  };
+}
+
+export function getYearRange(year: number, timeZone: string = DEFAULT_TIME_ZONE): TimeRange {
+  return { ...dateKeyRange(`${year}-01-01`, `${year}-12-31`, timeZone), preset: "custom" };
+}
+
+export function getPresetRange(preset: TimePreset, timeZone: string = DEFAULT_TIME_ZONE): TimeRange {
+  const today = toDateKey(new Date(), timeZone);
+  const [year, month] = today.split("-").map(Number);
+  const monthStart = `${today.slice(0, 7)}-01`;
+  const monthEnd = addDaysToDateKey(formatDateKey(Date.UTC(year, month, 1)), -1);
 
   switch (preset) {
     case "today":
-      return { from: startOfToday(), to: endOfToday(), preset };
-    case "week":
-      return {
-        from: startOfWeek(now, { weekStartsOn: 1 }),
-        to: endOfWeek(now, { weekStartsOn: 1 }),
-        preset,
-      };
+      return { ...dateKeyRange(today, today, timeZone), preset };
+    case "week": {
+      // Weeks start on Monday.
+      const weekStart = addDaysToDateKey(today, -((new Date(parseDateKey(today)).getUTCDay() + 6) % 7));
+      return { ...dateKeyRange(weekStart, addDaysToDateKey(weekStart, 6), timeZone), preset };
+    }
     case "month":
-      return { from: startOfMonth(now), to: endOfMonth(now), preset };
+      return { ...dateKeyRange(monthStart, monthEnd, timeZone), preset };
     case "year":
-      return { from: startOfYear(now), to: endOfYear(now), preset };
+      return { ...getYearRange(year, timeZone), preset };
     case "all":
-      return { from: new Date(0), to: endOfToday(), preset };
+      return { ...dateKeyRange("1970-01-01", today, timeZone), preset };
     default:
-      return { from: startOfMonth(now), to: endOfMonth(now), preset: "month" };
+      return { ...dateKeyRange(monthStart, monthEnd, timeZone), preset: "month" };
   }
 }
 
 export function parseTimeRangeFromSearchParams(
   input: Record<string, string | string[] | undefined>,
+  timeZone: string = DEFAULT_TIME_ZONE,
 ): TimeRange {
   const preset = firstValue(input.preset);
   const from = firstValue(input.from);
   const to = firstValue(input.to);
 
   if (preset && isTimePreset(preset)) {
-    return getPresetRange(preset);
+    return getPresetRange(preset, timeZone);
   }
 
-  if (from && to) {
-    const parsedFrom = parseISO(from);
-    const parsedTo = parseISO(to);
-
-    if (!Number.isNaN(parsedFrom.getTime()) && !Number.isNaN(parsedTo.getTime())) {
-      return {
-        from: startOfDay(parsedFrom),
-        to: endOfDay(parsedTo),
-        preset: "custom",
-      };
-    }
+  if (from && to && DATE_KEY_REGEX.test(from) && DATE_KEY_REGEX.test(to)) {
+    // Normalizes out-of-range parts such as 2024-02-30 the way Date.UTC does.
+    return {
+      ...dateKeyRange(formatDateKey(parseDateKey(from)), formatDateKey(parseDateKey(to)), timeZone),
+      preset: "custom",
+    };
+  }
+
+  return getPresetRange("month", timeZone);
+}
+
+// True when the range starts at a midnight and ends on the last millisecond of a day in `timeZone`.
+export function isWholeDayRange(range: TimeRange, timeZone: string = DEFAULT_TIME_ZONE): boolean {
+  const end = new Date(range.to.getTime() + 1);
+  return (
+    startOfDateKey(toDateKey(range.from, timeZone), timeZone).getTime() === range.from.getTime() &&
+    startOfDateKey(toDateKey(end, timeZone), timeZone).getTime() === end.getTime()
+  );
+}
+
+// The period of equal length that ends right before `range`. Whole-day ranges move back by their
+// number of calendar days in `timeZone`, so the previous period is whole days too; other ranges
+// move back by their duration.
+export function getPreviousRange(range: TimeRange, timeZone: string = DEFAULT_TIME_ZONE): TimeRange {
+  if (isWholeDayRange(range, timeZone)) {
+    const fromKey = toDateKey(range.from, timeZone);
+    const dayCount = (parseDateKey(toDateKey(range.to, timeZone)) - parseDateKey(fromKey)) / DAY_MS + 1;
+    return {
+      ...dateKeyRange(addDaysToDateKey(fromKey, -dayCount), addDaysToDateKey(fromKey, -1), timeZone),
+      preset: "custom",
+    };
   }
 
-  return getPresetRange("month");
+  const durationMs = range.to.getTime() - range.from.getTime() + 1;
+  return {
+    from: new Date(range.from.getTime() - durationMs),
+    to: new Date(range.from.getTime() - 1),
+    preset: "custom",
+  };
 }
 
-export function formatDateInput(value: Date): string {
-  return value.toISOString().slice(0, 10);
+export function formatDateInput(value: Date, timeZone: string = DEFAULT_TIME_ZONE): string {
+  return toDateKey(value, timeZone);
 }
 
 function firstValue(value: string | string[] | undefined): string | undefined {
@@ -87,3 +189,28 @@ function firstValue(value: string | string[] | undefined): string | undefined {
 function isTimePreset(value: string): value is TimePreset {
   return TIME_PRESETS.some((preset) => preset === value);
 }
+
+// Query string (with a leading "?", or empty) that carries the selected range to another page.
+export function buildRangeQuery(params: Record<string, string | string[] | undefined>): string {
+  const query = new URLSearchParams();
+
+  const preset = typeof params.preset === "string" ? params.preset : undefined;
+  const from = typeof params.from === "string" ? params.from : undefined;
+  const to = typeof params.to === "string" ? params.to : undefined;
+
+  if (preset) {
+    query.set("preset", preset);
+  }
+
+  if (from && to) {
+    query.set("from", from);
+    query.set("to", to);
+  }
+
+  if (params.compare === "1") {
+    query.set("compare", "1");
+  }
+
+  const output = query.toString();
+  return output ? `?${output}` : "";
+}
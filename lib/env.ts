@@ -1,3 +1,6 @@
+import { tmpdir } from "os";
+import { join } from "path";
+
 import { z } from "zod";
 
 const envSchema = z.object({
@@ -11,6 +14,9 @@ const envSchema = z.object({
   SPOTIFY_SCOPES: z
     .string()
     .default("user-read-recently-played user-top-read user-read-email"),
+  IMPORT_SYNC_INTERVAL_MINUTES: z.coerce.number().int().min(5).default(30),
+  IMPORT_WORKER_POLL_MS: z.coerce.number().int().min(250).default(5000),
+  IMPORT_STAGING_DIR: z.string().min(1).default(join(tmpdir(), "spotify-tracker-imports")),
 });
 
 export type AppEnv = z.infer<typeof envSchema>;
@@ -31,6 +37,9 @@ export function getEnv(): AppEnv {
     SPOTIFY_CLIENT_SECRET: process.env.SPOTIFY_CLIENT_SECRET,
     SPOTIFY_REDIRECT_URI: process.env.SPOTIFY_REDIRECT_URI,
     SPOTIFY_SCOPES: process.env.SPOTIFY_SCOPES,
+    IMPORT_SYNC_INTERVAL_MINUTES: process.env.IMPORT_SYNC_INTERVAL_MINUTES,
+    IMPORT_WORKER_POLL_MS: process.env.IMPORT_WORKER_POLL_MS,
+    IMPORT_STAGING_DIR: process.env.IMPORT_STAGING_DIR,
   });
 
   return cachedEnv;
@@ -0,0 +1,92 @@
+import { basename } from "path";
+import { openPromise, type ZipFile } from "yauzl";
+
+export type ArchiveEntryPlan = {
+  entryName: string;
+  sizeBytes: number;
+  // `null` for entries that are imported, otherwise why the entry was left out.
+  skipReason: string | null;
+};
+
+export class ImportArchiveError extends Error {}
+
+const AUDIO_HISTORY_PATTERN = /^Streaming_History_Audio_.*\.json$/i;
+const VIDEO_HISTORY_PATTERN = /^Streaming_History_Video_.*\.json$/i;
+const PODCAST_HISTORY_PATTERN = /podcast|episode/i;
+
+export function isZipUpload(fileName: string, contentType: string | null): boolean {
+  return fileName.toLowerCase().endsWith(".zip") || Boolean(contentType?.includes("zip"));
+}
+
+// Spotify's extended streaming history ZIP holds one `Streaming_History_Audio_*.json` file per
+// period next to video history and a PDF readme. Only the audio files use the extended history
+// (full-privacy) schema; everything else is reported as skipped.
+export function classifyArchiveEntry(entryName: string): string | null {
+  const name = basename(entryName);
+
+  if (AUDIO_HISTORY_PATTERN.test(name)) {
+    return null;
+  }
+
+  if (VIDEO_HISTORY_PATTERN.test(name)) {
+    return "Video history is not imported";
+  }
+
+  if (PODCAST_HISTORY_PATTERN.test(name)) {
+    return "Podcast history is not imported";
+  }
+
+  return "Not a Spotify audio streaming history file";
+}
+
+function openArchive(storagePath: string): Promise<ZipFile> {
+  return openPromise(storagePath, { lazyEntries: true, autoClose: false });
+}
+
+export async function listArchiveEntries(storagePath: string): Promise<ArchiveEntryPlan[]> {
+  const zipFile = await openArchive(storagePath);
+  const entries: ArchiveEntryPlan[] = [];
+
+  try {
+    for await (const entry of zipFile.eachEntry()) {
+      if (entry.fileName.endsWith("/") || basename(entry.fileName).startsWith(".")) {
+        continue;
+      }
+
+      entries.push({
+        entryName: entry.fileName,
+        sizeBytes: entry.uncompressedSize,
+        skipReason: classifyArchiveEntry(entry.fileName),
+      });
+    }
+  } finally {
+    zipFile.close();
+  }
+
+  return entries;
+}
+
+export async function* readArchiveEntry(
+  storagePath: string,
+  entryName: string,
+): AsyncGenerator<Uint8Array> {
+  const zipFile = await openArchive(storagePath);
+
+  try {
+    for await (const entry of zipFile.eachEntry()) {
+      if (entry.fileName !== entryName) {
+        continue;
+      }
+
+      const stream = await zipFile.openReadStreamPromise(entry);
+      for await (const chunk of stream) {
+        yield chunk as Uint8Array;
+      }
+      return;
+    }
+
+    throw new ImportArchiveError(`Archive entry ${entryName} not found`);
+  } finally {
+    zipFile.close();
+  }
+}
@@ -0,0 +1,1422 @@
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+
+import { getUserTimeZone, refreshListeningRollups, toRollupDay } from "@/lib/analytics/rollups";
+import { type JsonStreamRecord, streamJsonRecords } from "@/lib/import/json-stream";
+import { createSpillFile } from "@/lib/import/staging";
+import { prisma } from "@/lib/prisma";
+import { refreshRecommendationOutcomes } from "@/lib/recommendations/outcomes";
+import { SpotifyApiError, spotifyRequest } from "@/lib/spotify/client";
+import { fetchPodcastCatalog, type PodcastCatalog } from "@/lib/spotify/podcasts";
+import type { SpotifySearchTracksResponse, SpotifyTrack } from "@/lib/spotify/types";
+
+const MIN_MS_PLAYED = 30 * 1000;
+const SPOTIFY_TRACK_ID_REGEX = /^[A-Za-z0-9]{22}$/;
+const LOOKUP_BATCH_SIZE = 500;
+const CREATE_BATCH_SIZE = 500;
+const UNRESOLVED_SAMPLE_SIZE = 20;
+export const PLAY_BATCH_SIZE = 2_000;
+// A batch writes thousands of rows in one transaction, well past Prisma's 5s default on a busy database.
+const WRITE_BATCH_TIMEOUT_MS = 2 * 60 * 1000;
+const WRITE_BATCH_MAX_WAIT_MS = 30 * 1000;
+
+const restoreAlbumSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  releaseDate: z.string().nullable().optional(),
+  imageUrl: z.string().nullable().optional(),
+});
+
+const restoreArtistSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  imageUrl: z.string().nullable().optional(),
+  genres: z.array(z.string()).default([]),
+});
+
+const restoreTrackSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  durationMs: z.number(),
+  albumId: z.string().nullable().optional(),
+  artistIds: z.array(z.string()).default([]),
+  popularity: z.number().nullable().optional(),
+  explicit: z.boolean().nullable().optional(),
+  previewUrl: z.string().nullable().optional(),
+  imageUrl: z.string().nullable().optional(),
+  danceability: z.number().nullable().optional(),
+  energy: z.number().nullable().optional(),
+  valence: z.number().nullable().optional(),
+  tempo: z.number().nullable().optional(),
+});
+
+const restorePlaySchema = z.object({
+  trackId: z.string(),
+  playedAt: z.string(),
+  msPlayed: z.number().nullable().optional(),
+  reasonStart: z.string().nullable().optional(),
+  reasonEnd: z.string().nullable().optional(),
+  skipped: z.boolean().nullable().optional(),
+  shuffle: z.boolean().nullable().optional(),
+});
+
+const restoreShowSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  publisher: z.string().nullable().optional(),
+  mediaType: z.enum(["podcast", "audiobook"]).default("podcast"),
+  imageUrl: z.string().nullable().optional(),
+});
+
+const restoreEpisodeSchema = z.object({
+  id: z.string(),
+  showId: z.string(),
+  name: z.string(),
+  durationMs: z.number(),
+  releaseDate: z.string().nullable().optional(),
+  imageUrl: z.string().nullable().optional(),
+});
+
+const restoreEpisodePlaySchema = restorePlaySchema.omit({ trackId: true }).extend({
+  episodeId: z.string(),
+});
+
+const yourSpotifyPrivacyItemSchema = z.object({
+  endTime: z.string(),
+  artistName: z.string(),
+  trackName: z.string(),
+  msPlayed: z.number(),
+});
+
+const yourSpotifyFullPrivacyItemSchema = z.object({
+  ts: z.string(),
+  ms_played: z.number(),
+  spotify_track_uri: z.string().nullable(),
+  spotify_episode_uri: z.string().nullable().optional(),
+  audiobook_chapter_uri: z.string().nullable().optional(),
+  master_metadata_track_name: z.string().nullable(),
+  master_metadata_album_artist_name: z.string().nullable(),
+  reason_start: z.string().nullable().optional(),
+  reason_end: z.string().nullable().optional(),
+  skipped: z.boolean().nullable().optional(),
+  shuffle: z.boolean().nullable().optional(),
+});
+
+type RestoreAlbum = z.infer<typeof restoreAlbumSchema>;
+type RestoreArtist = z.infer<typeof restoreArtistSchema>;
+type RestoreTrack = z.infer<typeof restoreTrackSchema>;
+type RestorePlay = z.infer<typeof restorePlaySchema>;
+type RestoreShow = z.infer<typeof restoreShowSchema>;
+type RestoreEpisode = z.infer<typeof restoreEpisodeSchema>;
+type RestoreEpisodePlay = z.infer<typeof restoreEpisodePlaySchema>;
+type YourSpotifyPrivacyItem = z.infer<typeof yourSpotifyPrivacyItemSchema>;
+type YourSpotifyFullPrivacyItem = z.infer<typeof yourSpotifyFullPrivacyItemSchema>;
+type PlayDetails = Omit<RestorePlay, "trackId" | "playedAt">;
+
+type SpotifyTracksResponse = {
+  tracks: Array<SpotifyTrack | null>;
+};
+
+type NormalizedTrackRow = {
+  id: string;
+  name: string;
+  durationMs: number;
+  albumId: string | null;
+  artistIds: string[];
+  popularity: number | null;
+  explicit: boolean | null;
+  previewUrl: string | null;
+  imageUrl: string | null;
+  danceability: number | null;
+  energy: number | null;
+  valence: number | null;
+  tempo: number | null;
+};
+
+type CatalogBatch = {
+  albums: RestoreAlbum[];
+  artists: RestoreArtist[];
+  tracks: NormalizedTrackRow[];
+};
+
+type ImportBatch = Partial<CatalogBatch> &
+  Partial<PodcastCatalog> & {
+    plays?: Prisma.PlayEventCreateManyInput[];
+    episodePlays?: Prisma.EpisodePlayEventCreateManyInput[];
+  };
+
+type BatchWriter = (batch: ImportBatch) => Promise<void>;
+
+type RecordProcessor = {
+  add: (record: JsonStreamRecord) => Promise<void>;
+  finish: () => Promise<void>;
+  close?: () => Promise<void>;
+};
+
+export type JsonImportFormat = "restore" | "your_spotify_privacy" | "your_spotify_full_privacy";
+
+export type UnresolvedPlaySample = {
+  description: string;
+  playedAt: string;
+};
+
+// In a dry run the `imported*` counts are what the import would add; nothing is written.
+export type JsonImportSummary = {
+  format: JsonImportFormat | null;
+  recordsParsed: number;
+  tracksResolved: number;
+  rejectedRows: number;
+  // Includes `unresolvedPlays`, short plays and repeats of the same play within the file.
+  skippedPlays: number;
+  unresolvedPlays: number;
+  duplicatePlays: number;
+  importedPlays: number;
+  importedTracks: number;
+  importedAlbums: number;
+  importedArtists: number;
+  firstPlayedAt: string | null;
+  lastPlayedAt: string | null;
+  unresolvedSample: UnresolvedPlaySample[];
+};
+
+export class UnsupportedImportFormatError extends Error {}
+
+function createEmptyImportSummary(): JsonImportSummary {
+  return {
+    format: null,
+    recordsParsed: 0,
+    tracksResolved: 0,
+    rejectedRows: 0,
+    skippedPlays: 0,
+    unresolvedPlays: 0,
+    duplicatePlays: 0,
+    importedPlays: 0,
+    importedTracks: 0,
+    importedAlbums: 0,
+    importedArtists: 0,
+    firstPlayedAt: null,
+    lastPlayedAt: null,
+    unresolvedSample: [],
+  };
+}
+
+function minIsoDate(left: string | null, right: string | null): string | null {
+  return left === null || (right !== null && right < left) ? right : left;
+}
+
+function maxIsoDate(left: string | null, right: string | null): string | null {
+  return left === null || (right !== null && right > left) ? right : left;
+}
+
+// Combines the summaries of the files in one import run.
+export function mergeImportSummaries(summaries: JsonImportSummary[]): JsonImportSummary {
+  const merged = createEmptyImportSummary();
+  const formats = new Set(summaries.map((summary) => summary.format));
+  merged.format = formats.size === 1 ? (summaries[0]?.format ?? null) : null;
+
+  for (const summary of summaries) {
+    merged.recordsParsed += summary.recordsParsed;
+    merged.tracksResolved += summary.tracksResolved;
+    merged.rejectedRows += summary.rejectedRows;
+    merged.skippedPlays += summary.skippedPlays;
+    merged.unresolvedPlays += summary.unresolvedPlays;
+    merged.duplicatePlays += summary.duplicatePlays;
+    merged.importedPlays += summary.importedPlays;
+    merged.importedTracks += summary.importedTracks;
+    merged.importedAlbums += summary.importedAlbums;
+    merged.importedArtists += summary.importedArtists;
+    merged.firstPlayedAt = minIsoDate(merged.firstPlayedAt, summary.firstPlayedAt);
+    merged.lastPlayedAt = maxIsoDate(merged.lastPlayedAt, summary.lastPlayedAt);
+    merged.unresolvedSample.push(
+      ...summary.unresolvedSample.slice(0, UNRESOLVED_SAMPLE_SIZE - merged.unresolvedSample.length),
+    );
+  }
+
+  return merged;
+}
+
+function recordUnresolvedPlay(summary: JsonImportSummary, description: string, playedAt: Date): void {
+  summary.skippedPlays += 1;
+  summary.unresolvedPlays += 1;
+  if (summary.unresolvedSample.length < UNRESOLVED_SAMPLE_SIZE) {
+    summary.unresolvedSample.push({ description, playedAt: playedAt.toISOString() });
+  }
+}
+
+function chunkArray<T>(items: T[], size: number): T[][] {
+  if (size <= 0) {
+    return [items];
+  }
+
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+}
+
+function dedupeById<T extends { id: string }>(items: T[]): T[] {
+  const map = new Map<string, T>();
+  for (const item of items) {
+    map.set(item.id, item);
+  }
+  return [...map.values()];
+}
+
+async function fetchExistingIds(
+  ids: string[],
+  finder: (chunk: string[]) => Promise<Array<{ id: string }>>,
+): Promise<Set<string>> {
+  const existing = new Set<string>();
+  if (ids.length === 0) {
+    return existing;
+  }
+
+  const uniqueIds = [...new Set(ids)];
+  for (const chunk of chunkArray(uniqueIds, LOOKUP_BATCH_SIZE)) {
+    const rows = await finder(chunk);
+    for (const row of rows) {
+      existing.add(row.id);
+    }
+  }
+
+  return existing;
+}
+
+function findExistingTrackIds(ids: string[]): Promise<Set<string>> {
+  return fetchExistingIds(ids, (chunk) =>
+    prisma.track.findMany({ where: { id: { in: chunk } }, select: { id: true } }),
+  );
+}
+
+function findExistingAlbumIds(ids: string[]): Promise<Set<string>> {
+  return fetchExistingIds(ids, (chunk) =>
+    prisma.album.findMany({ where: { id: { in: chunk } }, select: { id: true } }),
+  );
+}
+
+function findExistingArtistIds(ids: string[]): Promise<Set<string>> {
+  return fetchExistingIds(ids, (chunk) =>
+    prisma.artist.findMany({ where: { id: { in: chunk } }, select: { id: true } }),
+  );
+}
+
+function findExistingShowIds(ids: string[]): Promise<Set<string>> {
+  return fetchExistingIds(ids, (chunk) =>
+    prisma.show.findMany({ where: { id: { in: chunk } }, select: { id: true } }),
+  );
+}
+
+function findExistingEpisodeIds(ids: string[]): Promise<Set<string>> {
+  return fetchExistingIds(ids, (chunk) =>
+    prisma.episode.findMany({ where: { id: { in: chunk } }, select: { id: true } }),
+  );
+}
+
+function normalizeIsoDate(input: string): string | null {
+  const date = new Date(input);
+  if (Number.isNaN(date.getTime())) {
+    return null;
+  }
+
+  return date.toISOString();
+}
+
+function normalizePrivacyEndTime(input: string): string | null {
+  const withTimeSeparator = input.includes("T") ? input : input.replace(" ", "T");
+  const withZone = withTimeSeparator.endsWith("Z") ? withTimeSeparator : `${withTimeSeparator}Z`;
+  return normalizeIsoDate(withZone);
+}
+
+function extractIdFromSpotifyUri(
+  uri: string | null | undefined,
+  type: "track" | "episode" | "chapter",
+): string | null {
+  if (!uri) {
+    return null;
+  }
+
+  const parts = uri.split(":");
+  if (parts.length !== 3 || parts[1] !== type) {
+    return null;
+  }
+
+  const id = parts[2];
+  if (!id || !SPOTIFY_TRACK_ID_REGEX.test(id)) {
+    return null;
+  }
+
+  return id;
+}
+
+function buildCatalogFromSpotifyTracks(tracks: SpotifyTrack[]): CatalogBatch {
+  const albumMap = new Map<string, RestoreAlbum>();
+  const artistMap = new Map<string, RestoreArtist>();
+  const trackRows: NormalizedTrackRow[] = [];
+
+  for (const track of dedupeById(tracks)) {
+    if (!albumMap.has(track.album.id)) {
+      albumMap.set(track.album.id, {
+        id: track.album.id,
+        name: track.album.name,
+        releaseDate: track.album.release_date ?? null,
+        imageUrl: track.album.images?.[0]?.url ?? null,
+      });
+    }
+
+    for (const artist of track.artists) {
+      if (!artistMap.has(artist.id)) {
+        artistMap.set(artist.id, {
+          id: artist.id,
+          name: artist.name,
+          imageUrl: artist.images?.[0]?.url ?? null,
+          genres: artist.genres ?? [],
+        });
+      }
+    }
+
+    trackRows.push({
+      id: track.id,
+      name: track.name,
+      durationMs: track.duration_ms,
+      albumId: track.album.id,
+      artistIds: track.artists.map((artist) => artist.id),
+      popularity: track.popularity ?? null,
+      explicit: track.explicit ?? null,
+      previewUrl: track.preview_url ?? null,
+      imageUrl: track.album.images?.[0]?.url ?? null,
+      danceability: null,
+      energy: null,
+      valence: null,
+      tempo: null,
+    });
+  }
+
+  return {
+    albums: [...albumMap.values()],
+    artists: [...artistMap.values()],
+    tracks: trackRows,
+  };
+}
+
+function toPlayRow(userId: string, playedAt: Date, details: PlayDetails) {
+  return {
+    userId,
+    playedAt,
+    msPlayed: typeof details.msPlayed === "number" ? Math.max(0, Math.round(details.msPlayed)) : null,
+    reasonStart: details.reasonStart ?? null,
+    reasonEnd: details.reasonEnd ?? null,
+    skipped: details.skipped ?? null,
+    shuffle: details.shuffle ?? null,
+    importSource: "json_restore",
+  };
+}
+
+function playKey(itemId: string, playedAt: Date | string): string {
+  return `${itemId}:${new Date(playedAt).toISOString()}`;
+}
+
+function dedupePlayRows<T extends { playedAt: Date | string }>(rows: T[], itemId: (row: T) => string): T[] {
+  const map = new Map<string, T>();
+  for (const row of rows) {
+    map.set(playKey(itemId(row), row.playedAt), row);
+  }
+  return [...map.values()];
+}
+
+// Counts rows that already have a play event with the same item and timestamp.
+async function countExistingPlays<T extends { playedAt: Date | string }>(
+  rows: T[],
+  itemId: (row: T) => string,
+  finder: (itemIds: string[], playedAt: Date[]) => Promise<Array<{ itemId: string; playedAt: Date }>>,
+): Promise<number> {
+  let count = 0;
+
+  for (const chunk of chunkArray(rows, LOOKUP_BATCH_SIZE)) {
+    const existing = await finder(
+      [...new Set(chunk.map(itemId))],
+      chunk.map((row) => new Date(row.playedAt)),
+    );
+    const keys = new Set(existing.map((row) => playKey(row.itemId, row.playedAt)));
+    count += chunk.filter((row) => keys.has(playKey(itemId(row), row.playedAt))).length;
+  }
+
+  return count;
+}
+
+async function fetchTracksByIds(userId: string, trackIds: string[]): Promise<Map<string, SpotifyTrack>> {
+  const validIds = [...new Set(trackIds)].filter((id) => SPOTIFY_TRACK_ID_REGEX.test(id));
+  const trackMap = new Map<string, SpotifyTrack>();
+
+  for (let i = 0; i < validIds.length; i += 50) {
+    const chunkIds = validIds.slice(i, i + 50);
+    if (chunkIds.length === 0) {
+      continue;
+    }
+
+    try {
+      const payload = await spotifyRequest<SpotifyTracksResponse>(
+        userId,
+        `/tracks?ids=${chunkIds.join(",")}`,
+        undefined,
+        { maxRetries: 5 },
+      );
+
+      for (const track of payload.tracks) {
+        if (track) {
+          trackMap.set(track.id, track);
+        }
+      }
+    } catch (error) {
+      // Fallback to per-track lookups to avoid failing full imports.
+      for (const trackId of chunkIds) {
+        try {
+          const singlePayload = await spotifyRequest<SpotifyTracksResponse>(
+            userId,
+            `/tracks?ids=${trackId}`,
+            undefined,
+            { maxRetries: 2 },
+          );
+          const track = singlePayload.tracks[0];
+          if (track) {
+            trackMap.set(track.id, track);
+          }
+        } catch (singleError) {
+          if (singleError instanceof SpotifyApiError) {
+            console.warn(
+              `[JSON import] Skipping unresolved track id ${trackId} (status ${singleError.status})`,
+            );
+          }
+        }
+      }
+
+      if (error instanceof SpotifyApiError) {
+        console.warn(
+          `[JSON import] Track batch lookup failed with status ${error.status}; fallback applied`,
+        );
+      }
+    }
+  }
+
+  return trackMap;
+}
+
+async function searchTrack(
+  userId: string,
+  trackName: string,
+  artistName: string,
+): Promise<SpotifyTrack | null> {
+  try {
+    const query = new URLSearchParams({
+      q: `track:${trackName} artist:${artistName}`,
+      type: "track",
+      limit: "1",
+    });
+
+    const payload = await spotifyRequest<SpotifySearchTracksResponse>(
+      userId,
+      `/search?${query.toString()}`,
+      undefined,
+      { maxRetries: 5 },
+    );
+
+    return payload.tracks.items[0] ?? null;
+  } catch (error) {
+    if (error instanceof SpotifyApiError) {
+      console.warn(
+        `[JSON import] Search failed for ${trackName} - ${artistName} (status ${error.status})`,
+      );
+    }
+    return null;
+  }
+}
+
+type NormalizedImportBatch = {
+  albums: RestoreAlbum[];
+  artists: RestoreArtist[];
+  tracks: NormalizedTrackRow[];
+  trackArtists: Prisma.TrackArtistCreateManyInput[];
+  shows: Prisma.ShowCreateManyInput[];
+  episodes: Prisma.EpisodeCreateManyInput[];
+  plays: Prisma.PlayEventCreateManyInput[];
+  episodePlays: Prisma.EpisodePlayEventCreateManyInput[];
+};
+
+// Drops rows repeated within the batch and widens the summary's date span to the plays that remain.
+// Returns null when there is nothing to write.
+function normalizeImportBatch(batch: ImportBatch, summary: JsonImportSummary): NormalizedImportBatch | null {
+  const albums = dedupeById(batch.albums ?? []);
+  const artists = dedupeById(batch.artists ?? []);
+  const tracks = dedupeById(batch.tracks ?? []);
+  const shows = dedupeById(batch.shows ?? []);
+  const episodes = dedupeById(batch.episodes ?? []);
+  const playRows = batch.plays ?? [];
+  const episodePlayRows = batch.episodePlays ?? [];
+  const plays = dedupePlayRows(playRows, (row) => row.trackId);
+  const episodePlays = dedupePlayRows(episodePlayRows, (row) => row.episodeId);
+
+  const trackArtistMap = new Map<string, Prisma.TrackArtistCreateManyInput>();
+  for (const track of tracks) {
+    for (const artistId of track.artistIds) {
+      trackArtistMap.set(`${track.id}:${artistId}`, { trackId: track.id, artistId });
+    }
+  }
+
+  summary.skippedPlays += playRows.length - plays.length + episodePlayRows.length - episodePlays.length;
+
+  for (const row of [...plays, ...episodePlays]) {
+    const playedAt = new Date(row.playedAt).toISOString();
+    summary.firstPlayedAt = minIsoDate(summary.firstPlayedAt, playedAt);
+    summary.lastPlayedAt = maxIsoDate(summary.lastPlayedAt, playedAt);
+  }
+
+  const rowCount =
+    albums.length + artists.length + tracks.length + shows.length + episodes.length + plays.length + episodePlays.length;
+  if (rowCount === 0) {
+    return null;
+  }
+
+  return {
+    albums,
+    artists,
+    tracks,
+    trackArtists: [...trackArtistMap.values()],
+    shows,
+    episodes,
+    plays,
+    episodePlays,
+  };
+}
+
+async function writeImportBatch(
+  batch: ImportBatch,
+  summary: JsonImportSummary,
+  importRunId: string | null,
+): Promise<void> {
+  const normalized = normalizeImportBatch(batch, summary);
+  if (!normalized) {
+    return;
+  }
+
+  const { albums, artists, tracks, trackArtists, shows, episodes, plays, episodePlays } = normalized;
+
+  await prisma.$transaction(
+    async (transaction) => {
+      for (const chunk of chunkArray(albums, CREATE_BATCH_SIZE)) {
+        const result = await transaction.album.createMany({
+          data: chunk.map((album) => ({
+            id: album.id,
+            name: album.name,
+            releaseDate: album.releaseDate ?? null,
+            imageUrl: album.imageUrl ?? null,
+          })),
+          skipDuplicates: true,
+        });
+        summary.importedAlbums += result.count;
+      }
+
+      for (const chunk of chunkArray(artists, CREATE_BATCH_SIZE)) {
+        const result = await transaction.artist.createMany({
+          data: chunk.map((artist) => ({
+            id: artist.id,
+            name: artist.name,
+            imageUrl: artist.imageUrl ?? null,
+            genres: artist.genres,
+          })),
+          skipDuplicates: true,
+        });
+        summary.importedArtists += result.count;
+      }
+
+      for (const chunk of chunkArray(tracks, CREATE_BATCH_SIZE)) {
+        const result = await transaction.track.createMany({
+          data: chunk,
+          skipDuplicates: true,
+        });
+        summary.importedTracks += result.count;
+      }
+
+      for (const chunk of chunkArray(trackArtists, CREATE_BATCH_SIZE)) {
+        await transaction.trackArtist.createMany({
+          data: chunk,
+          skipDuplicates: true,
+        });
+      }
+
+      for (const chunk of chunkArray(plays, PLAY_BATCH_SIZE)) {
+        const result = await transaction.playEvent.createMany({
+          data: chunk.map((row) => ({ ...row, importRunId })),
+          skipDuplicates: true,
+        });
+        summary.importedPlays += result.count;
+        summary.duplicatePlays += chunk.length - result.count;
+      }
+
+      for (const chunk of chunkArray(shows, CREATE_BATCH_SIZE)) {
+        await transaction.show.createMany({ data: chunk, skipDuplicates: true });
+      }
+
+      for (const chunk of chunkArray(episodes, CREATE_BATCH_SIZE)) {
+        await transaction.episode.createMany({ data: chunk, skipDuplicates: true });
+      }
+
+      for (const chunk of chunkArray(episodePlays, PLAY_BATCH_SIZE)) {
+        const result = await transaction.episodePlayEvent.createMany({
+          data: chunk.map((row) => ({ ...row, importRunId })),
+          skipDuplicates: true,
+        });
+        summary.importedPlays += result.count;
+        summary.duplicatePlays += chunk.length - result.count;
+      }
+    },
+    { timeout: WRITE_BATCH_TIMEOUT_MS, maxWait: WRITE_BATCH_MAX_WAIT_MS },
+  );
+}
+
+// Dry-run counterpart of writeImportBatch: counts what would be inserted without writing anything.
+async function previewImportBatch(
+  userId: string,
+  batch: ImportBatch,
+  summary: JsonImportSummary,
+): Promise<void> {
+  const normalized = normalizeImportBatch(batch, summary);
+  if (!normalized) {
+    return;
+  }
+
+  const { albums, artists, tracks, plays, episodePlays } = normalized;
+
+  summary.importedAlbums += albums.length - (await findExistingAlbumIds(albums.map((album) => album.id))).size;
+  summary.importedArtists +=
+    artists.length - (await findExistingArtistIds(artists.map((artist) => artist.id))).size;
+  summary.importedTracks += tracks.length - (await findExistingTrackIds(tracks.map((track) => track.id))).size;
+
+  const existingPlays = await countExistingPlays(
+    plays,
+    (row) => row.trackId,
+    async (trackIds, playedAt) => {
+      const rows = await prisma.playEvent.findMany({
+        where: { userId, trackId: { in: trackIds }, playedAt: { in: playedAt } },
+        select: { trackId: true, playedAt: true },
+      });
+      return rows.map((row) => ({ itemId: row.trackId, playedAt: row.playedAt }));
+    },
+  );
+  const existingEpisodePlays = await countExistingPlays(
+    episodePlays,
+    (row) => row.episodeId,
+    async (episodeIds, playedAt) => {
+      const rows = await prisma.episodePlayEvent.findMany({
+        where: { userId, episodeId: { in: episodeIds }, playedAt: { in: playedAt } },
+        select: { episodeId: true, playedAt: true },
+      });
+      return rows.map((row) => ({ itemId: row.episodeId, playedAt: row.playedAt }));
+    },
+  );
+
+  summary.duplicatePlays += existingPlays + existingEpisodePlays;
+  summary.importedPlays += plays.length + episodePlays.length - existingPlays - existingEpisodePlays;
+}
+
+type PendingPlay = {
+  kind: "track" | "episode" | "chapter";
+  id: string;
+  playedAt: Date;
+  details: PlayDetails;
+  // Shown in the unresolved sample of dry-run reports.
+  description: string;
+};
+
+// Extended streaming history rows carry a track, podcast episode or audiobook chapter URI.
+// Tracks come from /tracks; episodes and chapters are stored as episodes of their show.
+function createFullPrivacyProcessor(
+  userId: string,
+  summary: JsonImportSummary,
+  writeBatch: BatchWriter,
+): RecordProcessor {
+  const knownTrackIds = new Set<string>();
+  const unresolvedTrackIds = new Set<string>();
+  const knownEpisodeIds = new Set<string>();
+  const unresolvedEpisodeIds = new Set<string>();
+  let batch: YourSpotifyFullPrivacyItem[] = [];
+
+  const toPendingPlay = (item: YourSpotifyFullPrivacyItem): PendingPlay | null => {
+    const playedAt = normalizeIsoDate(item.ts);
+    if (item.ms_played < MIN_MS_PLAYED || !playedAt) {
+      return null;
+    }
+
+    const trackId = extractIdFromSpotifyUri(item.spotify_track_uri, "track");
+    const episodeId = extractIdFromSpotifyUri(item.spotify_episode_uri, "episode");
+    const chapterId = extractIdFromSpotifyUri(item.audiobook_chapter_uri, "chapter");
+    const [kind, id] = trackId
+      ? (["track", trackId] as const)
+      : episodeId
+        ? (["episode", episodeId] as const)
+        : chapterId
+          ? (["chapter", chapterId] as const)
+          : [null, null];
+
+    if (!kind) {
+      return null;
+    }
+
+    const trackName = item.master_metadata_track_name;
+    const artistName = item.master_metadata_album_artist_name;
+
+    return {
+      kind,
+      id,
+      playedAt: new Date(playedAt),
+      description:
+        trackName && artistName
+          ? `${trackName} - ${artistName}`
+          : (item.spotify_track_uri ?? item.spotify_episode_uri ?? item.audiobook_chapter_uri ?? id),
+      details: {
+        msPlayed: item.ms_played,
+        reasonStart: item.reason_start ?? null,
+        reasonEnd: item.reason_end ?? null,
+        skipped: item.skipped ?? null,
+        shuffle: item.shuffle ?? null,
+      },
+    };
+  };
+
+  const unknownIds = (
+    pending: PendingPlay[],
+    kind: PendingPlay["kind"],
+    known: Set<string>,
+    unresolved: Set<string>,
+  ) =>
+    [...new Set(pending.filter((play) => play.kind === kind).map((play) => play.id))].filter(
+      (id) => !known.has(id) && !unresolved.has(id),
+    );
+
+  const flush = async () => {
+    const items = batch;
+    batch = [];
+
+    const pending: PendingPlay[] = [];
+    for (const item of items) {
+      const play = toPendingPlay(item);
+      if (play) {
+        pending.push(play);
+      } else {
+        summary.skippedPlays += 1;
+      }
+    }
+
+    const trackLookupIds = unknownIds(pending, "track", knownTrackIds, unresolvedTrackIds);
+    const existingTrackIds = await findExistingTrackIds(trackLookupIds);
+    const fetched = await fetchTracksByIds(
+      userId,
+      trackLookupIds.filter((trackId) => !existingTrackIds.has(trackId)),
+    );
+    for (const trackId of trackLookupIds) {
+      if (existingTrackIds.has(trackId) || fetched.has(trackId)) {
+        knownTrackIds.add(trackId);
+        summary.tracksResolved += 1;
+      } else {
+        unresolvedTrackIds.add(trackId);
+      }
+    }
+
+    const episodeLookupIds = unknownIds(pending, "episode", knownEpisodeIds, unresolvedEpisodeIds);
+    const chapterLookupIds = unknownIds(pending, "chapter", knownEpisodeIds, unresolvedEpisodeIds);
+    const existingEpisodeIds = await findExistingEpisodeIds([...episodeLookupIds, ...chapterLookupIds]);
+    const episodeCatalog = await fetchPodcastCatalog(
+      userId,
+      episodeLookupIds.filter((id) => !existingEpisodeIds.has(id)),
+      "podcast",
+    );
+    const chapterCatalog = await fetchPodcastCatalog(
+      userId,
+      chapterLookupIds.filter((id) => !existingEpisodeIds.has(id)),
+      "audiobook",
+    );
+    const fetchedEpisodeIds = new Set(
+      [...episodeCatalog.episodes, ...chapterCatalog.episodes].map((episode) => episode.id),
+    );
+    for (const id of [...episodeLookupIds, ...chapterLookupIds]) {
+      if (existingEpisodeIds.has(id) || fetchedEpisodeIds.has(id)) {
+        knownEpisodeIds.add(id);
+      } else {
+        unresolvedEpisodeIds.add(id);
+      }
+    }
+
+    const playRows: Prisma.PlayEventCreateManyInput[] = [];
+    const episodePlayRows: Prisma.EpisodePlayEventCreateManyInput[] = [];
+    for (const play of pending) {
+      if (play.kind === "track" && knownTrackIds.has(play.id)) {
+        playRows.push({ ...toPlayRow(userId, play.playedAt, play.details), trackId: play.id });
+      } else if (play.kind !== "track" && knownEpisodeIds.has(play.id)) {
+        episodePlayRows.push({ ...toPlayRow(userId, play.playedAt, play.details), episodeId: play.id });
+      } else {
+        recordUnresolvedPlay(summary, play.description, play.playedAt);
+      }
+    }
+
+    await writeBatch(
+      {
+        ...buildCatalogFromSpotifyTracks([...fetched.values()]),
+        shows: [...episodeCatalog.shows, ...chapterCatalog.shows],
+        episodes: [...episodeCatalog.episodes, ...chapterCatalog.episodes],
+        plays: playRows,
+        episodePlays: episodePlayRows,
+      },
+    );
+  };
+
+  return {
+    add: async (record) => {
+      const parsed = yourSpotifyFullPrivacyItemSchema.safeParse(record.value);
+      if (!parsed.success) {
+        summary.rejectedRows += 1;
+        return;
+      }
+
+      batch.push(parsed.data);
+      if (batch.length >= PLAY_BATCH_SIZE) {
+        await flush();
+      }
+    },
+    finish: flush,
+  };
+}
+
+function createPrivacyProcessor(
+  userId: string,
+  summary: JsonImportSummary,
+  writeBatch: BatchWriter,
+): RecordProcessor {
+  // Keyed by track + artist name; `null` marks searches that found nothing.
+  const searchCache = new Map<string, string | null>();
+  let batch: YourSpotifyPrivacyItem[] = [];
+
+  const flush = async () => {
+    const items = batch;
+    batch = [];
+
+    const foundTracks: SpotifyTrack[] = [];
+    const playRows: Prisma.PlayEventCreateManyInput[] = [];
+
+    for (const item of items) {
+      const playedAt = normalizePrivacyEndTime(item.endTime);
+      if (item.msPlayed < MIN_MS_PLAYED || !playedAt) {
+        summary.skippedPlays += 1;
+        continue;
+      }
+
+      const key = `${item.trackName}\u0000${item.artistName}`;
+      if (!searchCache.has(key)) {
+        const track = await searchTrack(userId, item.trackName, item.artistName);
+        searchCache.set(key, track?.id ?? null);
+        if (track) {
+          foundTracks.push(track);
+          summary.tracksResolved += 1;
+        }
+      }
+
+      const trackId = searchCache.get(key);
+      if (!trackId) {
+        recordUnresolvedPlay(summary, `${item.trackName} - ${item.artistName}`, new Date(playedAt));
+        continue;
+      }
+
+      playRows.push({ ...toPlayRow(userId, new Date(playedAt), { msPlayed: item.msPlayed }), trackId });
+    }
+
+    await writeBatch({ ...buildCatalogFromSpotifyTracks(foundTracks), plays: playRows });
+  };
+
+  return {
+    add: async (record) => {
+      const parsed = yourSpotifyPrivacyItemSchema.safeParse(record.value);
+      if (!parsed.success) {
+        summary.rejectedRows += 1;
+        return;
+      }
+
+      batch.push(parsed.data);
+      if (batch.length >= PLAY_BATCH_SIZE) {
+        await flush();
+      }
+    },
+    finish: flush,
+  };
+}
+
+// App exports list albums, artists and tracks before plays, so every reference resolves as the
+// sections stream in. Older exports put plays first; rows that point at records not seen yet are
+// spilled to disk and retried once the whole file has been read.
+function createRestoreProcessor(
+  userId: string,
+  summary: JsonImportSummary,
+  writeBatch: BatchWriter,
+): RecordProcessor {
+  const knownAlbumIds = new Set<string>();
+  const knownArtistIds = new Set<string>();
+  const knownTrackIds = new Set<string>();
+  const knownShowIds = new Set<string>();
+  const knownEpisodeIds = new Set<string>();
+  const missingIds = {
+    albums: new Set<string>(),
+    artists: new Set<string>(),
+    tracks: new Set<string>(),
+    shows: new Set<string>(),
+    episodes: new Set<string>(),
+  };
+
+  let albums: RestoreAlbum[] = [];
+  let artists: RestoreArtist[] = [];
+  let tracks: RestoreTrack[] = [];
+  let plays: RestorePlay[] = [];
+  const deferredTracks = createSpillFile<RestoreTrack>();
+  const deferredPlays = createSpillFile<RestorePlay>();
+  let shows: RestoreShow[] = [];
+  let episodes: RestoreEpisode[] = [];
+  let episodePlays: RestoreEpisodePlay[] = [];
+
+  const resolveIds = async (
+    ids: string[],
+    known: Set<string>,
+    missing: Set<string>,
+    finder: (ids: string[]) => Promise<Set<string>>,
+  ) => {
+    const lookupIds = [...new Set(ids)].filter((id) => !known.has(id) && !missing.has(id));
+    const existing = await finder(lookupIds);
+    for (const id of lookupIds) {
+      if (existing.has(id)) {
+        known.add(id);
+      } else {
+        missing.add(id);
+      }
+    }
+  };
+
+  const flushAlbums = async () => {
+    const rows = albums;
+    albums = [];
+    rows.forEach((album) => {
+      knownAlbumIds.add(album.id);
+      missingIds.albums.delete(album.id);
+    });
+    await writeBatch({ albums: rows });
+  };
+
+  const flushArtists = async () => {
+    const rows = artists;
+    artists = [];
+    rows.forEach((artist) => {
+      knownArtistIds.add(artist.id);
+      missingIds.artists.delete(artist.id);
+    });
+    await writeBatch({ artists: rows });
+  };
+
+  const writeTracks = async (rows: RestoreTrack[], final: boolean) => {
+    await resolveIds(
+      rows.map((track) => track.albumId).filter((albumId): albumId is string => Boolean(albumId)),
+      knownAlbumIds,
+      missingIds.albums,
+      findExistingAlbumIds,
+    );
+    await resolveIds(rows.flatMap((track) => track.artistIds), knownArtistIds, missingIds.artists, findExistingArtistIds);
+
+    const ready: NormalizedTrackRow[] = [];
+    const deferred: RestoreTrack[] = [];
+    for (const track of rows) {
+      const hasMissingRefs =
+        (track.albumId && !knownAlbumIds.has(track.albumId)) ||
+        track.artistIds.some((artistId) => !knownArtistIds.has(artistId));
+
+      if (hasMissingRefs && !final) {
+        deferred.push(track);
+        continue;
+      }
+
+      ready.push({
+        id: track.id,
+        name: track.name,
+        durationMs: Math.max(1, Math.round(track.durationMs)),
+        albumId: track.albumId && knownAlbumIds.has(track.albumId) ? track.albumId : null,
+        artistIds: [...new Set(track.artistIds.filter((artistId) => knownArtistIds.has(artistId)))],
+        popularity: track.popularity ?? null,
+        explicit: track.explicit ?? null,
+        previewUrl: track.previewUrl ?? null,
+        imageUrl: track.imageUrl ?? null,
+        danceability: track.danceability ?? null,
+        energy: track.energy ?? null,
+        valence: track.valence ?? null,
+        tempo: track.tempo ?? null,
+      });
+      knownTrackIds.add(track.id);
+      missingIds.tracks.delete(track.id);
+    }
+    summary.tracksResolved += ready.length;
+
+    await writeBatch({ tracks: ready });
+    await deferredTracks.append(deferred);
+  };
+
+  const flushTracks = async (final: boolean) => {
+    const rows = tracks;
+    tracks = [];
+    await writeTracks(rows, final);
+  };
+
+  const writePlays = async (rows: RestorePlay[], final: boolean) => {
+    await resolveIds(
+      rows.map((play) => play.trackId),
+      knownTrackIds,
+      missingIds.tracks,
+      findExistingTrackIds,
+    );
+
+    const playRows: Prisma.PlayEventCreateManyInput[] = [];
+    const deferred: RestorePlay[] = [];
+    for (const play of rows) {
+      const playedAt = new Date(play.playedAt);
+      if (Number.isNaN(playedAt.getTime())) {
+        summary.rejectedRows += 1;
+        continue;
+      }
+
+      if (!knownTrackIds.has(play.trackId)) {
+        if (final) {
+          recordUnresolvedPlay(summary, `Track ${play.trackId}`, playedAt);
+        } else {
+          deferred.push(play);
+        }
+        continue;
+      }
+
+      playRows.push({ ...toPlayRow(userId, playedAt, play), trackId: play.trackId });
+    }
+
+    await writeBatch({ plays: playRows });
+    await deferredPlays.append(deferred);
+  };
+
+  const flushPlays = async (final: boolean) => {
+    const rows = plays;
+    plays = [];
+    await writePlays(rows, final);
+  };
+
+  // Podcast sections follow the music sections in exports, so they are written without deferral.
+  const flushShows = async () => {
+    const rows = shows;
+    shows = [];
+    rows.forEach((show) => {
+      knownShowIds.add(show.id);
+      missingIds.shows.delete(show.id);
+    });
+    await writeBatch(
+      {
+        shows: rows.map((show) => ({
+          id: show.id,
+          name: show.name,
+          publisher: show.publisher ?? null,
+          mediaType: show.mediaType,
+          imageUrl: show.imageUrl ?? null,
+        })),
+      },
+    );
+  };
+
+  const flushEpisodes = async () => {
+    const rows = episodes;
+    episodes = [];
+
+    await resolveIds(
+      rows.map((episode) => episode.showId),
+      knownShowIds,
+      missingIds.shows,
+      findExistingShowIds,
+    );
+
+    const ready: Prisma.EpisodeCreateManyInput[] = [];
+    for (const episode of rows) {
+      if (!knownShowIds.has(episode.showId)) {
+        summary.rejectedRows += 1;
+        continue;
+      }
+
+      ready.push({
+        id: episode.id,
+        showId: episode.showId,
+        name: episode.name,
+        durationMs: Math.max(1, Math.round(episode.durationMs)),
+        releaseDate: episode.releaseDate ?? null,
+        imageUrl: episode.imageUrl ?? null,
+      });
+      knownEpisodeIds.add(episode.id);
+      missingIds.episodes.delete(episode.id);
+    }
+
+    await writeBatch({ episodes: ready });
+  };
+
+  const flushEpisodePlays = async () => {
+    const rows = episodePlays;
+    episodePlays = [];
+
+    await resolveIds(
+      rows.map((play) => play.episodeId),
+      knownEpisodeIds,
+      missingIds.episodes,
+      findExistingEpisodeIds,
+    );
+
+    const playRows: Prisma.EpisodePlayEventCreateManyInput[] = [];
+    for (const play of rows) {
+      const playedAt = new Date(play.playedAt);
+      if (Number.isNaN(playedAt.getTime())) {
+        summary.rejectedRows += 1;
+        continue;
+      }
+
+      if (!knownEpisodeIds.has(play.episodeId)) {
+        recordUnresolvedPlay(summary, `Episode ${play.episodeId}`, playedAt);
+        continue;
+      }
+
+      playRows.push({ ...toPlayRow(userId, playedAt, play), episodeId: play.episodeId });
+    }
+
+    await writeBatch({ episodePlays: playRows });
+  };
+
+  return {
+    add: async (record) => {
+      switch (record.section) {
+        case "albums": {
+          const parsed = restoreAlbumSchema.safeParse(record.value);
+          if (!parsed.success) {
+            summary.rejectedRows += 1;
+            return;
+          }
+          albums.push(parsed.data);
+          if (albums.length >= CREATE_BATCH_SIZE) {
+            await flushAlbums();
+          }
+          return;
+        }
+        case "artists": {
+          const parsed = restoreArtistSchema.safeParse(record.value);
+          if (!parsed.success) {
+            summary.rejectedRows += 1;
+            return;
+          }
+          artists.push(parsed.data);
+          if (artists.length >= CREATE_BATCH_SIZE) {
+            await flushArtists();
+          }
+          return;
+        }
+        case "tracks": {
+          const parsed = restoreTrackSchema.safeParse(record.value);
+          if (!parsed.success) {
+            summary.rejectedRows += 1;
+            return;
+          }
+          // Albums and artists listed before this track must exist before it can reference them.
+          await flushAlbums();
+          await flushArtists();
+          tracks.push(parsed.data);
+          if (tracks.length >= CREATE_BATCH_SIZE) {
+            await flushTracks(false);
+          }
+          return;
+        }
+        case "plays": {
+          const parsed = restorePlaySchema.safeParse(record.value);
+          if (!parsed.success) {
+            summary.rejectedRows += 1;
+            return;
+          }
+          if (tracks.length > 0) {
+            await flushTracks(false);
+          }
+          plays.push(parsed.data);
+          if (plays.length >= PLAY_BATCH_SIZE) {
+            await flushPlays(false);
+          }
+          return;
+        }
+        case "shows": {
+          const parsed = restoreShowSchema.safeParse(record.value);
+          if (!parsed.success) {
+            summary.rejectedRows += 1;
+            return;
+          }
+          shows.push(parsed.data);
+          if (shows.length >= CREATE_BATCH_SIZE) {
+            await flushShows();
+          }
+          return;
+        }
+        case "episodes": {
+          const parsed = restoreEpisodeSchema.safeParse(record.value);
+          if (!parsed.success) {
+            summary.rejectedRows += 1;
+            return;
+          }
+          await flushShows();
+          episodes.push(parsed.data);
+          if (episodes.length >= CREATE_BATCH_SIZE) {
+            await flushEpisodes();
+          }
+          return;
+        }
+        case "episodePlays": {
+          const parsed = restoreEpisodePlaySchema.safeParse(record.value);
+          if (!parsed.success) {
+            summary.rejectedRows += 1;
+            return;
+          }
+          if (episodes.length > 0) {
+            await flushEpisodes();
+          }
+          episodePlays.push(parsed.data);
+          if (episodePlays.length >= PLAY_BATCH_SIZE) {
+            await flushEpisodePlays();
+          }
+          return;
+        }
+        default:
+          // Other export sections are not restored.
+          return;
+      }
+    },
+    finish: async () => {
+      await flushAlbums();
+      await flushArtists();
+      await flushTracks(true);
+      await deferredTracks.drain(CREATE_BATCH_SIZE, (rows) => writeTracks(rows, true));
+      await flushPlays(true);
+      await deferredPlays.drain(PLAY_BATCH_SIZE, (rows) => writePlays(rows, true));
+      await flushShows();
+      await flushEpisodes();
+      await flushEpisodePlays();
+    },
+    close: async () => {
+      await deferredTracks.remove();
+      await deferredPlays.remove();
+    },
+  };
+}
+
+function detectImportFormat(firstRecord: JsonStreamRecord): JsonImportFormat {
+  if (firstRecord.section !== null) {
+    return "restore";
+  }
+
+  if (yourSpotifyFullPrivacyItemSchema.safeParse(firstRecord.value).success) {
+    return "your_spotify_full_privacy";
+  }
+
+  if (yourSpotifyPrivacyItemSchema.safeParse(firstRecord.value).success) {
+    return "your_spotify_privacy";
+  }
+
+  throw new UnsupportedImportFormatError("Unsupported JSON format");
+}
+
+function createRecordProcessor(
+  userId: string,
+  firstRecord: JsonStreamRecord,
+  summary: JsonImportSummary,
+  expectedFormat: JsonImportFormat | undefined,
+  writeBatch: BatchWriter,
+): RecordProcessor {
+  const format = expectedFormat ?? detectImportFormat(firstRecord);
+
+  // Restore exports are objects of sections; the other formats are plain arrays of plays.
+  if ((format === "restore") !== (firstRecord.section !== null)) {
+    throw new UnsupportedImportFormatError("Unsupported JSON format");
+  }
+
+  summary.format = format;
+
+  switch (format) {
+    case "restore":
+      return createRestoreProcessor(userId, summary, writeBatch);
+    case "your_spotify_full_privacy":
+      return createFullPrivacyProcessor(userId, summary, writeBatch);
+    case "your_spotify_privacy":
+      return createPrivacyProcessor(userId, summary, writeBatch);
+  }
+}
+
+// Streams one JSON file into the database. Records are validated one at a time and written in
+// batches of at most PLAY_BATCH_SIZE plays, so memory use does not grow with the file size.
+// `onProgress` receives the running totals every PLAY_BATCH_SIZE records and once at the end.
+// The format is detected from the first record unless `format` is given. With `dryRun` the file
+// goes through the same normalization and Spotify lookups, but batches are only compared against
+// the database, so the summary previews what a real import would add. Inserted plays are linked to
+// `importRunId` so the run can be undone, and the daily rollups of the days they fall on are refreshed.
+// An aborted `signal` stops the import before the next record.
+export async function importJsonStream(
+  userId: string,
+  source: AsyncIterable<Uint8Array | string>,
+  options: {
+    format?: JsonImportFormat;
+    dryRun?: boolean;
+    importRunId?: string;
+    signal?: AbortSignal;
+    onProgress?: (summary: JsonImportSummary) => Promise<void>;
+  } = {},
+): Promise<JsonImportSummary> {
+  const summary = createEmptyImportSummary();
+  const timeZone = await getUserTimeZone(userId);
+  const touchedDays = new Set<string>();
+  const touchedTrackIds = new Set<string>();
+  const writeBatch: BatchWriter = options.dryRun
+    ? (batch) => previewImportBatch(userId, batch, summary)
+    : async (batch) => {
+        batch.plays?.forEach((play) => {
+          touchedDays.add(toRollupDay(play.playedAt, timeZone));
+          touchedTrackIds.add(play.trackId);
+        });
+        await writeImportBatch(batch, summary, options.importRunId ?? null);
+      };
+  let processor: RecordProcessor | null = null;
+
+  try {
+    for await (const record of streamJsonRecords(source)) {
+      options.signal?.throwIfAborted();
+      summary.recordsParsed += 1;
+      processor ??= createRecordProcessor(userId, record, summary, options.format, writeBatch);
+      await processor.add(record);
+
+      if (summary.recordsParsed % PLAY_BATCH_SIZE === 0) {
+        await options.onProgress?.({ ...summary });
+      }
+    }
+
+    options.signal?.throwIfAborted();
+    await processor?.finish();
+  } catch (error) {
+    // Batches written before a failure stay in the database, so their days are refreshed either way.
+    // A refresh failure here is only logged so the import error is the one reported.
+    try {
+      await refreshListeningRollups(userId, touchedDays);
+      await refreshRecommendationOutcomes(userId, touchedTrackIds);
+    } catch (refreshError) {
+      console.error("[JSON import] Refreshing rollups after a failed import failed", refreshError);
+    }
+    throw error;
+  } finally {
+    await processor?.close?.();
+  }
+
+  await refreshListeningRollups(userId, touchedDays);
+  await refreshRecommendationOutcomes(userId, touchedTrackIds);
+
+  await options.onProgress?.({ ...summary });
+
+  return summary;
+}
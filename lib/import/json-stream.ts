@@ -0,0 +1,252 @@
+export class JsonStreamSyntaxError extends SyntaxError {}
+
+export type JsonStreamRecord = {
+  // `null` for elements of a top-level array, otherwise the top-level key whose array holds it.
+  section: string | null;
+  value: unknown;
+};
+
+type ContainerType = "array" | "object";
+
+const WHITESPACE = new Set([" ", "\t", "\n", "\r"]);
+
+// Incremental tokenizer that yields the records of a JSON document without materializing it.
+// Records are the elements of a top-level array (`[{...}, {...}]`) or of arrays stored under
+// top-level keys (`{ "plays": [{...}], "tracks": [{...}] }`). Only one record is buffered at a
+// time; everything else (including non-array values under top-level keys) is scanned and dropped.
+class JsonRecordScanner {
+  private readonly stack: ContainerType[] = [];
+  private inString = false;
+  private escaped = false;
+  private started = false;
+  private finished = false;
+  private expectKey = false;
+  private currentKey: string | null = null;
+  private keyParts: string[] | null = null;
+  private keyFrom = 0;
+  private recordParts: string[] | null = null;
+  private recordFrom = 0;
+  private recordKind: "container" | "string" | "scalar" | null = null;
+  private recordSection: string | null = null;
+
+  push(chunk: string): JsonStreamRecord[] {
+    const records: JsonStreamRecord[] = [];
+    let text = chunk;
+
+    if (!this.started && text.charCodeAt(0) === 0xfeff) {
+      text = text.slice(1);
+    }
+
+    this.recordFrom = 0;
+    this.keyFrom = 0;
+
+    for (let index = 0; index < text.length; index += 1) {
+      const char = text[index] as string;
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === "\\") {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          this.closeString(text, index, records);
+        }
+        continue;
+      }
+
+      if (this.recordKind === "scalar" && (WHITESPACE.has(char) || char === "," || char === "]")) {
+        this.endRecord(text, index, records);
+      }
+
+      if (WHITESPACE.has(char)) {
+        continue;
+      }
+
+      if (this.finished) {
+        throw new JsonStreamSyntaxError("Unexpected data after the end of the JSON document");
+      }
+
+      if (!this.started) {
+        if (char !== "[" && char !== "{") {
+          throw new JsonStreamSyntaxError("JSON import must contain an array or an object");
+        }
+        this.started = true;
+      }
+
+      switch (char) {
+        case '"':
+          if (this.isRootObjectKeyPosition()) {
+            this.keyParts = [];
+            this.keyFrom = index;
+          } else {
+            this.beginRecordIfAtSlot(index, "string");
+          }
+          this.inString = true;
+          break;
+        case "{":
+        case "[":
+          this.beginRecordIfAtSlot(index, "container");
+          this.stack.push(char === "{" ? "object" : "array");
+          this.expectKey = char === "{" && this.stack.length === 1;
+          break;
+        case "}":
+        case "]": {
+          const expected: ContainerType = char === "}" ? "object" : "array";
+          if (this.stack.pop() !== expected) {
+            throw new JsonStreamSyntaxError(`Unexpected "${char}" in JSON input`);
+          }
+
+          if (this.recordKind === "container" && this.stack.length === this.recordDepth()) {
+            this.endRecord(text, index + 1, records);
+          }
+
+          if (this.stack.length === 0) {
+            this.finished = true;
+          }
+          break;
+        }
+        case ",":
+          if (this.stack.length === 1 && this.stack[0] === "object") {
+            this.expectKey = true;
+          }
+          break;
+        case ":":
+          if (this.stack.length === 1 && this.stack[0] === "object") {
+            this.expectKey = false;
+          }
+          break;
+        default:
+          this.beginRecordIfAtSlot(index, "scalar");
+          break;
+      }
+    }
+
+    if (this.recordParts) {
+      this.recordParts.push(text.slice(this.recordFrom));
+    }
+
+    if (this.keyParts) {
+      this.keyParts.push(text.slice(this.keyFrom));
+    }
+
+    return records;
+  }
+
+  end(): JsonStreamRecord[] {
+    const records: JsonStreamRecord[] = [];
+
+    if (this.recordKind === "scalar") {
+      this.endRecord("", 0, records);
+    }
+
+    if (!this.started || !this.finished || this.inString) {
+      throw new JsonStreamSyntaxError("Unexpected end of JSON input");
+    }
+
+    return records;
+  }
+
+  private isRootObjectKeyPosition(): boolean {
+    return this.stack.length === 1 && this.stack[0] === "object" && this.expectKey;
+  }
+
+  // Depth of the container that holds records: the root array, or an array under a root key.
+  private recordDepth(): number {
+    return this.stack[0] === "array" ? 1 : 2;
+  }
+
+  private isAtRecordSlot(): boolean {
+    if (this.recordKind !== null) {
+      return false;
+    }
+
+    if (this.stack.length === 1 && this.stack[0] === "array") {
+      return true;
+    }
+
+    return this.stack.length === 2 && this.stack[0] === "object" && this.stack[1] === "array";
+  }
+
+  private beginRecordIfAtSlot(index: number, kind: "container" | "string" | "scalar"): void {
+    if (!this.isAtRecordSlot()) {
+      return;
+    }
+
+    this.recordKind = kind;
+    this.recordParts = [];
+    this.recordFrom = index;
+    this.recordSection = this.stack.length === 1 ? null : this.currentKey;
+  }
+
+  private closeString(text: string, index: number, records: JsonStreamRecord[]): void {
+    if (this.keyParts) {
+      this.keyParts.push(text.slice(this.keyFrom, index + 1));
+      this.currentKey = JSON.parse(this.keyParts.join("")) as string;
+      this.keyParts = null;
+      return;
+    }
+
+    if (this.recordKind === "string") {
+      this.endRecord(text, index + 1, records);
+    }
+  }
+
+  private endRecord(text: string, endIndex: number, records: JsonStreamRecord[]): void {
+    const parts = this.recordParts ?? [];
+    parts.push(text.slice(this.recordFrom, endIndex));
+
+    let value: unknown;
+    try {
+      value = JSON.parse(parts.join(""));
+    } catch (error) {
+      throw new JsonStreamSyntaxError(
+        error instanceof Error ? error.message : "Invalid JSON record",
+      );
+    }
+
+    records.push({ section: this.recordSection, value });
+    this.recordParts = null;
+    this.recordKind = null;
+  }
+}
+
+export async function* readableStreamChunks(
+  stream: ReadableStream<Uint8Array>,
+): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+
+      if (value) {
+        yield value;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export async function* streamJsonRecords(
+  source: AsyncIterable<Uint8Array | string>,
+): AsyncGenerator<JsonStreamRecord> {
+  const scanner = new JsonRecordScanner();
+  const decoder = new TextDecoder("utf-8");
+
+  for await (const chunk of source) {
+    const text = typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+    yield* scanner.push(text);
+  }
+
+  const tail = decoder.decode();
+  if (tail) {
+    yield* scanner.push(tail);
+  }
+
+  yield* scanner.end();
+}
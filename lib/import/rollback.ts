@@ -0,0 +1,172 @@
+import { Prisma } from "@prisma/client";
+
+import { getUserTimeZone, localDateSql, refreshListeningRollups } from "@/lib/analytics/rollups";
+import { prisma } from "@/lib/prisma";
+import { refreshRecommendationOutcomes } from "@/lib/recommendations/outcomes";
+
+const LOOKUP_BATCH_SIZE = 500;
+const ROLLBACK_TIMEOUT_MS = 5 * 60 * 1000;
+
+export type ImportRollbackResult = {
+  removedPlays: number;
+  removedTracks: number;
+  removedAlbums: number;
+  removedArtists: number;
+  removedEpisodes: number;
+  removedShows: number;
+};
+
+function chunkArray<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+}
+
+async function deleteOrphanCatalog(
+  transaction: Prisma.TransactionClient,
+  trackIds: string[],
+  episodeIds: string[],
+  result: ImportRollbackResult,
+): Promise<void> {
+  const albumIds = new Set<string>();
+  const artistIds = new Set<string>();
+
+  for (const chunk of chunkArray(trackIds, LOOKUP_BATCH_SIZE)) {
+    const orphans = await transaction.track.findMany({
+      where: { id: { in: chunk }, playEvents: { none: {} } },
+      select: { id: true, albumId: true, artists: { select: { artistId: true } } },
+    });
+
+    for (const track of orphans) {
+      if (track.albumId) {
+        albumIds.add(track.albumId);
+      }
+      track.artists.forEach((artist) => artistIds.add(artist.artistId));
+    }
+
+    const deleted = await transaction.track.deleteMany({
+      where: { id: { in: orphans.map((track) => track.id) } },
+    });
+    result.removedTracks += deleted.count;
+  }
+
+  for (const chunk of chunkArray([...albumIds], LOOKUP_BATCH_SIZE)) {
+    const deleted = await transaction.album.deleteMany({
+      where: { id: { in: chunk }, tracks: { none: {} } },
+    });
+    result.removedAlbums += deleted.count;
+  }
+
+  for (const chunk of chunkArray([...artistIds], LOOKUP_BATCH_SIZE)) {
+    const deleted = await transaction.artist.deleteMany({
+      where: { id: { in: chunk }, tracks: { none: {} } },
+    });
+    result.removedArtists += deleted.count;
+  }
+
+  const showIds = new Set<string>();
+  for (const chunk of chunkArray(episodeIds, LOOKUP_BATCH_SIZE)) {
+    const orphans = await transaction.episode.findMany({
+      where: { id: { in: chunk }, playEvents: { none: {} } },
+      select: { id: true, showId: true },
+    });
+    orphans.forEach((episode) => showIds.add(episode.showId));
+
+    const deleted = await transaction.episode.deleteMany({
+      where: { id: { in: orphans.map((episode) => episode.id) } },
+    });
+    result.removedEpisodes += deleted.count;
+  }
+
+  for (const chunk of chunkArray([...showIds], LOOKUP_BATCH_SIZE)) {
+    const deleted = await transaction.show.deleteMany({
+      where: { id: { in: chunk }, episodes: { none: {} } },
+    });
+    result.removedShows += deleted.count;
+  }
+}
+
+// Deletes the plays an import run inserted, then the tracks, albums, artists, episodes and shows
+// those plays were the last reference to. Plays the run found already stored belong to the run
+// that inserted them and are kept. Runs in one transaction so a failure leaves nothing half-undone;
+// the daily rollups of the affected days are recomputed once it has committed.
+export async function rollbackImportRun(importRunId: string): Promise<ImportRollbackResult> {
+  const importRun = await prisma.importRun.findUniqueOrThrow({
+    where: { id: importRunId },
+    select: { userId: true },
+  });
+  const timeZone = await getUserTimeZone(importRun.userId);
+  let touchedDays: string[] = [];
+  let touchedTrackIds: string[] = [];
+  let touchedAlbumIds: string[] = [];
+
+  const rollback = await prisma.$transaction(
+    async (transaction) => {
+      const result: ImportRollbackResult = {
+        removedPlays: 0,
+        removedTracks: 0,
+        removedAlbums: 0,
+        removedArtists: 0,
+        removedEpisodes: 0,
+        removedShows: 0,
+      };
+
+      const trackRows = await transaction.playEvent.findMany({
+        where: { importRunId },
+        select: { trackId: true },
+        distinct: ["trackId"],
+      });
+      const episodeRows = await transaction.episodePlayEvent.findMany({
+        where: { importRunId },
+        select: { episodeId: true },
+        distinct: ["episodeId"],
+      });
+
+      const dayRows = await transaction.$queryRaw<{ day: string }[]>`
+        SELECT DISTINCT to_char(${localDateSql(Prisma.sql`played_at`, timeZone)}, 'YYYY-MM-DD') AS day
+        FROM play_events
+        WHERE import_run_id = ${importRunId}
+      `;
+      touchedDays = dayRows.map((row) => row.day);
+      touchedTrackIds = trackRows.map((row) => row.trackId);
+
+      // Orphaned tracks are deleted below, so their albums are looked up first.
+      const albumRows = await transaction.$queryRaw<{ album_id: string }[]>`
+        SELECT DISTINCT t.album_id
+        FROM play_events pe
+        JOIN tracks t ON t.id = pe.track_id
+        WHERE pe.import_run_id = ${importRunId} AND t.album_id IS NOT NULL
+      `;
+      touchedAlbumIds = albumRows.map((row) => row.album_id);
+
+      const deletedPlays = await transaction.playEvent.deleteMany({ where: { importRunId } });
+      const deletedEpisodePlays = await transaction.episodePlayEvent.deleteMany({ where: { importRunId } });
+      result.removedPlays = deletedPlays.count + deletedEpisodePlays.count;
+
+      await deleteOrphanCatalog(
+        transaction,
+        trackRows.map((row) => row.trackId),
+        episodeRows.map((row) => row.episodeId),
+        result,
+      );
+
+      await transaction.importRun.update({
+        where: { id: importRunId },
+        data: {
+          status: "rolled_back",
+          message: `Rolled back (${result.removedPlays} play events removed)`,
+        },
+      });
+
+      return result;
+    },
+    { timeout: ROLLBACK_TIMEOUT_MS },
+  );
+
+  await refreshListeningRollups(importRun.userId, touchedDays);
+  await refreshRecommendationOutcomes(importRun.userId, touchedTrackIds, touchedAlbumIds);
+
+  return rollback;
+}
@@ -0,0 +1,227 @@
+import type { ImportFile } from "@prisma/client";
+
+import { ImportArchiveError, readArchiveEntry } from "@/lib/import/archive";
+import {
+  importJsonStream,
+  type JsonImportSummary,
+  mergeImportSummaries,
+  UnsupportedImportFormatError,
+} from "@/lib/import/json-import";
+import { JsonStreamSyntaxError } from "@/lib/import/json-stream";
+import { openStagedFile, removeStagedFile } from "@/lib/import/staging";
+import { prisma } from "@/lib/prisma";
+
+// Errors that retrying cannot fix. The file is marked failed and the rest of the run continues.
+function describeFileError(error: unknown): string | null {
+  if (error instanceof JsonStreamSyntaxError) {
+    return `Invalid JSON file: ${error.message}`;
+  }
+
+  if (error instanceof UnsupportedImportFormatError) {
+    return "Unsupported JSON format. Accepted: this app export JSON or your_spotify privacy/full-privacy JSON arrays.";
+  }
+
+  if (error instanceof ImportArchiveError) {
+    return error.message;
+  }
+
+  return null;
+}
+
+function readFileReport(file: ImportFile): JsonImportSummary | null {
+  return file.report ? (file.report as JsonImportSummary) : null;
+}
+
+async function importStagedFile(
+  userId: string,
+  importRunId: string,
+  file: ImportFile,
+  dryRun: boolean,
+  signal?: AbortSignal,
+): Promise<void> {
+  await prisma.importFile.update({
+    where: { id: file.id },
+    data: { status: "processing", error: null },
+  });
+
+  try {
+    // Entries of an extended streaming history ZIP were matched by name at upload time.
+    const source = file.archiveEntry
+      ? readArchiveEntry(file.storagePath, file.archiveEntry)
+      : openStagedFile(file.storagePath);
+
+    const summary = await importJsonStream(userId, source, {
+      format: file.archiveEntry ? "your_spotify_full_privacy" : undefined,
+      dryRun,
+      importRunId,
+      signal,
+      onProgress: async (progress) => {
+        await prisma.importFile.update({
+          where: { id: file.id },
+          data: {
+            format: progress.format,
+            recordsParsed: progress.recordsParsed,
+            tracksResolved: progress.tracksResolved,
+            playsInserted: progress.importedPlays,
+            rejectedRows: progress.rejectedRows,
+            skippedPlays: progress.skippedPlays,
+          },
+        });
+      },
+    });
+
+    await prisma.importFile.update({
+      where: { id: file.id },
+      data: {
+        status: dryRun ? "previewed" : "completed",
+        format: summary.format,
+        recordsParsed: summary.recordsParsed,
+        tracksResolved: summary.tracksResolved,
+        playsInserted: summary.importedPlays,
+        rejectedRows: summary.rejectedRows,
+        skippedPlays: summary.skippedPlays,
+        report: summary,
+        finishedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    const message = describeFileError(error);
+    if (!message) {
+      throw error;
+    }
+
+    await prisma.importFile.update({
+      where: { id: file.id },
+      data: { status: "failed", error: message, finishedAt: new Date() },
+    });
+  }
+}
+
+// Processes the staged files of a `json_upload` import run in upload order. Files left in
+// `processing` by a crashed attempt start over; inserts skip duplicates, so nothing is doubled.
+// Dry runs keep the staged files and stop at `previewed` until the run is committed. Once `signal`
+// aborts, the run is left as it is for the worker that took the job over.
+export async function runJsonImport(userId: string, importRunId: string, signal?: AbortSignal): Promise<void> {
+  const importRun = await prisma.importRun.findUniqueOrThrow({ where: { id: importRunId } });
+  const label = importRun.dryRun ? "JSON preview" : "JSON import";
+
+  try {
+    const verb = importRun.dryRun ? "Previewing" : "Importing";
+    const files = await prisma.importFile.findMany({
+      where: { importRunId, status: { in: ["pending", "processing"] } },
+      orderBy: [{ createdAt: "asc" }, { fileName: "asc" }],
+    });
+
+    await prisma.importRun.update({
+      where: { id: importRunId },
+      data: { status: "running", message: `${verb} ${files.length} file(s)...` },
+    });
+
+    for (const [index, file] of files.entries()) {
+      signal?.throwIfAborted();
+      await prisma.importRun.update({
+        where: { id: importRunId },
+        data: { message: `${verb} ${file.fileName} (${index + 1} of ${files.length})...` },
+      });
+
+      await importStagedFile(userId, importRunId, file, importRun.dryRun, signal);
+    }
+
+    const results = await prisma.importFile.findMany({ where: { importRunId } });
+    const importedFiles = results.filter((file) => file.status !== "skipped");
+    const skippedFiles = results.length - importedFiles.length;
+    const failedFiles = importedFiles.filter((file) => file.status === "failed").length;
+    const allFailed = importedFiles.length > 0 && failedFiles === importedFiles.length;
+    const report = mergeImportSummaries(
+      results.map(readFileReport).filter((summary): summary is JsonImportSummary => summary !== null),
+    );
+
+    if (importRun.dryRun && !allFailed) {
+      const details = [
+        `${report.importedPlays} new play events`,
+        `${report.duplicatePlays} already imported`,
+        `${report.unresolvedPlays} unresolved`,
+      ];
+      if (failedFiles > 0) {
+        details.push(`${failedFiles} of ${importedFiles.length} file(s) failed`);
+      }
+
+      await prisma.importRun.update({
+        where: { id: importRunId },
+        data: {
+          status: "previewed",
+          report,
+          message: `Preview ready (${details.join(", ")})`,
+          finishedAt: new Date(),
+        },
+      });
+      return;
+    }
+
+    // Several ZIP entries share one staged archive, so files are only removed once the run is done.
+    for (const storagePath of new Set(results.map((file) => file.storagePath))) {
+      await removeStagedFile(storagePath);
+    }
+
+    const importedPlays = results.reduce((sum, file) => sum + file.playsInserted, 0);
+    const importedTracks = results.reduce((sum, file) => sum + file.tracksResolved, 0);
+
+    const details = [`${importedPlays} play events`];
+    if (skippedFiles > 0) {
+      details.push(`${skippedFiles} file(s) skipped`);
+    }
+    if (failedFiles > 0) {
+      details.push(`${failedFiles} of ${importedFiles.length} file(s) failed`);
+    }
+
+    const completionMessage = `${label} ${failedFiles > 0 ? "finished" : "completed"} (${details.join(", ")})`;
+
+    if (!importRun.dryRun) {
+      await prisma.user.update({
+        where: { id: userId },
+        data: {
+          lastImportAt: new Date(),
+          lastImportStatus: completionMessage,
+        },
+      });
+    }
+
+    await prisma.importRun.update({
+      where: { id: importRunId },
+      data: {
+        status: allFailed ? "failed" : "completed",
+        importedPlays,
+        importedTracks,
+        report,
+        message: completionMessage,
+        finishedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
+
+    const message = error instanceof Error ? error.message : `${label} failed for an unknown reason`;
+
+    if (!importRun.dryRun) {
+      await prisma.user.update({
+        where: { id: userId },
+        data: {
+          lastImportStatus: `Import failed: ${message}`,
+        },
+      });
+    }
+
+    await prisma.importRun.update({
+      where: { id: importRunId },
+      data: {
+        status: "failed",
+        message,
+        finishedAt: new Date(),
+      },
+    });
+
+    throw error;
+  }
+}
@@ -0,0 +1,145 @@
+import { randomUUID } from "crypto";
+import { createReadStream, createWriteStream, type ReadStream } from "fs";
+import { appendFile, mkdir, rm, stat } from "fs/promises";
+import { dirname, join } from "path";
+import { createInterface } from "readline";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+
+import { getEnv } from "@/lib/env";
+import { prisma } from "@/lib/prisma";
+
+// Uploads split across requests stay in "staging" until the last one arrives; runs that received
+// no file for this long are treated as abandoned.
+const STAGING_RUN_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Uploads are written to IMPORT_STAGING_DIR so the worker can process them after the request
+// returns. The web app and the worker must see the same directory.
+export async function stageImportFile(
+  userId: string,
+  source: AsyncIterable<Uint8Array>,
+  extension = "json",
+): Promise<{ storagePath: string; sizeBytes: number }> {
+  const directory = join(getEnv().IMPORT_STAGING_DIR, userId);
+  await mkdir(directory, { recursive: true });
+
+  const storagePath = join(directory, `${randomUUID()}.${extension}`);
+
+  try {
+    await pipeline(Readable.from(source), createWriteStream(storagePath));
+  } catch (error) {
+    await removeStagedFile(storagePath);
+    throw error;
+  }
+
+  const { size } = await stat(storagePath);
+  return { storagePath, sizeBytes: size };
+}
+
+export function openStagedFile(storagePath: string): ReadStream {
+  return createReadStream(storagePath);
+}
+
+export async function removeStagedFile(storagePath: string): Promise<void> {
+  await rm(storagePath, { force: true });
+}
+
+// Discards a run still being uploaded and removes its staged files. Returns false when the run
+// has already left the "staging" status.
+export async function discardStagingRun(importRunId: string, message: string): Promise<boolean> {
+  const { count } = await prisma.importRun.updateMany({
+    where: { id: importRunId, status: "staging" },
+    data: { status: "discarded", message, finishedAt: new Date() },
+  });
+
+  if (count === 0) {
+    return false;
+  }
+
+  const files = await prisma.importFile.findMany({
+    where: { importRunId },
+    select: { storagePath: true },
+  });
+  for (const storagePath of new Set(files.map((file) => file.storagePath))) {
+    await removeStagedFile(storagePath);
+  }
+
+  return true;
+}
+
+export async function expireStaleStagingRuns(now = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - STAGING_RUN_TTL_MS);
+  const staleRuns = await prisma.importRun.findMany({
+    where: {
+      status: "staging",
+      startedAt: { lt: cutoff },
+      files: { none: { createdAt: { gte: cutoff } } },
+    },
+    select: { id: true },
+  });
+
+  let expired = 0;
+  for (const importRun of staleRuns) {
+    if (await discardStagingRun(importRun.id, "Upload expired before its last file arrived")) {
+      expired += 1;
+    }
+  }
+
+  return expired;
+}
+
+export type SpillFile<T> = {
+  append: (rows: T[]) => Promise<void>;
+  drain: (batchSize: number, handle: (rows: T[]) => Promise<void>) => Promise<void>;
+  remove: () => Promise<void>;
+};
+
+// Rows an import has to hold back until the whole upload is read go to disk as JSON lines, so
+// memory stays flat however many there are. The file is only created once something is spilled.
+export function createSpillFile<T>(): SpillFile<T> {
+  let storagePath: string | null = null;
+
+  return {
+    append: async (rows) => {
+      if (rows.length === 0) {
+        return;
+      }
+
+      if (!storagePath) {
+        storagePath = join(getEnv().IMPORT_STAGING_DIR, "spill", `${randomUUID()}.jsonl`);
+        await mkdir(dirname(storagePath), { recursive: true });
+      }
+
+      await appendFile(storagePath, rows.map((row) => `${JSON.stringify(row)}\n`).join(""));
+    },
+    drain: async (batchSize, handle) => {
+      if (!storagePath) {
+        return;
+      }
+
+      const lines = createInterface({ input: createReadStream(storagePath), crlfDelay: Infinity });
+      let batch: T[] = [];
+      for await (const line of lines) {
+        if (!line) {
+          continue;
+        }
+
+        batch.push(JSON.parse(line) as T);
+        if (batch.length >= batchSize) {
+          await handle(batch);
+          batch = [];
+        }
+      }
+
+      if (batch.length > 0) {
+        await handle(batch);
+      }
+    },
+    remove: async () => {
+      if (storagePath) {
+        await removeStagedFile(storagePath);
+        storagePath = null;
+      }
+    },
+  };
+}
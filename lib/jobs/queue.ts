@@ -0,0 +1,176 @@
+import type { ImportJob } from "@prisma/client";
+
+import { getEnv } from "@/lib/env";
+import { prisma } from "@/lib/prisma";
+
+export const IMPORT_JOB_TYPES = ["spotify-full", "recently-played", "json-import"] as const;
+
+export type ImportJobType = (typeof IMPORT_JOB_TYPES)[number];
+
+export const IMPORT_JOB_LEASE_MS = 2 * 60 * 1000;
+
+const ACTIVE_JOB_STATUSES = ["queued", "running"];
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// Raised inside a running import once another worker may have reclaimed its job.
+export class ImportLeaseLostError extends Error {
+  constructor(jobId: string) {
+    super(`Lease on import job ${jobId} was lost`);
+    this.name = "ImportLeaseLostError";
+  }
+}
+
+export function isImportJobType(value: string): value is ImportJobType {
+  return IMPORT_JOB_TYPES.some((type) => type === value);
+}
+
+export function computeRetryDelayMs(attempts: number): number {
+  return Math.min(MAX_RETRY_DELAY_MS, 2 ** Math.max(0, attempts - 1) * 60 * 1000);
+}
+
+export async function enqueueImportJob(input: {
+  userId: string;
+  type: ImportJobType;
+  importRunId?: string;
+  runAt?: Date;
+}): Promise<ImportJob> {
+  return prisma.importJob.create({
+    data: {
+      userId: input.userId,
+      type: input.type,
+      importRunId: input.importRunId ?? null,
+      runAt: input.runAt ?? new Date(),
+    },
+  });
+}
+
+export async function findActiveImportJob(
+  userId: string,
+  type: ImportJobType,
+): Promise<ImportJob | null> {
+  return prisma.importJob.findFirst({
+    where: {
+      userId,
+      type,
+      status: { in: ACTIVE_JOB_STATUSES },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+// Claims the next due job. Queued jobs are picked up once `runAt` has passed, and running jobs
+// whose lease expired (the worker died or lost its database connection) are taken over.
+// `SKIP LOCKED` lets several workers poll the same table without claiming the same row.
+export async function claimNextImportJob(workerId: string): Promise<ImportJob | null> {
+  const leaseExpiresAt = new Date(Date.now() + IMPORT_JOB_LEASE_MS);
+
+  const claimed = await prisma.$queryRaw<Array<{ id: string }>>`
+    UPDATE import_jobs
+    SET status = 'running',
+        attempts = attempts + 1,
+        lease_owner = ${workerId},
+        lease_expires_at = ${leaseExpiresAt},
+        heartbeat_at = now(),
+        updated_at = now()
+    WHERE id = (
+      SELECT id FROM import_jobs
+      WHERE (status = 'queued' AND run_at <= now())
+         OR (status = 'running' AND lease_expires_at < now())
+      ORDER BY run_at ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id
+  `;
+
+  const jobId = claimed[0]?.id;
+  if (!jobId) {
+    return null;
+  }
+
+  return prisma.importJob.findUnique({ where: { id: jobId } });
+}
+
+export async function heartbeatImportJob(jobId: string, workerId: string): Promise<boolean> {
+  const now = new Date();
+  const updated = await prisma.importJob.updateMany({
+    where: { id: jobId, leaseOwner: workerId, status: "running" },
+    data: {
+      heartbeatAt: now,
+      leaseExpiresAt: new Date(now.getTime() + IMPORT_JOB_LEASE_MS),
+    },
+  });
+
+  return updated.count > 0;
+}
+
+export async function completeImportJob(jobId: string, workerId: string): Promise<void> {
+  await prisma.importJob.updateMany({
+    where: { id: jobId, leaseOwner: workerId },
+    data: {
+      status: "completed",
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      lastError: null,
+      finishedAt: new Date(),
+    },
+  });
+}
+
+// Records a failed attempt. The job goes back to the queue with exponential backoff until it
+// has used up `maxAttempts`, after which it stays failed.
+export async function failImportJob(
+  job: ImportJob,
+  workerId: string,
+  message: string,
+): Promise<{ retryAt: Date | null }> {
+  const exhausted = job.attempts >= job.maxAttempts;
+  const retryAt = exhausted ? null : new Date(Date.now() + computeRetryDelayMs(job.attempts));
+
+  await prisma.importJob.updateMany({
+    where: { id: job.id, leaseOwner: workerId },
+    data: {
+      status: exhausted ? "failed" : "queued",
+      runAt: retryAt ?? job.runAt,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      lastError: message,
+      finishedAt: exhausted ? new Date() : null,
+    },
+  });
+
+  return { retryAt };
+}
+
+// Spotify only returns the last 50 plays, so every connected user gets a recurring
+// `recently-played` job. A new one is queued whenever the user has none pending, due one sync
+// interval after their last import.
+export async function scheduleRecurringImports(now = new Date()): Promise<number> {
+  const env = getEnv();
+  const intervalMs = env.IMPORT_SYNC_INTERVAL_MINUTES * 60 * 1000;
+
+  const users = await prisma.user.findMany({
+    where: {
+      tokens: { some: {} },
+      importJobs: {
+        none: {
+          type: "recently-played",
+          status: { in: ACTIVE_JOB_STATUSES },
+        },
+      },
+    },
+    select: { id: true, lastImportAt: true },
+  });
+
+  for (const user of users) {
+    const dueAt = user.lastImportAt ? user.lastImportAt.getTime() + intervalMs : now.getTime();
+
+    await enqueueImportJob({
+      userId: user.id,
+      type: "recently-played",
+      runAt: new Date(Math.max(now.getTime(), dueAt)),
+    });
+  }
+
+  return users.length;
+}
@@ -0,0 +1,227 @@
+import { randomBytes } from "crypto";
+import { hostname } from "os";
+import type { ImportJob } from "@prisma/client";
+
+import { rebuildPendingListeningRollups } from "@/lib/analytics/rollups";
+import { getEnv } from "@/lib/env";
+import { runJsonImport } from "@/lib/import/runner";
+import { expireStaleStagingRuns } from "@/lib/import/staging";
+import {
+  claimNextImportJob,
+  completeImportJob,
+  failImportJob,
+  heartbeatImportJob,
+  IMPORT_JOB_LEASE_MS,
+  ImportLeaseLostError,
+  isImportJobType,
+  scheduleRecurringImports,
+} from "@/lib/jobs/queue";
+import { prisma } from "@/lib/prisma";
+import { isArtistSimilarityStale, rebuildArtistSimilarities } from "@/lib/recommendations/collaborative";
+import { trackPendingRecommendationOutcomes } from "@/lib/recommendations/outcomes";
+import { runSpotifyImport } from "@/lib/spotify/importer";
+
+const SCHEDULE_INTERVAL_MS = 60 * 1000;
+const HEARTBEAT_INTERVAL_MS = IMPORT_JOB_LEASE_MS / 4;
+
+// Resolves early once `signal` aborts, so a stopping worker does not wait out the interval.
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timeout = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timeout);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+async function ensureImportRun(job: ImportJob): Promise<string> {
+  if (job.importRunId) {
+    return job.importRunId;
+  }
+
+  const importRun = await prisma.importRun.create({
+    data: {
+      userId: job.userId,
+      status: "queued",
+      message: "Scheduled sync queued",
+    },
+  });
+
+  await prisma.importJob.update({
+    where: { id: job.id },
+    data: { importRunId: importRun.id },
+  });
+
+  return importRun.id;
+}
+
+async function executeImportJob(job: ImportJob, importRunId: string, signal: AbortSignal): Promise<void> {
+  if (!isImportJobType(job.type)) {
+    throw new Error(`Unknown import job type: ${job.type}`);
+  }
+
+  switch (job.type) {
+    case "spotify-full":
+      await runSpotifyImport(job.userId, importRunId, "full", signal);
+      return;
+    case "recently-played":
+      await runSpotifyImport(job.userId, importRunId, "recently-played", signal);
+      return;
+    case "json-import":
+      await runJsonImport(job.userId, importRunId, signal);
+      return;
+  }
+}
+
+export async function processImportJob(job: ImportJob, workerId: string): Promise<void> {
+  if (job.attempts > job.maxAttempts) {
+    // Jobs reclaimed after lease expiry still count an attempt; stop once the budget is spent.
+    const message = "Import job exceeded its retry limit";
+    await failImportJob(job, workerId, message);
+
+    if (job.importRunId) {
+      await prisma.importRun.update({
+        where: { id: job.importRunId },
+        data: { status: "failed", message, finishedAt: new Date() },
+      });
+    }
+    return;
+  }
+
+  // Once the lease is lost another worker may run the job, so this one stops at its next check.
+  const leaseController = new AbortController();
+  const heartbeat = setInterval(() => {
+    void heartbeatImportJob(job.id, workerId)
+      .then((held) => {
+        if (!held) {
+          leaseController.abort(new ImportLeaseLostError(job.id));
+        }
+      })
+      .catch((error) => {
+        console.warn(`[Import worker] Heartbeat failed for job ${job.id}`, error);
+      });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  let importRunId = job.importRunId;
+
+  try {
+    importRunId = await ensureImportRun(job);
+    await executeImportJob(job, importRunId, leaseController.signal);
+    await completeImportJob(job.id, workerId);
+  } catch (error) {
+    if (leaseController.signal.aborted) {
+      // The job and its run now belong to whichever worker holds the lease.
+      console.warn(`[Import worker] Stopped job ${job.id} (${job.type}) after losing its lease`);
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : "Import job failed";
+    const { retryAt } = await failImportJob(job, workerId, message);
+
+    if (retryAt && importRunId) {
+      await prisma.importRun.update({
+        where: { id: importRunId },
+        data: {
+          status: "queued",
+          message: `${message}. Retrying at ${retryAt.toISOString()}`,
+          finishedAt: null,
+        },
+      });
+    }
+
+    console.error(`[Import worker] Job ${job.id} (${job.type}) failed`, error);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+async function runMaintenance(): Promise<void> {
+  try {
+    const scheduled = await scheduleRecurringImports();
+    if (scheduled > 0) {
+      console.info(`[Import worker] Scheduled ${scheduled} recently-played sync(s)`);
+    }
+  } catch (error) {
+    console.error("[Import worker] Scheduling recurring imports failed", error);
+  }
+
+  try {
+    const expired = await expireStaleStagingRuns();
+    if (expired > 0) {
+      console.info(`[Import worker] Discarded ${expired} abandoned upload(s)`);
+    }
+  } catch (error) {
+    console.error("[Import worker] Expiring abandoned uploads failed", error);
+  }
+
+  try {
+    const rebuilt = await rebuildPendingListeningRollups();
+    if (rebuilt > 0) {
+      console.info(`[Import worker] Rebuilt listening rollups for ${rebuilt} user(s)`);
+    }
+  } catch (error) {
+    console.error("[Import worker] Rebuilding listening rollups failed", error);
+  }
+
+  try {
+    const tracked = await trackPendingRecommendationOutcomes();
+    if (tracked > 0) {
+      console.info(`[Import worker] Tracked recommendation outcomes for ${tracked} daily run(s)`);
+    }
+  } catch (error) {
+    console.error("[Import worker] Tracking recommendation outcomes failed", error);
+  }
+
+  try {
+    if (await isArtistSimilarityStale()) {
+      const pairs = await rebuildArtistSimilarities();
+      console.info(`[Import worker] Rebuilt collaborative filtering model with ${pairs} artist pair(s)`);
+    }
+  } catch (error) {
+    console.error("[Import worker] Rebuilding collaborative filtering model failed", error);
+  }
+}
+
+// Scheduling and the rebuilds can take minutes, so they run on their own timer next to the job
+// loop instead of delaying the next claim.
+async function runMaintenanceLoop(signal?: AbortSignal): Promise<void> {
+  while (!signal?.aborted) {
+    await runMaintenance();
+    await sleep(SCHEDULE_INTERVAL_MS, signal);
+  }
+}
+
+export async function runImportWorker(options: { signal?: AbortSignal } = {}): Promise<void> {
+  const env = getEnv();
+  const workerId = `${hostname()}:${process.pid}:${randomBytes(4).toString("hex")}`;
+
+  console.info(`[Import worker] ${workerId} started`);
+
+  const maintenance = runMaintenanceLoop(options.signal);
+
+  while (!options.signal?.aborted) {
+    let job: ImportJob | null = null;
+    try {
+      job = await claimNextImportJob(workerId);
+    } catch (error) {
+      console.error("[Import worker] Claiming next job failed", error);
+    }
+
+    if (!job) {
+      await sleep(env.IMPORT_WORKER_POLL_MS, options.signal);
+      continue;
+    }
+
+    try {
+      await processImportJob(job, workerId);
+    } catch (error) {
+      console.error(`[Import worker] Processing job ${job.id} failed`, error);
+    }
+  }
+
+  await maintenance;
+  console.info(`[Import worker] ${workerId} stopped`);
+}
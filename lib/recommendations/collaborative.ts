@@ -0,0 +1,102 @@
+import { prisma } from "@/lib/prisma";
+
+// A user counts as a listener of an artist after this many plays of them.
+export const MIN_ARTIST_PLAYS = 3;
+// Artist pairs shared by fewer opted-in listeners are dropped, so no pair points at one person.
+export const MIN_SHARED_LISTENERS = 3;
+// Each listener contributes their most played artists only, which bounds the pairs per listener.
+const TOP_ARTISTS_PER_LISTENER = 200;
+const SIMILAR_ARTISTS_PER_ARTIST = 25;
+export const ARTIST_SIMILARITY_REBUILD_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const ARTIST_SIMILARITY_BUILD_ID = 1;
+
+// Rebuilds the model from the play events of opted-in users. Scores are the cosine similarity of
+// the artists' listener sets; only pair counts are stored. The build is stamped with its start, so
+// opt-in changes made while it runs trigger another one.
+export async function rebuildArtistSimilarities(): Promise<number> {
+  const builtAt = new Date();
+
+  const [, inserted] = await prisma.$transaction([
+    prisma.artistSimilarity.deleteMany(),
+    prisma.$executeRaw`
+      WITH user_artists AS (
+        SELECT user_id, artist_id
+        FROM (
+          SELECT
+            pe.user_id,
+            artist_id,
+            row_number() OVER (PARTITION BY pe.user_id ORDER BY count(*) DESC, artist_id) AS artist_rank
+          FROM play_events pe
+          JOIN users u ON u.id = pe.user_id AND u.collaborative_recs
+          JOIN tracks t ON t.id = pe.track_id
+          CROSS JOIN LATERAL unnest(t.artist_ids) AS artist_id
+          GROUP BY pe.user_id, artist_id
+          HAVING count(*) >= ${MIN_ARTIST_PLAYS}
+        ) ranked
+        WHERE artist_rank <= ${TOP_ARTISTS_PER_LISTENER}
+      ),
+      artist_listeners AS (
+        SELECT artist_id, count(*) AS listeners
+        FROM user_artists
+        GROUP BY artist_id
+        HAVING count(*) >= ${MIN_SHARED_LISTENERS}
+      ),
+      pairs AS (
+        SELECT a.artist_id, b.artist_id AS similar_artist_id, count(*) AS listeners
+        FROM user_artists a
+        JOIN user_artists b ON b.user_id = a.user_id AND b.artist_id <> a.artist_id
+        WHERE a.artist_id IN (SELECT artist_id FROM artist_listeners)
+          AND b.artist_id IN (SELECT artist_id FROM artist_listeners)
+        GROUP BY a.artist_id, b.artist_id
+        HAVING count(*) >= ${MIN_SHARED_LISTENERS}
+      ),
+      scored AS (
+        SELECT
+          p.artist_id,
+          p.similar_artist_id,
+          p.listeners,
+          p.listeners / sqrt(la.listeners * lb.listeners) AS score
+        FROM pairs p
+        JOIN artist_listeners la ON la.artist_id = p.artist_id
+        JOIN artist_listeners lb ON lb.artist_id = p.similar_artist_id
+      )
+      INSERT INTO artist_similarities (artist_id, similar_artist_id, listeners, score, built_at)
+      SELECT artist_id, similar_artist_id, listeners::int, score::float8, ${builtAt}
+      FROM (
+        SELECT
+          scored.*,
+          row_number() OVER (PARTITION BY artist_id ORDER BY score DESC, similar_artist_id) AS similar_rank
+        FROM scored
+      ) ranked
+      WHERE similar_rank <= ${SIMILAR_ARTISTS_PER_ARTIST}
+    `,
+    prisma.artistSimilarityBuild.upsert({
+      where: { id: ARTIST_SIMILARITY_BUILD_ID },
+      create: { id: ARTIST_SIMILARITY_BUILD_ID, builtAt },
+      update: { builtAt },
+    }),
+  ]);
+
+  return inserted;
+}
+
+// The model is stale once the rebuild interval has passed or someone changed their opt-in since.
+export async function isArtistSimilarityStale(now = new Date()): Promise<boolean> {
+  const build = await prisma.artistSimilarityBuild.findUnique({ where: { id: ARTIST_SIMILARITY_BUILD_ID } });
+  if (!build || now.getTime() - build.builtAt.getTime() >= ARTIST_SIMILARITY_REBUILD_INTERVAL_MS) {
+    return true;
+  }
+
+  const changed = await prisma.user.count({
+    where: { optInChangedAt: { gt: build.builtAt } },
+  });
+
+  return changed > 0;
+}
+
+export async function setCollaborativeRecs(userId: string, enabled: boolean): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { collaborativeRecs: enabled, optInChangedAt: new Date() },
+  });
+}
@@ -1,15 +1,31 @@
+import { Prisma } from "@prisma/client";
+
 import { aggregateForRange } from "@/lib/analytics/service";
-import type { TimeRange } from "@/lib/date-range";
+import { DEFAULT_TIME_ZONE, type TimeRange, toDateKey } from "@/lib/date-range";
 import { prisma } from "@/lib/prisma";
-import { SpotifyApiError, spotifyRequest } from "@/lib/spotify/client";
-import type {
-  SpotifyArtistsResponse,
-  SpotifyAudioFeaturesResponse,
-  SpotifyRecommendationGenreSeedsResponse,
-  SpotifyRecommendationsResponse,
-  SpotifySearchTracksResponse,
-  SpotifyTrack,
-} from "@/lib/spotify/types";
+import { trackRecommendationOutcomes } from "@/lib/recommendations/outcomes";
+import {
+  buildFeedbackSignals,
+  type FeedbackSignals,
+  feedbackKey,
+  feedbackPenalty,
+  isRecFeedbackKind,
+  LIKED_PROFILE_WEIGHT,
+  type RecFeedbackEntry,
+  type RecFeedbackKind,
+  type RecItemType,
+} from "@/lib/recommendations/feedback";
+import {
+  DEFAULT_REC_PREFERENCES,
+  isTasteWindow,
+  matchesRecPreferences,
+  noveltyWeights,
+  type RecPreferences,
+  tasteWindowStart,
+} from "@/lib/recommendations/preferences";
+import { collectRecommendationCandidates, type RecommendationCandidate } from "@/lib/recommendations/providers";
+import type { SpotifyTrack } from "@/lib/spotify/types";
+import { dedupeStrings } from "@/lib/utils";
 
 export type TasteProfile = {
   energy: number;
@@ -28,6 +44,14 @@ export type DailyTrackRec = {
   previewUrl: string | null;
   score: number;
   reason: string;
+  // The fields below are missing on runs generated before recommendation feedback existed.
+  // `strategy` is the candidate provider strategy that produced the item (e.g. "tracks-only",
+  // "search" or "local:session-artists").
+  strategy?: string;
+  artistIds?: string[];
+  genres?: string[];
+  features?: TasteProfile | null;
+  feedback?: RecFeedbackKind | null;
 };
 
 export type DailyAlbumRec = {
@@ -37,6 +61,11 @@ export type DailyAlbumRec = {
   imageUrl: string | null;
   score: number;
   reason: string;
+  strategy?: string;
+  artistIds?: string[];
+  genres?: string[];
+  features?: TasteProfile | null;
+  feedback?: RecFeedbackKind | null;
 };
 
 export type DailyRecommendations = {
@@ -53,7 +82,10 @@ type CandidateWithScore = {
 };
 
 const REGENERATE_COOLDOWN_MS = 60 * 60 * 1000;
-const MAX_SEEDS_PER_REQUEST = 5;
+// Feedback can be given on items of this many of the latest daily runs.
+const FEEDBACK_RUN_LOOKBACK = 14;
+// Score added to a candidate at full similarity in the collaborative filtering model.
+const COLLABORATIVE_WEIGHT = 0.1;
 
 type ListenedSeedRow = {
   trackId: string;
@@ -63,19 +95,9 @@ type ListenedSeedRow = {
   };
 };
 
-type SeedRequest = {
-  seedTracks: string[];
-  seedArtists: string[];
-  seedGenres: string[];
-  label: string;
-};
-
-const SPOTIFY_ENTITY_ID_REGEX = /^[A-Za-z0-9]{22}$/;
-
-function dateOnlyUtc(input: Date): Date {
-  const copy = new Date(input);
-  copy.setUTCHours(0, 0, 0, 0);
-  return copy;
+// Daily runs are keyed by the user's calendar day, stored as that date at UTC midnight.
+function todayKeyDate(timeZone: string): Date {
+  return new Date(`${toDateKey(new Date(), timeZone)}T00:00:00Z`);
 }
 
 export function filterNewToMeTracks(
@@ -100,11 +122,17 @@ export function rankRecommendationCandidates(
     track: SpotifyTrack;
     features: TasteProfile | null;
     candidateGenres: string[];
+    // Similarity from the collaborative filtering model, between 0 and 1.
+    collaborativeScore?: number;
   }>,
   profile: TasteProfile,
   knownArtistIds: Set<string>,
   knownGenres: Set<string>,
+  feedback: FeedbackSignals = buildFeedbackSignals([]),
+  novelty: number = DEFAULT_REC_PREFERENCES.novelty,
 ): CandidateWithScore[] {
+  const weights = noveltyWeights(novelty);
+
   return candidates
     .map((candidate) => {
       const featureVector = candidate.features ?? {
@@ -114,34 +142,49 @@ export function rankRecommendationCandidates(
         tempo: 120,
       };
 
-      const similarity = 1 - distance(profile, featureVector) / 4;
-      const hasNewArtist = candidate.track.artists.every((artist) => !knownArtistIds.has(artist.id));
+      const profileSimilarity = 1 - distance(profile, featureVector) / 4;
+      const similarity = feedback.likedProfile
+        ? (1 - LIKED_PROFILE_WEIGHT) * profileSimilarity +
+          LIKED_PROFILE_WEIGHT * (1 - distance(feedback.likedProfile, featureVector) / 4)
+        : profileSimilarity;
+      const hasNewArtist = candidate.track.artists.every(
+        (artist) => !knownArtistIds.has(artist.id) && !feedback.knownArtistIds.has(artist.id),
+      );
       const hasNewGenre = candidate.candidateGenres.some((genre) => !knownGenres.has(genre));
 
-      const noveltyBoost = (hasNewArtist ? 0.07 : 0) + (hasNewGenre ? 0.04 : 0);
+      const noveltyBoost =
+        (hasNewArtist ? weights.newArtist : weights.knownArtist) + (hasNewGenre ? weights.newGenre : 0);
+      const collaborativeBoost = COLLABORATIVE_WEIGHT * (candidate.collaborativeScore ?? 0);
+      const penalty = feedbackPenalty(candidate.track, candidate.candidateGenres, feedback);
 
       return {
         track: candidate.track,
-        score: Number((similarity + noveltyBoost).toFixed(4)),
+        score: Number((similarity + noveltyBoost + collaborativeBoost - penalty).toFixed(4)),
       };
     })
     .sort((a, b) => b.score - a.score);
 }
 
-async function getTasteSeedData(userId: string): Promise<{
+async function getTasteSeedData(
+  userId: string,
+  preferences: RecPreferences,
+  excludedArtistIds: Set<string>,
+): Promise<{
   profile: TasteProfile;
   seedTrackIds: string[];
   seedArtistIds: string[];
   seedArtistNames: string[];
   seedGenres: string[];
 }> {
-  const allTimeRange: TimeRange = {
-    from: new Date(0),
+  const tasteRange: TimeRange = {
+    from: tasteWindowStart(preferences.tasteWindow),
     to: new Date(),
-    preset: "all",
+    preset: preferences.tasteWindow === "all" ? "all" : "custom",
   };
 
-  const agg = await aggregateForRange(userId, allTimeRange);
+  const agg = await aggregateForRange(userId, tasteRange);
+  const excludedGenres = new Set(preferences.excludedGenres.map((genre) => genre.toLowerCase()));
+  const seedArtists = agg.artists.filter((row) => !excludedArtistIds.has(row.id));
 
   const profile: TasteProfile = {
     energy: agg.featureAverages.energy || 0.5,
@@ -153,270 +196,16 @@ async function getTasteSeedData(userId: string): Promise<{
   return {
     profile,
     seedTrackIds: agg.songs.slice(0, 3).map((row) => row.id),
-    seedArtistIds: agg.artists.slice(0, 3).map((row) => row.id),
-    seedArtistNames: agg.artists.slice(0, 5).map((row) => row.name),
+    seedArtistIds: seedArtists.slice(0, 3).map((row) => row.id),
+    seedArtistNames: seedArtists.slice(0, 5).map((row) => row.name),
     seedGenres: agg.genres
+      .filter((row) => !excludedGenres.has(row.name.toLowerCase()))
       .slice(0, 5)
       .map((row) => row.name)
       .filter((genre) => genre !== "Unknown"),
   };
 }
 
-function dedupeStrings(values: string[]): string[] {
-  const deduped: string[] = [];
-  const seen = new Set<string>();
-
-  for (const value of values) {
-    const normalized = value.trim();
-    if (!normalized || seen.has(normalized)) {
-      continue;
-    }
-
-    seen.add(normalized);
-    deduped.push(normalized);
-  }
-
-  return deduped;
-}
-
-function dedupeTracksById(tracks: SpotifyTrack[]): SpotifyTrack[] {
-  const map = new Map<string, SpotifyTrack>();
-  for (const track of tracks) {
-    map.set(track.id, track);
-  }
-  return [...map.values()];
-}
-
-function isSpotifyEntityId(value: string): boolean {
-  return SPOTIFY_ENTITY_ID_REGEX.test(value);
-}
-
-function clampNumber(value: number, min: number, max: number, fallback: number): number {
-  const finiteValue = Number.isFinite(value) ? value : fallback;
-  if (finiteValue < min) {
-    return min;
-  }
-
-  if (finiteValue > max) {
-    return max;
-  }
-
-  return finiteValue;
-}
-
-function sanitizeGenreToken(input: string): string {
-  return input
-    .trim()
-    .toLowerCase()
-    .replace(/&/g, " and ")
-    .replace(/[^\p{L}\p{N}\s-]+/gu, " ")
-    .replace(/\s+/g, " ")
-    .trim();
-}
-
-function toGenreSeedCandidates(input: string): string[] {
-  const normalized = sanitizeGenreToken(input);
-  if (!normalized) {
-    return [];
-  }
-
-  const collapsed = normalized.replace(/\s+/g, "-");
-  const aliasCandidates: Record<string, string> = {
-    "hip hop": "hip-hop",
-    "hip-hop": "hip-hop",
-    "r and b": "r-n-b",
-    "rnb": "r-n-b",
-    "drum and bass": "drum-and-bass",
-    "k pop": "k-pop",
-  };
-
-  return dedupeStrings([normalized, collapsed, aliasCandidates[normalized] ?? ""]);
-}
-
-function clampSeedsToSpotifyLimit(seedRequest: SeedRequest): SeedRequest {
-  const tracks = seedRequest.seedTracks.slice(0, 2);
-  const artists = seedRequest.seedArtists.slice(0, 2);
-  const remaining = MAX_SEEDS_PER_REQUEST - tracks.length - artists.length;
-  const genres = remaining > 0 ? seedRequest.seedGenres.slice(0, remaining) : [];
-
-  return {
-    seedTracks: tracks,
-    seedArtists: artists,
-    seedGenres: genres,
-    label: seedRequest.label,
-  };
-}
-
-function hasAtLeastOneSeed(seedRequest: SeedRequest): boolean {
-  return seedRequest.seedTracks.length + seedRequest.seedArtists.length + seedRequest.seedGenres.length > 0;
-}
-
-function buildSeedStrategyKey(seedRequest: SeedRequest): string {
-  return [
-    seedRequest.seedTracks.join(","),
-    seedRequest.seedArtists.join(","),
-    seedRequest.seedGenres.join(","),
-  ].join("|");
-}
-
-function buildRecommendationRequestParams(profile: TasteProfile, seedRequest: SeedRequest): URLSearchParams {
-  const normalizedProfile = {
-    energy: clampNumber(profile.energy, 0, 1, 0.5),
-    danceability: clampNumber(profile.danceability, 0, 1, 0.5),
-    valence: clampNumber(profile.valence, 0, 1, 0.5),
-    tempo: clampNumber(profile.tempo, 0, 250, 120),
-  };
-
-  const params = new URLSearchParams({
-    limit: "100",
-    target_energy: String(normalizedProfile.energy),
-    target_danceability: String(normalizedProfile.danceability),
-    target_valence: String(normalizedProfile.valence),
-    target_tempo: String(normalizedProfile.tempo),
-  });
-
-  if (seedRequest.seedTracks.length > 0) {
-    params.set("seed_tracks", seedRequest.seedTracks.join(","));
-  }
-
-  if (seedRequest.seedArtists.length > 0) {
-    params.set("seed_artists", seedRequest.seedArtists.join(","));
-  }
-
-  if (seedRequest.seedGenres.length > 0) {
-    params.set("seed_genres", seedRequest.seedGenres.join(","));
-  }
-
-  return params;
-}
-
-async function getAvailableGenreSeeds(userId: string): Promise<Set<string>> {
-  const response = await spotifyRequest<SpotifyRecommendationGenreSeedsResponse>(
-    userId,
-    "/recommendations/available-genre-seeds",
-    undefined,
-    { maxRetries: 3 },
-  );
-
-  return new Set(response.genres.map((genre) => genre.toLowerCase()));
-}
-
-function filterSupportedGenres(candidateGenres: string[], availableGenres: Set<string>): string[] {
-  const accepted: string[] = [];
-  const seen = new Set<string>();
-
-  for (const genre of candidateGenres) {
-    const alternatives = toGenreSeedCandidates(genre);
-    const match = alternatives.find((candidate) => availableGenres.has(candidate));
-    if (!match || seen.has(match)) {
-      continue;
-    }
-
-    seen.add(match);
-    accepted.push(match);
-  }
-
-  return accepted;
-}
-
-function buildSearchTrackQuery(input: { artistName?: string; genre?: string; year?: number }): string {
-  const parts: string[] = [];
-
-  if (input.artistName) {
-    parts.push(`artist:"${input.artistName}"`);
-  }
-
-  if (input.genre) {
-    parts.push(`genre:"${input.genre}"`);
-  }
-
-  if (input.year) {
-    parts.push(`year:${input.year}`);
-  }
-
-  if (parts.length === 0) {
-    return "";
-  }
-
-  return parts.join(" ");
-}
-
-async function searchTracks(userId: string, query: string, limit = 20): Promise<SpotifyTrack[]> {
-  if (!query.trim()) {
-    return [];
-  }
-
-  const params = new URLSearchParams({
-    q: query,
-    type: "track",
-    limit: String(limit),
-    market: "US",
-  });
-
-  const response = await spotifyRequest<SpotifySearchTracksResponse>(
-    userId,
-    `/search?${params.toString()}`,
-    undefined,
-    { maxRetries: 3 },
-  );
-
-  return response.tracks.items ?? [];
-}
-
-async function fetchFallbackSearchCandidates(
-  userId: string,
-  seedArtistNames: string[],
-  seedGenres: string[],
-): Promise<SpotifyTrack[]> {
-  const tracks: SpotifyTrack[] = [];
-
-  const safeArtistNames = dedupeStrings(seedArtistNames).slice(0, 4);
-  for (const artistName of safeArtistNames) {
-    try {
-      const query = buildSearchTrackQuery({ artistName });
-      tracks.push(...(await searchTracks(userId, query, 20)));
-    } catch (error) {
-      if (error instanceof SpotifyApiError && error.status >= 400 && error.status < 500) {
-        continue;
-      }
-
-      throw error;
-    }
-  }
-
-  const safeGenres = dedupeStrings(seedGenres).slice(0, 4);
-  for (const genre of safeGenres) {
-    try {
-      const query = buildSearchTrackQuery({ genre });
-      tracks.push(...(await searchTracks(userId, query, 20)));
-    } catch (error) {
-      if (error instanceof SpotifyApiError && error.status >= 400 && error.status < 500) {
-        continue;
-      }
-
-      throw error;
-    }
-  }
-
-  if (tracks.length === 0) {
-    const currentYear = new Date().getFullYear();
-    for (const year of [currentYear, currentYear - 1]) {
-      try {
-        const query = buildSearchTrackQuery({ year });
-        tracks.push(...(await searchTracks(userId, query, 25)));
-      } catch (error) {
-        if (error instanceof SpotifyApiError && error.status >= 400 && error.status < 500) {
-          continue;
-        }
-
-        throw error;
-      }
-    }
-  }
-
-  return dedupeTracksById(tracks);
-}
-
 function topValuesByFrequency(values: string[], maxSize: number): string[] {
   const counts = new Map<string, number>();
   for (const value of values) {
@@ -458,208 +247,24 @@ async function getFallbackGenresFromArtists(artistIds: string[]): Promise<string
   );
 }
 
-async function fetchRecommendationCandidates(
-  userId: string,
-  profile: TasteProfile,
-  seedTracks: string[],
-  seedArtists: string[],
-  seedArtistNames: string[],
-  seedGenres: string[],
-): Promise<SpotifyTrack[]> {
-  const seedTrackIds = dedupeStrings(seedTracks)
-    .filter((seedId) => isSpotifyEntityId(seedId))
-    .slice(0, MAX_SEEDS_PER_REQUEST);
-  const seedArtistIds = dedupeStrings(seedArtists)
-    .filter((seedId) => isSpotifyEntityId(seedId))
-    .slice(0, MAX_SEEDS_PER_REQUEST);
-
-  if (seedTrackIds.length + seedArtistIds.length === 0 && seedGenres.length === 0) {
-    throw new Error("Not enough listening data to generate recommendations yet.");
-  }
-
-  let availableGenres = new Set<string>();
-  try {
-    availableGenres = await getAvailableGenreSeeds(userId);
-  } catch (error) {
-    if (!(error instanceof SpotifyApiError)) {
-      throw error;
-    }
-
-    if (error.status === 401 || error.status >= 500) {
-      throw error;
-    }
-  }
-
-  const supportedSeedGenres = filterSupportedGenres(seedGenres, availableGenres).slice(
-    0,
-    MAX_SEEDS_PER_REQUEST,
-  );
-
-  const requestedStrategies: SeedRequest[] = [
-    {
-      seedTracks: seedTrackIds,
-      seedArtists: seedArtistIds,
-      seedGenres: supportedSeedGenres,
-      label: "tracks+artists+genres",
-    },
-    {
-      seedTracks: seedTrackIds,
-      seedArtists: seedArtistIds,
-      seedGenres: [],
-      label: "tracks+artists",
-    },
-    {
-      seedTracks: seedTrackIds,
-      seedArtists: [],
-      seedGenres: [],
-      label: "tracks-only",
-    },
-    {
-      seedTracks: [],
-      seedArtists: seedArtistIds,
-      seedGenres: [],
-      label: "artists-only",
-    },
-  ];
-
-  const strategies: SeedRequest[] = [];
-  const strategyKeys = new Set<string>();
-  for (const strategy of requestedStrategies) {
-    const constrained = clampSeedsToSpotifyLimit(strategy);
-    if (!hasAtLeastOneSeed(constrained)) {
-      continue;
-    }
-
-    const key = buildSeedStrategyKey(constrained);
-    if (strategyKeys.has(key)) {
-      continue;
-    }
-
-    strategyKeys.add(key);
-    strategies.push(constrained);
-  }
-
-  if (strategies.length === 0) {
-    throw new Error("Not enough listening data to generate recommendations yet.");
-  }
-
-  let lastClientError: SpotifyApiError | null = null;
-
-  for (const strategy of strategies) {
-    const params = buildRecommendationRequestParams(profile, strategy);
-
-    try {
-      const response = await spotifyRequest<SpotifyRecommendationsResponse>(
-        userId,
-        `/recommendations?${params.toString()}`,
-        undefined,
-        { maxRetries: 5 },
-      );
-
-      if (response.tracks.length > 0) {
-        return response.tracks;
-      }
-    } catch (error) {
-      if (error instanceof SpotifyApiError && error.status >= 400 && error.status < 500) {
-        lastClientError = error;
-        continue;
-      }
-
-      throw error;
-    }
-  }
-
-  const fallbackTracks = await fetchFallbackSearchCandidates(userId, seedArtistNames, seedGenres);
-  if (fallbackTracks.length > 0) {
-    return fallbackTracks;
-  }
-
-  if (lastClientError) {
-    throw new Error("Spotify could not generate recommendations from available seed combinations.");
-  }
-
-  throw new Error("Spotify returned no recommendation candidates for your profile.");
-}
-
-async function getAudioFeatureMap(
-  userId: string,
-  trackIds: string[],
-): Promise<Map<string, TasteProfile>> {
-  const featureMap = new Map<string, TasteProfile>();
-
-  if (trackIds.length === 0) {
-    return featureMap;
-  }
-
-  const payload = await spotifyRequest<SpotifyAudioFeaturesResponse>(
-    userId,
-    `/audio-features?ids=${trackIds.join(",")}`,
-    undefined,
-    {
-      maxRetries: 5,
-    },
-  );
-
-  for (const feature of payload.audio_features) {
-    if (!feature) {
-      continue;
-    }
-
-    featureMap.set(feature.id, {
-      energy: feature.energy,
-      danceability: feature.danceability,
-      valence: feature.valence,
-      tempo: feature.tempo,
-    });
-  }
-
-  return featureMap;
-}
-
-async function getArtistGenres(
-  userId: string,
-  artistIds: string[],
-): Promise<Map<string, string[]>> {
-  const map = new Map<string, string[]>();
-  if (artistIds.length === 0) {
-    return map;
-  }
-
-  const chunkSize = 50;
-  for (let i = 0; i < artistIds.length; i += chunkSize) {
-    const ids = artistIds.slice(i, i + chunkSize);
-    const payload = await spotifyRequest<SpotifyArtistsResponse>(
-      userId,
-      `/artists?ids=${ids.join(",")}`,
-      undefined,
-      { maxRetries: 5 },
-    );
-
-    for (const artist of payload.artists) {
-      map.set(artist.id, artist.genres ?? []);
-    }
-  }
-
-  return map;
-}
-
 function reasonForTrack(
   track: SpotifyTrack,
+  candidate: RecommendationCandidate | undefined,
   knownArtistIds: Set<string>,
   seedGenres: string[],
-  artistGenres: Map<string, string[]>,
 ): string {
   const knownArtist = track.artists.find((artist) => knownArtistIds.has(artist.id));
   if (knownArtist) {
     return `Because you like ${knownArtist.name}`;
   }
 
-  for (const artist of track.artists) {
-    const genres = artistGenres.get(artist.id) ?? [];
-    const matchingGenre = genres.find((genre) => seedGenres.includes(genre));
-    if (matchingGenre) {
-      return `Because you listen to ${matchingGenre}`;
-    }
+  if (candidate?.collaborative) {
+    return `Listeners who like ${candidate.collaborative.seedArtistName} also play this`;
+  }
+
+  const matchingGenre = (candidate?.genres ?? []).find((genre) => seedGenres.includes(genre));
+  if (matchingGenre) {
+    return `Because you listen to ${matchingGenre}`;
   }
 
   return "Because it matches your current taste profile";
@@ -668,23 +273,28 @@ function reasonForTrack(
 export async function generateDailyRecommendations(
   userId: string,
   forceRegenerate = false,
+  timeZone: string = DEFAULT_TIME_ZONE,
 ): Promise<DailyRecommendations> {
-  const today = dateOnlyUtc(new Date());
+  const today = todayKeyDate(timeZone);
 
-  const existing = await prisma.dailyRecRun.findUnique({
-    where: {
-      userId_date: {
-        userId,
-        date: today,
+  const [existing, feedbackEntries, preferences] = await Promise.all([
+    prisma.dailyRecRun.findUnique({
+      where: {
+        userId_date: {
+          userId,
+          date: today,
+        },
       },
-    },
-  });
+    }),
+    loadRecFeedback(userId),
+    getRecPreferences(userId),
+  ]);
 
   if (existing && !forceRegenerate) {
     return {
       date: today.toISOString(),
-      tracks: existing.tracks as DailyTrackRec[],
-      albums: existing.albums as DailyAlbumRec[],
+      tracks: withFeedback("track", existing.tracks as DailyTrackRec[], feedbackEntries),
+      albums: withFeedback("album", existing.albums as DailyAlbumRec[], feedbackEntries),
       generatedAt: existing.createdAt.toISOString(),
       fromCache: true,
     };
@@ -698,8 +308,9 @@ export async function generateDailyRecommendations(
     }
   }
 
+  const excludedArtistIds = await resolveExcludedArtistIds(preferences.excludedArtists);
   const [taste, listenedRows] = await Promise.all([
-    getTasteSeedData(userId),
+    getTasteSeedData(userId, preferences, excludedArtistIds),
     prisma.playEvent.findMany({
       where: { userId },
       include: {
@@ -717,57 +328,73 @@ export async function generateDailyRecommendations(
     throw new Error("No listening history found. Import Spotify data first.");
   }
 
-  const listenedTrackIds = new Set(listenedRows.map((row) => row.trackId));
-  const listenedAlbumIds = new Set(listenedRows.map((row) => row.track.albumId).filter(Boolean) as string[]);
-  const fallbackSeeds = buildFallbackSeedsFromListening(listenedRows);
+  const feedback = buildFeedbackSignals(feedbackEntries);
+  // Items marked "already know" are excluded like listened ones.
+  const listenedTrackIds = new Set([...listenedRows.map((row) => row.trackId), ...feedback.knownTrackIds]);
+  const listenedAlbumIds = new Set([
+    ...(listenedRows.map((row) => row.track.albumId).filter(Boolean) as string[]),
+    ...feedback.knownAlbumIds,
+  ]);
+  const windowStart = tasteWindowStart(preferences.tasteWindow);
+  const fallbackSeeds = buildFallbackSeedsFromListening(listenedRows.filter((row) => row.playedAt >= windowStart));
 
   const seedTrackIds = dedupeStrings([...taste.seedTrackIds, ...fallbackSeeds.seedTrackIds]).slice(0, 5);
-  const seedArtistIds = dedupeStrings([...taste.seedArtistIds, ...fallbackSeeds.seedArtistIds]).slice(0, 5);
+  const seedArtistIds = dedupeStrings([...taste.seedArtistIds, ...fallbackSeeds.seedArtistIds])
+    .filter((artistId) => !excludedArtistIds.has(artistId))
+    .slice(0, 5);
   const seedArtistNames = dedupeStrings(taste.seedArtistNames).slice(0, 5);
   const seedGenres = taste.seedGenres.length ? taste.seedGenres : await getFallbackGenresFromArtists(seedArtistIds);
 
-  const candidates = await fetchRecommendationCandidates(
+  const collected = await collectRecommendationCandidates({
     userId,
-    taste.profile,
+    profile: taste.profile,
     seedTrackIds,
     seedArtistIds,
     seedArtistNames,
     seedGenres,
-  );
-
-  const unseenTracks = filterNewToMeTracks(candidates, listenedTrackIds);
+    excludedTrackIds: listenedTrackIds,
+  });
 
-  if (unseenTracks.length === 0) {
+  if (collected.length === 0) {
     throw new Error("No new tracks available right now. Try regenerating later.");
   }
 
-  const candidateArtistIds = [
-    ...new Set(unseenTracks.flatMap((track) => track.artists.map((artist) => artist.id))),
-  ];
-
-  const [audioFeatureMap, candidateArtistGenres] = await Promise.all([
-    getAudioFeatureMap(
-      userId,
-      unseenTracks.slice(0, 100).map((track) => track.id),
-    ),
-    getArtistGenres(userId, candidateArtistIds),
-  ]);
+  const candidates = collected.filter((candidate) =>
+    matchesRecPreferences(candidate.track, candidate.genres, preferences, excludedArtistIds),
+  );
+  if (candidates.length === 0) {
+    throw new Error("No new tracks match your recommendation settings right now. Try loosening them in Settings.");
+  }
 
+  const candidateById = new Map(candidates.map((candidate) => [candidate.track.id, candidate]));
   const knownArtistIds = new Set(seedArtistIds);
   const knownGenres = new Set(seedGenres);
 
   const ranked = rankRecommendationCandidates(
-    unseenTracks.map((track) => ({
-      track,
-      features: audioFeatureMap.get(track.id) ?? null,
-      candidateGenres: track.artists.flatMap((artist) => candidateArtistGenres.get(artist.id) ?? []),
+    candidates.map((candidate) => ({
+      track: candidate.track,
+      features: candidate.features,
+      candidateGenres: candidate.genres,
+      collaborativeScore: candidate.collaborative?.score,
     })),
     taste.profile,
     knownArtistIds,
     knownGenres,
+    feedback,
+    preferences.novelty,
   );
 
-  const selectedTrackRecs: DailyTrackRec[] = ranked.slice(0, 10).map((row) => ({
+  const candidateGenresFor = (track: SpotifyTrack) => candidateById.get(track.id)?.genres ?? [];
+
+  // Copied onto the stored recommendations so feedback on them can be recorded as is.
+  const feedbackDetails = (track: SpotifyTrack) => ({
+    strategy: candidateById.get(track.id)?.strategy,
+    artistIds: track.artists.map((artist) => artist.id),
+    genres: candidateGenresFor(track),
+    features: candidateById.get(track.id)?.features ?? null,
+  });
+
+  const selectedTrackRecs: DailyTrackRec[] = ranked.slice(0, preferences.trackCount).map((row) => ({
     id: row.track.id,
     name: row.track.name,
     artistNames: row.track.artists.map((artist) => artist.name),
@@ -776,18 +403,24 @@ export async function generateDailyRecommendations(
     imageUrl: row.track.album.images?.[0]?.url ?? null,
     previewUrl: row.track.preview_url ?? null,
     score: row.score,
-    reason: reasonForTrack(row.track, knownArtistIds, seedGenres, candidateArtistGenres),
+    reason: reasonForTrack(row.track, candidateById.get(row.track.id), knownArtistIds, seedGenres),
+    ...feedbackDetails(row.track),
   }));
 
   const albumMap = new Map<string, DailyAlbumRec>();
 
   for (const row of ranked) {
+    if (albumMap.size >= preferences.albumCount) {
+      break;
+    }
+
     const albumId = row.track.album.id;
 
     if (listenedAlbumIds.has(albumId) || albumMap.has(albumId)) {
       continue;
     }
 
+    const details = feedbackDetails(row.track);
     albumMap.set(albumId, {
       id: albumId,
       name: row.track.album.name,
@@ -795,15 +428,13 @@ export async function generateDailyRecommendations(
         row.track.artists.map((artist) => artist.name),
       imageUrl: row.track.album.images?.[0]?.url ?? null,
       score: row.score,
-      reason: reasonForTrack(row.track, knownArtistIds, seedGenres, candidateArtistGenres),
+      reason: reasonForTrack(row.track, candidateById.get(row.track.id), knownArtistIds, seedGenres),
+      ...details,
+      artistIds: row.track.album.artists?.map((artist) => artist.id) ?? details.artistIds,
     });
-
-    if (albumMap.size >= 3) {
-      break;
-    }
   }
 
-  const albumRecs = [...albumMap.values()].slice(0, 3);
+  const albumRecs = [...albumMap.values()];
 
   const rationale = {
     seeds: {
@@ -813,40 +444,161 @@ export async function generateDailyRecommendations(
       genres: seedGenres,
     },
     profile: taste.profile,
+    strategies: dedupeStrings(candidates.map((candidate) => candidate.strategy)),
+    preferences,
   };
 
-  if (existing) {
-    await prisma.dailyRecRun.update({
-      where: {
-        userId_date: {
+  const run = existing
+    ? await prisma.dailyRecRun.update({
+        where: {
+          userId_date: {
+            userId,
+            date: today,
+          },
+        },
+        data: {
+          tracks: selectedTrackRecs,
+          albums: albumRecs,
+          rationale,
+          createdAt: new Date(),
+        },
+      })
+    : await prisma.dailyRecRun.create({
+        data: {
           userId,
           date: today,
+          tracks: selectedTrackRecs,
+          albums: albumRecs,
+          rationale,
         },
-      },
-      data: {
-        tracks: selectedTrackRecs,
-        albums: albumRecs,
-        rationale,
-        createdAt: new Date(),
-      },
-    });
-  } else {
-    await prisma.dailyRecRun.create({
-      data: {
-        userId,
-        date: today,
-        tracks: selectedTrackRecs,
-        albums: albumRecs,
-        rationale,
-      },
-    });
-  }
+      });
+
+  await trackRecommendationOutcomes(run.id);
 
   return {
     date: today.toISOString(),
-    tracks: selectedTrackRecs,
-    albums: albumRecs,
+    tracks: withFeedback("track", selectedTrackRecs, feedbackEntries),
+    albums: withFeedback("album", albumRecs, feedbackEntries),
     generatedAt: new Date().toISOString(),
     fromCache: false,
   };
 }
+
+async function loadRecFeedback(userId: string): Promise<RecFeedbackEntry[]> {
+  const rows = await prisma.recFeedback.findMany({ where: { userId } });
+
+  return rows.flatMap((row) =>
+    isRecFeedbackKind(row.kind) && (row.itemType === "track" || row.itemType === "album")
+      ? [
+          {
+            itemType: row.itemType,
+            itemId: row.itemId,
+            kind: row.kind,
+            artistIds: row.artistIds,
+            genres: row.genres,
+            features: row.features as TasteProfile | null,
+          },
+        ]
+      : [],
+  );
+}
+
+function withFeedback<T extends DailyTrackRec | DailyAlbumRec>(
+  itemType: RecItemType,
+  recs: T[],
+  entries: RecFeedbackEntry[],
+): T[] {
+  const kinds = new Map(entries.map((entry) => [feedbackKey(entry.itemType, entry.itemId), entry.kind]));
+  return recs.map((rec) => ({ ...rec, feedback: kinds.get(feedbackKey(itemType, rec.id)) ?? null }));
+}
+
+// Records feedback on an item of one of the user's recent daily runs, or clears it when `kind` is
+// null. Returns false when no recent run recommended the item.
+export async function setRecommendationFeedback(
+  userId: string,
+  itemType: RecItemType,
+  itemId: string,
+  kind: RecFeedbackKind | null,
+): Promise<boolean> {
+  if (kind === null) {
+    await prisma.recFeedback.deleteMany({ where: { userId, itemType, itemId } });
+    return true;
+  }
+
+  const runs = await prisma.dailyRecRun.findMany({
+    where: { userId },
+    orderBy: { date: "desc" },
+    take: FEEDBACK_RUN_LOOKBACK,
+    select: { tracks: true, albums: true },
+  });
+
+  const rec = runs
+    .flatMap((run) => (itemType === "track" ? (run.tracks as DailyTrackRec[]) : (run.albums as DailyAlbumRec[])))
+    .find((candidate) => candidate.id === itemId);
+
+  if (!rec) {
+    return false;
+  }
+
+  const details = {
+    kind,
+    artistIds: rec.artistIds ?? [],
+    genres: rec.genres ?? [],
+    features: rec.features ?? Prisma.DbNull,
+  };
+
+  await prisma.recFeedback.upsert({
+    where: { userId_itemType_itemId: { userId, itemType, itemId } },
+    create: { userId, itemType, itemId, ...details },
+    update: details,
+  });
+
+  return true;
+}
+
+export async function getRecPreferences(userId: string): Promise<RecPreferences> {
+  const row = await prisma.recPreferences.findUnique({ where: { userId } });
+  if (!row) {
+    return DEFAULT_REC_PREFERENCES;
+  }
+
+  return {
+    trackCount: row.trackCount,
+    albumCount: row.albumCount,
+    novelty: row.novelty,
+    tasteWindow: isTasteWindow(row.tasteWindow) ? row.tasteWindow : DEFAULT_REC_PREFERENCES.tasteWindow,
+    excludedGenres: row.excludedGenres,
+    excludedArtists: row.excludedArtists,
+    allowExplicit: row.allowExplicit,
+    minPopularity: row.minPopularity,
+    maxPopularity: row.maxPopularity,
+  };
+}
+
+export async function saveRecPreferences(userId: string, preferences: RecPreferences): Promise<void> {
+  const data = {
+    ...preferences,
+    excludedGenres: dedupeStrings(preferences.excludedGenres),
+    excludedArtists: dedupeStrings(preferences.excludedArtists),
+  };
+
+  await prisma.recPreferences.upsert({
+    where: { userId },
+    update: data,
+    create: { userId, ...data },
+  });
+}
+
+// Catalog ids of the excluded artist names, so they can be left out of the seeds too.
+async function resolveExcludedArtistIds(names: string[]): Promise<Set<string>> {
+  if (names.length === 0) {
+    return new Set();
+  }
+
+  const artists = await prisma.artist.findMany({
+    where: { name: { in: names, mode: "insensitive" } },
+    select: { id: true },
+  });
+
+  return new Set(artists.map((artist) => artist.id));
+}
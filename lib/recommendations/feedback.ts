@@ -0,0 +1,104 @@
+import type { TasteProfile } from "@/lib/recommendations/engine";
+import type { SpotifyTrack } from "@/lib/spotify/types";
+
+export const REC_FEEDBACK_KINDS = ["like", "dislike", "already-know", "skip"] as const;
+
+export type RecFeedbackKind = (typeof REC_FEEDBACK_KINDS)[number];
+
+export type RecItemType = "track" | "album";
+
+export type RecFeedbackEntry = {
+  itemType: RecItemType;
+  itemId: string;
+  kind: RecFeedbackKind;
+  artistIds: string[];
+  genres: string[];
+  features: TasteProfile | null;
+};
+
+export type FeedbackSignals = {
+  // Average audio features of liked items, or null without likes that have features.
+  likedProfile: TasteProfile | null;
+  dislikedArtistIds: Set<string>;
+  dislikedGenres: Set<string>;
+  knownTrackIds: Set<string>;
+  knownAlbumIds: Set<string>;
+  knownArtistIds: Set<string>;
+  skippedTrackIds: Set<string>;
+  skippedAlbumIds: Set<string>;
+};
+
+// Share of the taste similarity that comes from the liked profile instead of the listening one.
+export const LIKED_PROFILE_WEIGHT = 0.35;
+const DISLIKED_ARTIST_PENALTY = 0.3;
+const DISLIKED_GENRE_PENALTY = 0.1;
+const SKIP_PENALTY = 0.1;
+
+export function isRecFeedbackKind(value: unknown): value is RecFeedbackKind {
+  return REC_FEEDBACK_KINDS.some((kind) => kind === value);
+}
+
+export function feedbackKey(itemType: RecItemType, itemId: string): string {
+  return `${itemType}:${itemId}`;
+}
+
+export function buildFeedbackSignals(entries: RecFeedbackEntry[]): FeedbackSignals {
+  const signals: FeedbackSignals = {
+    likedProfile: null,
+    dislikedArtistIds: new Set(),
+    dislikedGenres: new Set(),
+    knownTrackIds: new Set(),
+    knownAlbumIds: new Set(),
+    knownArtistIds: new Set(),
+    skippedTrackIds: new Set(),
+    skippedAlbumIds: new Set(),
+  };
+  const likedFeatures: TasteProfile[] = [];
+
+  for (const entry of entries) {
+    switch (entry.kind) {
+      case "like":
+        if (entry.features) {
+          likedFeatures.push(entry.features);
+        }
+        break;
+      case "dislike":
+        entry.artistIds.forEach((artistId) => signals.dislikedArtistIds.add(artistId));
+        entry.genres.forEach((genre) => signals.dislikedGenres.add(genre));
+        break;
+      case "already-know":
+        (entry.itemType === "track" ? signals.knownTrackIds : signals.knownAlbumIds).add(entry.itemId);
+        entry.artistIds.forEach((artistId) => signals.knownArtistIds.add(artistId));
+        break;
+      case "skip":
+        (entry.itemType === "track" ? signals.skippedTrackIds : signals.skippedAlbumIds).add(entry.itemId);
+        break;
+    }
+  }
+
+  if (likedFeatures.length > 0) {
+    const average = (key: keyof TasteProfile) =>
+      likedFeatures.reduce((sum, features) => sum + features[key], 0) / likedFeatures.length;
+    signals.likedProfile = {
+      energy: average("energy"),
+      danceability: average("danceability"),
+      valence: average("valence"),
+      tempo: average("tempo"),
+    };
+  }
+
+  return signals;
+}
+
+// Score taken off a candidate for disliked artists and genres, and for skipped tracks or albums.
+export function feedbackPenalty(track: SpotifyTrack, candidateGenres: string[], signals: FeedbackSignals): number {
+  const hasDislikedArtist = track.artists.some((artist) => signals.dislikedArtistIds.has(artist.id));
+  const hasDislikedGenre = candidateGenres.some((genre) => signals.dislikedGenres.has(genre));
+  const skipped = signals.skippedTrackIds.has(track.id) || signals.skippedAlbumIds.has(track.album.id);
+
+  return (
+    (hasDislikedArtist ? DISLIKED_ARTIST_PENALTY : 0) +
+    (hasDislikedGenre ? DISLIKED_GENRE_PENALTY : 0) +
+    (skipped ? SKIP_PENALTY : 0)
+  );
+}
@@ -0,0 +1,75 @@
+import type { RecItemType } from "@/lib/recommendations/feedback";
+
+// A recommendation converts when it is played within this many days of being recommended.
+export const REC_CONVERSION_WINDOW_DAYS = 7;
+
+// A recommendation is kept once it has been played this many times since.
+export const REC_KEPT_PLAY_COUNT = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type RecOutcomeRecord = {
+  strategy: string;
+  itemType: RecItemType;
+  recommendedAt: Date;
+  firstPlayedAt: Date | null;
+  playCount: number;
+};
+
+// Rates are over decided recommendations: converted ones, and unplayed ones whose conversion
+// window has passed. `pending` counts the rest.
+export type StrategyHitRate = {
+  strategy: string;
+  recommended: number;
+  pending: number;
+  converted: number;
+  kept: number;
+  hitRate: number | null;
+  keepRate: number | null;
+  averagePlays: number | null;
+};
+
+function toRate(count: number, total: number): number | null {
+  return total > 0 ? Number((count / total).toFixed(3)) : null;
+}
+
+export function isConverted(outcome: RecOutcomeRecord): boolean {
+  return (
+    outcome.firstPlayedAt !== null &&
+    outcome.firstPlayedAt.getTime() - outcome.recommendedAt.getTime() <= REC_CONVERSION_WINDOW_DAYS * DAY_MS
+  );
+}
+
+// Hit rates per seed strategy, most recommended strategy first.
+export function summarizeHitRates(outcomes: RecOutcomeRecord[], now: Date = new Date()): StrategyHitRate[] {
+  const groups = new Map<string, { outcomes: RecOutcomeRecord[]; decided: RecOutcomeRecord[] }>();
+
+  for (const outcome of outcomes) {
+    const group = groups.get(outcome.strategy) ?? { outcomes: [], decided: [] };
+    group.outcomes.push(outcome);
+    const windowClosed = now.getTime() - outcome.recommendedAt.getTime() > REC_CONVERSION_WINDOW_DAYS * DAY_MS;
+    if (windowClosed || isConverted(outcome)) {
+      group.decided.push(outcome);
+    }
+    groups.set(outcome.strategy, group);
+  }
+
+  return [...groups.entries()]
+    .map(([strategy, group]) => {
+      const converted = group.decided.filter(isConverted).length;
+      const kept = group.decided.filter((outcome) => outcome.playCount >= REC_KEPT_PLAY_COUNT).length;
+      const plays = group.decided.reduce((sum, outcome) => sum + outcome.playCount, 0);
+
+      return {
+        strategy,
+        recommended: group.outcomes.length,
+        pending: group.outcomes.length - group.decided.length,
+        converted,
+        kept,
+        hitRate: toRate(converted, group.decided.length),
+        keepRate: toRate(kept, group.decided.length),
+        averagePlays: group.decided.length > 0 ? Number((plays / group.decided.length).toFixed(1)) : null,
+      };
+    })
+    .sort((a, b) => b.recommended - a.recommended || a.strategy.localeCompare(b.strategy));
+}
@@ -0,0 +1,129 @@
+import { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import type { DailyAlbumRec, DailyTrackRec } from "@/lib/recommendations/engine";
+import { type StrategyHitRate, summarizeHitRates } from "@/lib/recommendations/hit-rate";
+
+// Runs from before strategies were recorded.
+const UNKNOWN_STRATEGY = "unknown";
+const PENDING_RUN_BATCH_SIZE = 20;
+
+// Recomputes play count and first/last play since the recommendation, for the user's outcomes
+// matching `itemFilter`. Recomputing from the play events keeps retried imports and undo correct.
+async function recomputeOutcomes(userId: string, itemFilter: Prisma.Sql): Promise<void> {
+  await prisma.$executeRaw`
+    UPDATE rec_outcomes o
+    SET
+      play_count = stats.play_count,
+      first_played_at = stats.first_played_at,
+      last_played_at = stats.last_played_at
+    FROM (
+      SELECT
+        matched.id,
+        COUNT(plays.played_at)::int AS play_count,
+        MIN(plays.played_at) AS first_played_at,
+        MAX(plays.played_at) AS last_played_at
+      FROM rec_outcomes matched
+      LEFT JOIN LATERAL (
+        SELECT pe.played_at
+        FROM play_events pe
+        JOIN tracks t ON t.id = pe.track_id
+        WHERE pe.user_id = matched.user_id
+          AND pe.played_at >= matched.recommended_at
+          AND CASE matched.item_type
+            WHEN 'album' THEN t.album_id = matched.item_id
+            ELSE pe.track_id = matched.item_id
+          END
+      ) plays ON TRUE
+      WHERE matched.user_id = ${userId} AND ${itemFilter}
+      GROUP BY matched.id
+    ) stats
+    WHERE o.id = stats.id
+  `;
+}
+
+// Creates the outcome rows of a daily run, replacing earlier ones when the run was regenerated.
+export async function trackRecommendationOutcomes(runId: string): Promise<void> {
+  const run = await prisma.dailyRecRun.findUniqueOrThrow({
+    where: { id: runId },
+    select: { userId: true, createdAt: true, tracks: true, albums: true },
+  });
+
+  const outcomeRow = (itemType: "track" | "album", rec: DailyTrackRec | DailyAlbumRec) => ({
+    userId: run.userId,
+    runId,
+    itemType,
+    itemId: rec.id,
+    strategy: rec.strategy ?? UNKNOWN_STRATEGY,
+    recommendedAt: run.createdAt,
+  });
+
+  await prisma.$transaction([
+    prisma.recOutcome.deleteMany({ where: { runId } }),
+    prisma.recOutcome.createMany({
+      data: [
+        ...(run.tracks as DailyTrackRec[]).map((rec) => outcomeRow("track", rec)),
+        ...(run.albums as DailyAlbumRec[]).map((rec) => outcomeRow("album", rec)),
+      ],
+      skipDuplicates: true,
+    }),
+    prisma.dailyRecRun.update({ where: { id: runId }, data: { outcomesTrackedAt: new Date() } }),
+  ]);
+
+  await recomputeOutcomes(run.userId, Prisma.sql`matched.run_id = ${runId}`);
+}
+
+// Called after plays are inserted or deleted. `albumIds` is for albums whose tracks may no longer
+// exist (undo deletes orphaned tracks); albums of the given tracks are matched either way.
+export async function refreshRecommendationOutcomes(
+  userId: string,
+  trackIds: Iterable<string>,
+  albumIds: Iterable<string> = [],
+): Promise<void> {
+  const tracks = [...new Set(trackIds)];
+  const albums = [...new Set(albumIds)];
+  if (tracks.length === 0 && albums.length === 0) {
+    return;
+  }
+
+  await recomputeOutcomes(
+    userId,
+    Prisma.sql`(
+      (matched.item_type = 'track' AND matched.item_id = ANY(${tracks}::text[]))
+      OR (
+        matched.item_type = 'album'
+        AND (
+          matched.item_id = ANY(${albums}::text[])
+          OR matched.item_id IN (SELECT album_id FROM tracks WHERE id = ANY(${tracks}::text[]))
+        )
+      )
+    )`,
+  );
+}
+
+// Backfills outcomes of runs generated before outcome tracking. Returns how many runs were tracked.
+export async function trackPendingRecommendationOutcomes(): Promise<number> {
+  const runs = await prisma.dailyRecRun.findMany({
+    where: { outcomesTrackedAt: null },
+    select: { id: true },
+    orderBy: { createdAt: "asc" },
+    take: PENDING_RUN_BATCH_SIZE,
+  });
+
+  for (const run of runs) {
+    await trackRecommendationOutcomes(run.id);
+  }
+
+  return runs.length;
+}
+
+export async function getRecommendationHitRates(userId: string): Promise<StrategyHitRate[]> {
+  const outcomes = await prisma.recOutcome.findMany({
+    where: { userId },
+    select: { strategy: true, itemType: true, recommendedAt: true, firstPlayedAt: true, playCount: true },
+  });
+
+  return summarizeHitRates(
+    outcomes.map((outcome) => ({ ...outcome, itemType: outcome.itemType === "album" ? "album" : "track" })),
+  );
+}
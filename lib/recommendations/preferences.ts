@@ -0,0 +1,109 @@
+import { subMonths, subYears } from "date-fns";
+import { z } from "zod";
+
+import type { SpotifyTrack } from "@/lib/spotify/types";
+
+export const TASTE_WINDOWS = ["month", "year", "all"] as const;
+
+export type TasteWindow = (typeof TASTE_WINDOWS)[number];
+
+export const MAX_TRACK_RECS = 25;
+export const MAX_ALBUM_RECS = 10;
+const MAX_EXCLUSIONS = 50;
+
+const exclusionListSchema = z.array(z.string().trim().min(1).max(200)).max(MAX_EXCLUSIONS);
+
+export const recPreferencesSchema = z
+  .object({
+    trackCount: z.number().int().min(1).max(MAX_TRACK_RECS),
+    albumCount: z.number().int().min(0).max(MAX_ALBUM_RECS),
+    novelty: z.number().min(0).max(1),
+    tasteWindow: z.enum(TASTE_WINDOWS),
+    excludedGenres: exclusionListSchema,
+    excludedArtists: exclusionListSchema,
+    allowExplicit: z.boolean(),
+    minPopularity: z.number().int().min(0).max(100),
+    maxPopularity: z.number().int().min(0).max(100),
+  })
+  .refine((preferences) => preferences.minPopularity <= preferences.maxPopularity, {
+    message: "Minimum popularity must not exceed maximum popularity",
+    path: ["maxPopularity"],
+  });
+
+export type RecPreferences = z.infer<typeof recPreferencesSchema>;
+
+export const DEFAULT_REC_PREFERENCES: RecPreferences = {
+  trackCount: 10,
+  albumCount: 3,
+  novelty: 0.5,
+  tasteWindow: "all",
+  excludedGenres: [],
+  excludedArtists: [],
+  allowExplicit: true,
+  minPopularity: 0,
+  maxPopularity: 100,
+};
+
+// Boosts at full novelty; the default of 0.5 gives new artists 0.07 and new genres 0.04.
+const NEW_ARTIST_BOOST = 0.14;
+const NEW_GENRE_BOOST = 0.08;
+const KNOWN_ARTIST_BOOST = 0.14;
+
+export function isTasteWindow(value: unknown): value is TasteWindow {
+  return TASTE_WINDOWS.some((window) => window === value);
+}
+
+export function tasteWindowStart(window: TasteWindow, now: Date = new Date()): Date {
+  switch (window) {
+    case "month":
+      return subMonths(now, 1);
+    case "year":
+      return subYears(now, 1);
+    case "all":
+      return new Date(0);
+  }
+}
+
+// Below 0.5 the novelty boosts shrink and tracks by familiar artists get a boost instead.
+export function noveltyWeights(novelty: number): {
+  newArtist: number;
+  newGenre: number;
+  knownArtist: number;
+} {
+  return {
+    newArtist: NEW_ARTIST_BOOST * novelty,
+    newGenre: NEW_GENRE_BOOST * novelty,
+    knownArtist: KNOWN_ARTIST_BOOST * Math.max(0, 0.5 - novelty),
+  };
+}
+
+// Tracks of unknown popularity or explicitness pass the popularity range and the explicit filter.
+export function matchesRecPreferences(
+  track: SpotifyTrack,
+  candidateGenres: string[],
+  preferences: RecPreferences,
+  excludedArtistIds: Set<string> = new Set(),
+): boolean {
+  if (!preferences.allowExplicit && track.explicit === true) {
+    return false;
+  }
+
+  if (
+    track.popularity !== undefined &&
+    (track.popularity < preferences.minPopularity || track.popularity > preferences.maxPopularity)
+  ) {
+    return false;
+  }
+
+  const excludedArtists = new Set(preferences.excludedArtists.map((name) => name.toLowerCase()));
+  if (
+    track.artists.some(
+      (artist) => excludedArtistIds.has(artist.id) || excludedArtists.has(artist.name.toLowerCase()),
+    )
+  ) {
+    return false;
+  }
+
+  const excludedGenres = new Set(preferences.excludedGenres.map((genre) => genre.toLowerCase()));
+  return !candidateGenres.some((genre) => excludedGenres.has(genre.toLowerCase()));
+}
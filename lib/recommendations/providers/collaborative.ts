@@ -0,0 +1,78 @@
+import { prisma } from "@/lib/prisma";
+import {
+  getUnplayedCatalogTracks,
+  RELATED_ARTIST_LIMIT,
+  toCatalogCandidate,
+} from "@/lib/recommendations/providers/local";
+import type {
+  CandidateProvider,
+  CandidateRequest,
+  RecommendationCandidate,
+} from "@/lib/recommendations/providers/types";
+import { dedupeStrings } from "@/lib/utils";
+
+export const COLLABORATIVE_STRATEGY = "collaborative";
+// Kept below the engine's candidate target so the other providers are still asked.
+const COLLABORATIVE_CANDIDATE_LIMIT = 15;
+
+// "Listeners like you also play": catalog tracks by artists that opted-in listeners of the seed
+// artists also play. Only users who opted in themselves get these candidates.
+export const collaborativeCandidateProvider: CandidateProvider = {
+  name: "collaborative",
+  async fetchCandidates(request: CandidateRequest) {
+    const seedArtistIds = dedupeStrings(request.seedArtistIds);
+    if (seedArtistIds.length === 0) {
+      return [];
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: request.userId },
+      select: { collaborativeRecs: true },
+    });
+    if (!user?.collaborativeRecs) {
+      return [];
+    }
+
+    const similarities = await prisma.artistSimilarity.findMany({
+      where: {
+        artistId: { in: seedArtistIds },
+        similarArtistId: { notIn: seedArtistIds },
+      },
+      include: { artist: { select: { name: true } } },
+      orderBy: [{ score: "desc" }, { similarArtistId: "asc" }],
+    });
+
+    // Each similar artist keeps its best-scoring seed artist.
+    const bestBySimilarArtist = new Map<string, { score: number; seedArtistName: string }>();
+    for (const similarity of similarities) {
+      if (!bestBySimilarArtist.has(similarity.similarArtistId)) {
+        bestBySimilarArtist.set(similarity.similarArtistId, {
+          score: similarity.score,
+          seedArtistName: similarity.artist.name,
+        });
+      }
+    }
+
+    const similarArtistIds = [...bestBySimilarArtist.keys()].slice(0, RELATED_ARTIST_LIMIT);
+    const rows = await getUnplayedCatalogTracks(request.userId, similarArtistIds);
+
+    const candidates: RecommendationCandidate[] = [];
+    for (const row of rows) {
+      const candidate = request.excludedTrackIds.has(row.id) ? null : toCatalogCandidate(row, COLLABORATIVE_STRATEGY);
+      if (!candidate) {
+        continue;
+      }
+
+      const best = row.artistIds
+        .map((artistId) => bestBySimilarArtist.get(artistId))
+        .filter((match) => match !== undefined)
+        .sort((a, b) => b.score - a.score)[0];
+
+      candidates.push(best ? { ...candidate, collaborative: best } : candidate);
+    }
+
+    return candidates
+      .sort((a, b) => (b.collaborative?.score ?? 0) - (a.collaborative?.score ?? 0))
+      .slice(0, COLLABORATIVE_CANDIDATE_LIMIT);
+  },
+};
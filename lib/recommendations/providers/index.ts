@@ -0,0 +1,52 @@
+import { collaborativeCandidateProvider } from "@/lib/recommendations/providers/collaborative";
+import { localCatalogProvider } from "@/lib/recommendations/providers/local";
+import { spotifyCandidateProvider } from "@/lib/recommendations/providers/spotify";
+import type {
+  CandidateProvider,
+  CandidateRequest,
+  RecommendationCandidate,
+} from "@/lib/recommendations/providers/types";
+
+export type { CandidateProvider, CandidateRequest, RecommendationCandidate };
+
+// Providers are asked in order until enough candidates are collected. The local catalog goes
+// before Spotify, so recommendations keep working when Spotify's recommendation endpoints are
+// unavailable; the collaborative model returns nothing for users who have not opted in.
+export const CANDIDATE_PROVIDERS: CandidateProvider[] = [
+  collaborativeCandidateProvider,
+  localCatalogProvider,
+  spotifyCandidateProvider,
+];
+
+export const MIN_RECOMMENDATION_CANDIDATES = 30;
+
+export async function collectRecommendationCandidates(
+  request: CandidateRequest,
+  providers: CandidateProvider[] = CANDIDATE_PROVIDERS,
+): Promise<RecommendationCandidate[]> {
+  const candidates = new Map<string, RecommendationCandidate>();
+  let lastError: unknown = null;
+
+  for (const provider of providers) {
+    if (candidates.size >= MIN_RECOMMENDATION_CANDIDATES) {
+      break;
+    }
+
+    try {
+      for (const candidate of await provider.fetchCandidates(request)) {
+        if (!candidates.has(candidate.track.id) && !request.excludedTrackIds.has(candidate.track.id)) {
+          candidates.set(candidate.track.id, candidate);
+        }
+      }
+    } catch (error) {
+      lastError = error;
+    }
+  }
+
+  // A failing provider only matters when no other provider found anything.
+  if (candidates.size === 0 && lastError) {
+    throw lastError;
+  }
+
+  return [...candidates.values()];
+}
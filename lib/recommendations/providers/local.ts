@@ -0,0 +1,182 @@
+import { Prisma } from "@prisma/client";
+
+import { SESSION_GAP_MS } from "@/lib/analytics/sessions";
+import { prisma } from "@/lib/prisma";
+import type {
+  CandidateProvider,
+  CandidateRequest,
+  RecommendationCandidate,
+} from "@/lib/recommendations/providers/types";
+import { dedupeStrings } from "@/lib/utils";
+
+// Catalog tracks taken per strategy, and related artists looked up per strategy.
+const LOCAL_TRACKS_PER_STRATEGY = 40;
+export const RELATED_ARTIST_LIMIT = 25;
+
+const catalogTrackInclude = {
+  album: true,
+  artists: { include: { artist: true } },
+} satisfies Prisma.TrackInclude;
+
+export type CatalogTrack = Prisma.TrackGetPayload<{ include: typeof catalogTrackInclude }>;
+
+export function toCatalogCandidate(row: CatalogTrack, strategy: string): RecommendationCandidate | null {
+  if (!row.album) {
+    return null;
+  }
+
+  // Track artists keep the order of the track's artist ids, not of the join rows.
+  const artistsById = new Map(row.artists.map((link) => [link.artistId, link.artist]));
+  const artists = row.artistIds.flatMap((artistId) => {
+    const artist = artistsById.get(artistId);
+    return artist ? [artist] : [];
+  });
+  const imageUrl = row.imageUrl ?? row.album.imageUrl;
+  const hasFeatures =
+    row.energy !== null && row.danceability !== null && row.valence !== null && row.tempo !== null;
+
+  return {
+    track: {
+      id: row.id,
+      name: row.name,
+      duration_ms: row.durationMs,
+      popularity: row.popularity ?? undefined,
+      explicit: row.explicit ?? undefined,
+      preview_url: row.previewUrl,
+      album: {
+        id: row.album.id,
+        name: row.album.name,
+        release_date: row.album.releaseDate ?? undefined,
+        images: imageUrl ? [{ url: imageUrl }] : [],
+      },
+      artists: artists.map((artist) => ({
+        id: artist.id,
+        name: artist.name,
+        genres: artist.genres,
+      })),
+    },
+    features: hasFeatures
+      ? {
+          energy: row.energy as number,
+          danceability: row.danceability as number,
+          valence: row.valence as number,
+          tempo: row.tempo as number,
+        }
+      : null,
+    genres: dedupeStrings(artists.flatMap((artist) => artist.genres)),
+    strategy,
+  };
+}
+
+// Artists played in the same listening sessions as the seed artists, most shared sessions first.
+async function getSessionArtistIds(userId: string, seedArtistIds: string[]): Promise<string[]> {
+  const rows = await prisma.$queryRaw<Array<{ artistId: string }>>`
+    WITH plays AS (
+      SELECT
+        pe.played_at,
+        t.artist_ids,
+        CASE
+          WHEN pe.played_at - lag(pe.played_at) OVER (ORDER BY pe.played_at)
+            <= make_interval(secs => ${SESSION_GAP_MS / 1000}::int)
+          THEN 0
+          ELSE 1
+        END AS starts_session
+      FROM play_events pe
+      JOIN tracks t ON t.id = pe.track_id
+      WHERE pe.user_id = ${userId}
+    ),
+    numbered AS (
+      SELECT artist_ids, sum(starts_session) OVER (ORDER BY played_at) AS session_id
+      FROM plays
+    ),
+    seeded AS (
+      SELECT DISTINCT session_id FROM numbered WHERE artist_ids && ${seedArtistIds}::text[]
+    )
+    SELECT artist_id AS "artistId"
+    FROM numbered n
+    JOIN seeded s ON s.session_id = n.session_id
+    CROSS JOIN LATERAL unnest(n.artist_ids) AS artist_id
+    WHERE NOT (artist_id = ANY(${seedArtistIds}::text[]))
+    GROUP BY artist_id
+    ORDER BY count(DISTINCT n.session_id) DESC, artist_id
+    LIMIT ${RELATED_ARTIST_LIMIT}
+  `;
+
+  return rows.map((row) => row.artistId);
+}
+
+// Catalog artists sharing the seed genres, most shared genres first.
+async function getGenreArtistIds(seedGenres: string[], seedArtistIds: string[]): Promise<string[]> {
+  const rows = await prisma.$queryRaw<Array<{ id: string }>>`
+    SELECT a.id
+    FROM artists a
+    WHERE a.genres && ${seedGenres}::text[]
+      AND NOT (a.id = ANY(${seedArtistIds}::text[]))
+    ORDER BY
+      cardinality(ARRAY(SELECT unnest(a.genres) INTERSECT SELECT unnest(${seedGenres}::text[]))) DESC,
+      a.id
+    LIMIT ${RELATED_ARTIST_LIMIT}
+  `;
+
+  return rows.map((row) => row.id);
+}
+
+// Catalog tracks by the given artists that the user has never played. Tracks reach the catalog
+// through someone's listening history, so only those played by a user who opted in to
+// collaborative recommendations are offered to others.
+export async function getUnplayedCatalogTracks(userId: string, artistIds: string[]): Promise<CatalogTrack[]> {
+  if (artistIds.length === 0) {
+    return [];
+  }
+
+  return prisma.track.findMany({
+    where: {
+      artistIds: { hasSome: artistIds },
+      albumId: { not: null },
+      playEvents: { none: { userId }, some: { user: { collaborativeRecs: true } } },
+    },
+    include: catalogTrackInclude,
+    orderBy: [{ popularity: { sort: "desc", nulls: "last" } }, { id: "asc" }],
+    take: LOCAL_TRACKS_PER_STRATEGY,
+  });
+}
+
+// Mines the track catalog shared by every user of this instance, so it needs no Spotify endpoint.
+// Only tracks played by opted-in listeners are offered (see getUnplayedCatalogTracks).
+export const localCatalogProvider: CandidateProvider = {
+  name: "local",
+  async fetchCandidates(request: CandidateRequest) {
+    const seedArtistIds = dedupeStrings(request.seedArtistIds);
+    const seedGenres = dedupeStrings(request.seedGenres);
+
+    const strategies: Array<{ label: string; artistIds: () => Promise<string[]> }> = [
+      { label: "local:seed-artists", artistIds: async () => seedArtistIds },
+      {
+        label: "local:session-artists",
+        artistIds: async () => (seedArtistIds.length ? getSessionArtistIds(request.userId, seedArtistIds) : []),
+      },
+      {
+        label: "local:genre-artists",
+        artistIds: async () => (seedGenres.length ? getGenreArtistIds(seedGenres, seedArtistIds) : []),
+      },
+    ];
+
+    const candidates = new Map<string, RecommendationCandidate>();
+    for (const strategy of strategies) {
+      const rows = await getUnplayedCatalogTracks(request.userId, await strategy.artistIds());
+
+      for (const row of rows) {
+        if (candidates.has(row.id) || request.excludedTrackIds.has(row.id)) {
+          continue;
+        }
+
+        const candidate = toCatalogCandidate(row, strategy.label);
+        if (candidate) {
+          candidates.set(row.id, candidate);
+        }
+      }
+    }
+
+    return [...candidates.values()];
+  },
+};
@@ -0,0 +1,496 @@
+import type { TasteProfile } from "@/lib/recommendations/engine";
+import type { CandidateProvider, CandidateRequest } from "@/lib/recommendations/providers/types";
+import { SpotifyApiError, spotifyRequest } from "@/lib/spotify/client";
+import type {
+  SpotifyArtistsResponse,
+  SpotifyAudioFeaturesResponse,
+  SpotifyRecommendationGenreSeedsResponse,
+  SpotifyRecommendationsResponse,
+  SpotifySearchTracksResponse,
+  SpotifyTrack,
+} from "@/lib/spotify/types";
+import { dedupeStrings } from "@/lib/utils";
+
+const MAX_SEEDS_PER_REQUEST = 5;
+
+const SEARCH_FALLBACK_STRATEGY = "search";
+
+type SeedRequest = {
+  seedTracks: string[];
+  seedArtists: string[];
+  seedGenres: string[];
+  label: string;
+};
+
+const SPOTIFY_ENTITY_ID_REGEX = /^[A-Za-z0-9]{22}$/;
+
+function dedupeTracksById(tracks: SpotifyTrack[]): SpotifyTrack[] {
+  const map = new Map<string, SpotifyTrack>();
+  for (const track of tracks) {
+    map.set(track.id, track);
+  }
+  return [...map.values()];
+}
+
+function isSpotifyEntityId(value: string): boolean {
+  return SPOTIFY_ENTITY_ID_REGEX.test(value);
+}
+
+function clampNumber(value: number, min: number, max: number, fallback: number): number {
+  const finiteValue = Number.isFinite(value) ? value : fallback;
+  if (finiteValue < min) {
+    return min;
+  }
+
+  if (finiteValue > max) {
+    return max;
+  }
+
+  return finiteValue;
+}
+
+function sanitizeGenreToken(input: string): string {
+  return input
+    .trim()
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^\p{L}\p{N}\s-]+/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function toGenreSeedCandidates(input: string): string[] {
+  const normalized = sanitizeGenreToken(input);
+  if (!normalized) {
+    return [];
+  }
+
+  const collapsed = normalized.replace(/\s+/g, "-");
+  const aliasCandidates: Record<string, string> = {
+    "hip hop": "hip-hop",
+    "hip-hop": "hip-hop",
+    "r and b": "r-n-b",
+    "rnb": "r-n-b",
+    "drum and bass": "drum-and-bass",
+    "k pop": "k-pop",
+  };
+
+  return dedupeStrings([normalized, collapsed, aliasCandidates[normalized] ?? ""]);
+}
+
+function clampSeedsToSpotifyLimit(seedRequest: SeedRequest): SeedRequest {
+  const tracks = seedRequest.seedTracks.slice(0, 2);
+  const artists = seedRequest.seedArtists.slice(0, 2);
+  const remaining = MAX_SEEDS_PER_REQUEST - tracks.length - artists.length;
+  const genres = remaining > 0 ? seedRequest.seedGenres.slice(0, remaining) : [];
+
+  return {
+    seedTracks: tracks,
+    seedArtists: artists,
+    seedGenres: genres,
+    label: seedRequest.label,
+  };
+}
+
+function hasAtLeastOneSeed(seedRequest: SeedRequest): boolean {
+  return seedRequest.seedTracks.length + seedRequest.seedArtists.length + seedRequest.seedGenres.length > 0;
+}
+
+function buildSeedStrategyKey(seedRequest: SeedRequest): string {
+  return [
+    seedRequest.seedTracks.join(","),
+    seedRequest.seedArtists.join(","),
+    seedRequest.seedGenres.join(","),
+  ].join("|");
+}
+
+function buildRecommendationRequestParams(profile: TasteProfile, seedRequest: SeedRequest): URLSearchParams {
+  const normalizedProfile = {
+    energy: clampNumber(profile.energy, 0, 1, 0.5),
+    danceability: clampNumber(profile.danceability, 0, 1, 0.5),
+    valence: clampNumber(profile.valence, 0, 1, 0.5),
+    tempo: clampNumber(profile.tempo, 0, 250, 120),
+  };
+
+  const params = new URLSearchParams({
+    limit: "100",
+    target_energy: String(normalizedProfile.energy),
+    target_danceability: String(normalizedProfile.danceability),
+    target_valence: String(normalizedProfile.valence),
+    target_tempo: String(normalizedProfile.tempo),
+  });
+
+  if (seedRequest.seedTracks.length > 0) {
+    params.set("seed_tracks", seedRequest.seedTracks.join(","));
+  }
+
+  if (seedRequest.seedArtists.length > 0) {
+    params.set("seed_artists", seedRequest.seedArtists.join(","));
+  }
+
+  if (seedRequest.seedGenres.length > 0) {
+    params.set("seed_genres", seedRequest.seedGenres.join(","));
+  }
+
+  return params;
+}
+
+async function getAvailableGenreSeeds(userId: string): Promise<Set<string>> {
+  const response = await spotifyRequest<SpotifyRecommendationGenreSeedsResponse>(
+    userId,
+    "/recommendations/available-genre-seeds",
+    undefined,
+    { maxRetries: 3 },
+  );
+
+  return new Set(response.genres.map((genre) => genre.toLowerCase()));
+}
+
+function filterSupportedGenres(candidateGenres: string[], availableGenres: Set<string>): string[] {
+  const accepted: string[] = [];
+  const seen = new Set<string>();
+
+  for (const genre of candidateGenres) {
+    const alternatives = toGenreSeedCandidates(genre);
+    const match = alternatives.find((candidate) => availableGenres.has(candidate));
+    if (!match || seen.has(match)) {
+      continue;
+    }
+
+    seen.add(match);
+    accepted.push(match);
+  }
+
+  return accepted;
+}
+
+function buildSearchTrackQuery(input: { artistName?: string; genre?: string; year?: number }): string {
+  const parts: string[] = [];
+
+  if (input.artistName) {
+    parts.push(`artist:"${input.artistName}"`);
+  }
+
+  if (input.genre) {
+    parts.push(`genre:"${input.genre}"`);
+  }
+
+  if (input.year) {
+    parts.push(`year:${input.year}`);
+  }
+
+  if (parts.length === 0) {
+    return "";
+  }
+
+  return parts.join(" ");
+}
+
+async function searchTracks(userId: string, query: string, limit = 20): Promise<SpotifyTrack[]> {
+  if (!query.trim()) {
+    return [];
+  }
+
+  const params = new URLSearchParams({
+    q: query,
+    type: "track",
+    limit: String(limit),
+    market: "US",
+  });
+
+  const response = await spotifyRequest<SpotifySearchTracksResponse>(
+    userId,
+    `/search?${params.toString()}`,
+    undefined,
+    { maxRetries: 3 },
+  );
+
+  return response.tracks.items ?? [];
+}
+
+async function fetchFallbackSearchCandidates(
+  userId: string,
+  seedArtistNames: string[],
+  seedGenres: string[],
+): Promise<SpotifyTrack[]> {
+  const tracks: SpotifyTrack[] = [];
+
+  const safeArtistNames = dedupeStrings(seedArtistNames).slice(0, 4);
+  for (const artistName of safeArtistNames) {
+    try {
+      const query = buildSearchTrackQuery({ artistName });
+      tracks.push(...(await searchTracks(userId, query, 20)));
+    } catch (error) {
+      if (error instanceof SpotifyApiError && error.status >= 400 && error.status < 500) {
+        continue;
+      }
+
+      throw error;
+    }
+  }
+
+  const safeGenres = dedupeStrings(seedGenres).slice(0, 4);
+  for (const genre of safeGenres) {
+    try {
+      const query = buildSearchTrackQuery({ genre });
+      tracks.push(...(await searchTracks(userId, query, 20)));
+    } catch (error) {
+      if (error instanceof SpotifyApiError && error.status >= 400 && error.status < 500) {
+        continue;
+      }
+
+      throw error;
+    }
+  }
+
+  if (tracks.length === 0) {
+    const currentYear = new Date().getFullYear();
+    for (const year of [currentYear, currentYear - 1]) {
+      try {
+        const query = buildSearchTrackQuery({ year });
+        tracks.push(...(await searchTracks(userId, query, 25)));
+      } catch (error) {
+        if (error instanceof SpotifyApiError && error.status >= 400 && error.status < 500) {
+          continue;
+        }
+
+        throw error;
+      }
+    }
+  }
+
+  return dedupeTracksById(tracks);
+}
+
+async function fetchRecommendationCandidates(
+  userId: string,
+  profile: TasteProfile,
+  seedTracks: string[],
+  seedArtists: string[],
+  seedArtistNames: string[],
+  seedGenres: string[],
+): Promise<{ tracks: SpotifyTrack[]; strategy: string }> {
+  const seedTrackIds = dedupeStrings(seedTracks)
+    .filter((seedId) => isSpotifyEntityId(seedId))
+    .slice(0, MAX_SEEDS_PER_REQUEST);
+  const seedArtistIds = dedupeStrings(seedArtists)
+    .filter((seedId) => isSpotifyEntityId(seedId))
+    .slice(0, MAX_SEEDS_PER_REQUEST);
+
+  if (seedTrackIds.length + seedArtistIds.length === 0 && seedGenres.length === 0) {
+    throw new Error("Not enough listening data to generate recommendations yet.");
+  }
+
+  let availableGenres = new Set<string>();
+  try {
+    availableGenres = await getAvailableGenreSeeds(userId);
+  } catch (error) {
+    if (!(error instanceof SpotifyApiError)) {
+      throw error;
+    }
+
+    if (error.status === 401 || error.status >= 500) {
+      throw error;
+    }
+  }
+
+  const supportedSeedGenres = filterSupportedGenres(seedGenres, availableGenres).slice(
+    0,
+    MAX_SEEDS_PER_REQUEST,
+  );
+
+  const requestedStrategies: SeedRequest[] = [
+    {
+      seedTracks: seedTrackIds,
+      seedArtists: seedArtistIds,
+      seedGenres: supportedSeedGenres,
+      label: "tracks+artists+genres",
+    },
+    {
+      seedTracks: seedTrackIds,
+      seedArtists: seedArtistIds,
+      seedGenres: [],
+      label: "tracks+artists",
+    },
+    {
+      seedTracks: seedTrackIds,
+      seedArtists: [],
+      seedGenres: [],
+      label: "tracks-only",
+    },
+    {
+      seedTracks: [],
+      seedArtists: seedArtistIds,
+      seedGenres: [],
+      label: "artists-only",
+    },
+  ];
+
+  const strategies: SeedRequest[] = [];
+  const strategyKeys = new Set<string>();
+  for (const strategy of requestedStrategies) {
+    const constrained = clampSeedsToSpotifyLimit(strategy);
+    if (!hasAtLeastOneSeed(constrained)) {
+      continue;
+    }
+
+    const key = buildSeedStrategyKey(constrained);
+    if (strategyKeys.has(key)) {
+      continue;
+    }
+
+    strategyKeys.add(key);
+    strategies.push(constrained);
+  }
+
+  if (strategies.length === 0) {
+    throw new Error("Not enough listening data to generate recommendations yet.");
+  }
+
+  let lastClientError: SpotifyApiError | null = null;
+
+  for (const strategy of strategies) {
+    const params = buildRecommendationRequestParams(profile, strategy);
+
+    try {
+      const response = await spotifyRequest<SpotifyRecommendationsResponse>(
+        userId,
+        `/recommendations?${params.toString()}`,
+        undefined,
+        { maxRetries: 5 },
+      );
+
+      if (response.tracks.length > 0) {
+        return { tracks: response.tracks, strategy: strategy.label };
+      }
+    } catch (error) {
+      if (error instanceof SpotifyApiError && error.status >= 400 && error.status < 500) {
+        lastClientError = error;
+        continue;
+      }
+
+      throw error;
+    }
+  }
+
+  const fallbackTracks = await fetchFallbackSearchCandidates(userId, seedArtistNames, seedGenres);
+  if (fallbackTracks.length > 0) {
+    return { tracks: fallbackTracks, strategy: SEARCH_FALLBACK_STRATEGY };
+  }
+
+  if (lastClientError) {
+    throw new Error("Spotify could not generate recommendations from available seed combinations.");
+  }
+
+  throw new Error("Spotify returned no recommendation candidates for your profile.");
+}
+
+async function getAudioFeatureMap(
+  userId: string,
+  trackIds: string[],
+): Promise<Map<string, TasteProfile>> {
+  const featureMap = new Map<string, TasteProfile>();
+
+  if (trackIds.length === 0) {
+    return featureMap;
+  }
+
+  let payload: SpotifyAudioFeaturesResponse;
+  try {
+    payload = await spotifyRequest<SpotifyAudioFeaturesResponse>(
+      userId,
+      `/audio-features?ids=${trackIds.join(",")}`,
+      undefined,
+      {
+        maxRetries: 5,
+      },
+    );
+  } catch (error) {
+    // Spotify restricts audio features for newer apps; candidates are then ranked without them.
+    if (error instanceof SpotifyApiError && error.status >= 400 && error.status < 500 && error.status !== 401) {
+      return featureMap;
+    }
+
+    throw error;
+  }
+
+  for (const feature of payload.audio_features) {
+    if (!feature) {
+      continue;
+    }
+
+    featureMap.set(feature.id, {
+      energy: feature.energy,
+      danceability: feature.danceability,
+      valence: feature.valence,
+      tempo: feature.tempo,
+    });
+  }
+
+  return featureMap;
+}
+
+async function getArtistGenres(
+  userId: string,
+  artistIds: string[],
+): Promise<Map<string, string[]>> {
+  const map = new Map<string, string[]>();
+  if (artistIds.length === 0) {
+    return map;
+  }
+
+  const chunkSize = 50;
+  for (let i = 0; i < artistIds.length; i += chunkSize) {
+    const ids = artistIds.slice(i, i + chunkSize);
+    const payload = await spotifyRequest<SpotifyArtistsResponse>(
+      userId,
+      `/artists?ids=${ids.join(",")}`,
+      undefined,
+      { maxRetries: 5 },
+    );
+
+    for (const artist of payload.artists) {
+      map.set(artist.id, artist.genres ?? []);
+    }
+  }
+
+  return map;
+}
+
+export const spotifyCandidateProvider: CandidateProvider = {
+  name: "spotify",
+  async fetchCandidates(request: CandidateRequest) {
+    const { tracks, strategy } = await fetchRecommendationCandidates(
+      request.userId,
+      request.profile,
+      request.seedTrackIds,
+      request.seedArtistIds,
+      request.seedArtistNames,
+      request.seedGenres,
+    );
+
+    const unseenTracks = tracks.filter((track) => !request.excludedTrackIds.has(track.id));
+    if (unseenTracks.length === 0) {
+      return [];
+    }
+
+    const candidateArtistIds = [
+      ...new Set(unseenTracks.flatMap((track) => track.artists.map((artist) => artist.id))),
+    ];
+
+    const [audioFeatureMap, artistGenres] = await Promise.all([
+      getAudioFeatureMap(
+        request.userId,
+        unseenTracks.slice(0, 100).map((track) => track.id),
+      ),
+      getArtistGenres(request.userId, candidateArtistIds),
+    ]);
+
+    return unseenTracks.map((track) => ({
+      track,
+      features: audioFeatureMap.get(track.id) ?? null,
+      genres: dedupeStrings(track.artists.flatMap((artist) => artistGenres.get(artist.id) ?? [])),
+      strategy,
+    }));
+  },
+};
@@ -0,0 +1,33 @@
+import type { TasteProfile } from "@/lib/recommendations/engine";
+import type { SpotifyTrack } from "@/lib/spotify/types";
+
+export type CandidateRequest = {
+  userId: string;
+  profile: TasteProfile;
+  seedTrackIds: string[];
+  seedArtistIds: string[];
+  seedArtistNames: string[];
+  seedGenres: string[];
+  // Tracks the user has played or marked as known; providers should not return them.
+  excludedTrackIds: Set<string>;
+};
+
+export type RecommendationCandidate = {
+  track: SpotifyTrack;
+  features: TasteProfile | null;
+  // Genres of the track's artists.
+  genres: string[];
+  // Label of the strategy that produced the candidate, reported per strategy by the hit rate.
+  strategy: string;
+  // Set for candidates from the collaborative filtering model: the similarity to the seed artist
+  // whose listeners also play the candidate's artist.
+  collaborative?: {
+    score: number;
+    seedArtistName: string;
+  };
+};
+
+export type CandidateProvider = {
+  name: string;
+  fetchCandidates: (request: CandidateRequest) => Promise<RecommendationCandidate[]>;
+};
@@ -1,10 +1,19 @@
 import { Prisma } from "@prisma/client";
 
+import {
+  getUserTimeZone,
+  refreshListeningRollups,
+  refreshRollupsForCatalogChanges,
+  toRollupDay,
+} from "@/lib/analytics/rollups";
 import { prisma } from "@/lib/prisma";
+import { refreshRecommendationOutcomes } from "@/lib/recommendations/outcomes";
 import { SpotifyApiError, spotifyRequest } from "@/lib/spotify/client";
+import { addEpisodeToCatalog, createPodcastCatalog, upsertPodcastCatalog } from "@/lib/spotify/podcasts";
 import type {
   SpotifyArtistsResponse,
   SpotifyAudioFeaturesResponse,
+  SpotifyRecentlyPlayedEpisodeItem,
   SpotifyRecentlyPlayedItem,
   SpotifyRecentlyPlayedResponse,
   SpotifyTopArtistsResponse,
@@ -12,6 +21,13 @@ import type {
   SpotifyTrack,
 } from "@/lib/spotify/types";
 
+type RecentlyPlayedEntry = SpotifyRecentlyPlayedItem | SpotifyRecentlyPlayedEpisodeItem;
+
+type RecentlyPlayedPage = {
+  items: RecentlyPlayedEntry[];
+  cursorAfter: Date | null;
+};
+
 type ImportSummary = {
   importRunId: string;
   importedPlays: number;
@@ -20,6 +36,8 @@ type ImportSummary = {
   message: string;
 };
 
+export type SpotifyImportMode = "full" | "recently-played";
+
 type AudioFeatureEnrichmentSummary = {
   updatedCount: number;
   skippedCount: number;
@@ -43,13 +61,58 @@ function pickImage(input?: Array<{ url: string }>): string | null {
   return input[0]?.url ?? null;
 }
 
+function isEpisodeEntry(item: RecentlyPlayedEntry): item is SpotifyRecentlyPlayedEpisodeItem {
+  return item.track?.type === "episode";
+}
+
+function parseCursor(value: string | undefined): Date | null {
+  if (!value) {
+    return null;
+  }
+
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? new Date(parsed) : null;
+}
+
+function latestDate(values: Array<Date | null>): Date | null {
+  return values.reduce<Date | null>(
+    (latest, value) => (value && (!latest || value > latest) ? value : latest),
+    null,
+  );
+}
+
+async function resolveRecentlyPlayedCursor(userId: string): Promise<Date | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { recentlyPlayedCursor: true },
+  });
+
+  if (user?.recentlyPlayedCursor) {
+    return user.recentlyPlayedCursor;
+  }
+
+  const newestPlay = await prisma.playEvent.findFirst({
+    where: { userId },
+    orderBy: { playedAt: "desc" },
+    select: { playedAt: true },
+  });
+
+  return newestPlay?.playedAt ?? null;
+}
+
+// With a cursor, only plays after it are requested, moving the cursor forward while pages come
+// back full. Without one (first sync) we page backward through everything Spotify still has.
 async function fetchRecentlyPlayed(
   userId: string,
   onRateLimit: () => Promise<void>,
+  after: Date | null,
   maxPages = 20,
-): Promise<SpotifyRecentlyPlayedItem[]> {
-  const rows: SpotifyRecentlyPlayedItem[] = [];
-  let nextUrl: string | null = "/me/player/recently-played?limit=50";
+): Promise<RecentlyPlayedPage> {
+  const rows: RecentlyPlayedEntry[] = [];
+  let cursorAfter = after;
+  let nextUrl: string | null = after
+    ? `/me/player/recently-played?limit=50&after=${after.getTime()}`
+    : "/me/player/recently-played?limit=50";
   let page = 0;
 
   while (nextUrl && page < maxPages) {
@@ -64,11 +127,27 @@ async function fetchRecentlyPlayed(
     );
 
     rows.push(...payload.items);
-    nextUrl = payload.next;
     page += 1;
+
+    const pageCursor = latestDate([
+      parseCursor(payload.cursors?.after),
+      ...payload.items.map((item) => new Date(item.played_at)),
+    ]);
+    const previousCursor = cursorAfter;
+    cursorAfter = latestDate([cursorAfter, pageCursor]);
+
+    if (after) {
+      const advanced = cursorAfter && (!previousCursor || cursorAfter > previousCursor);
+      nextUrl =
+        payload.items.length === 50 && advanced && cursorAfter
+          ? `/me/player/recently-played?limit=50&after=${cursorAfter.getTime()}`
+          : null;
+    } else {
+      nextUrl = payload.next;
+    }
   }
 
-  return rows;
+  return { items: rows, cursorAfter };
 }
 
 async function fetchTopTracks(
@@ -105,8 +184,26 @@ async function fetchTopArtists(
   return payload.items;
 }
 
-async function upsertTracksAndCoreMetadata(tracks: SpotifyTrack[]): Promise<string[]> {
+function sameMembers(left: string[], right: string[]): boolean {
+  const rightSet = new Set(right);
+  return left.length === right.length && left.every((value) => rightSet.has(value));
+}
+
+// Also returns the already stored tracks whose album, artists or duration changed, since listening
+// rollups copied those values.
+async function upsertTracksAndCoreMetadata(
+  tracks: SpotifyTrack[],
+): Promise<{ trackIds: string[]; changedTrackIds: string[] }> {
   const processedTrackIds = new Set<string>();
+  const changedTrackIds: string[] = [];
+  const storedTracks = new Map(
+    (
+      await prisma.track.findMany({
+        where: { id: { in: tracks.map((track) => track.id) } },
+        select: { id: true, albumId: true, artistIds: true, durationMs: true },
+      })
+    ).map((track) => [track.id, track]),
+  );
 
   for (const track of tracks) {
     processedTrackIds.add(track.id);
@@ -127,6 +224,15 @@ async function upsertTracksAndCoreMetadata(tracks: SpotifyTrack[]): Promise<stri
     });
 
     const artistIds = track.artists.map((artist) => artist.id);
+    const stored = storedTracks.get(track.id);
+    if (
+      stored &&
+      (stored.albumId !== track.album.id ||
+        stored.durationMs !== track.duration_ms ||
+        !sameMembers(stored.artistIds, artistIds))
+    ) {
+      changedTrackIds.push(track.id);
+    }
 
     await prisma.track.upsert({
       where: { id: track.id },
@@ -136,6 +242,7 @@ async function upsertTracksAndCoreMetadata(tracks: SpotifyTrack[]): Promise<stri
         albumId: track.album.id,
         artistIds,
         popularity: track.popularity ?? null,
+        explicit: track.explicit ?? null,
         previewUrl: track.preview_url ?? null,
         imageUrl: pickImage(track.album.images),
       },
@@ -146,6 +253,7 @@ async function upsertTracksAndCoreMetadata(tracks: SpotifyTrack[]): Promise<stri
         albumId: track.album.id,
         artistIds,
         popularity: track.popularity ?? null,
+        explicit: track.explicit ?? null,
         previewUrl: track.preview_url ?? null,
         imageUrl: pickImage(track.album.images),
       },
@@ -182,14 +290,17 @@ async function upsertTracksAndCoreMetadata(tracks: SpotifyTrack[]): Promise<stri
     }
   }
 
-  return [...processedTrackIds];
+  return { trackIds: [...processedTrackIds], changedTrackIds };
 }
 
+// Returns the artists whose genres changed, since listening rollups copied those.
 async function enrichArtists(
   userId: string,
   artistIds: string[],
   onRateLimit: () => Promise<void>,
-): Promise<void> {
+): Promise<string[]> {
+  const changedArtistIds: string[] = [];
+
   for (const ids of chunk(artistIds, 50)) {
     if (ids.length === 0) {
       continue;
@@ -205,7 +316,18 @@ async function enrichArtists(
       },
     );
 
+    const storedGenres = new Map(
+      (
+        await prisma.artist.findMany({ where: { id: { in: ids } }, select: { id: true, genres: true } })
+      ).map((artist) => [artist.id, artist.genres]),
+    );
+
     for (const artist of payload.artists) {
+      const genres = storedGenres.get(artist.id);
+      if (genres && !sameMembers(genres, artist.genres ?? [])) {
+        changedArtistIds.push(artist.id);
+      }
+
       await prisma.artist.upsert({
         where: { id: artist.id },
         update: {
@@ -222,6 +344,8 @@ async function enrichArtists(
       });
     }
   }
+
+  return changedArtistIds;
 }
 
 async function enrichAudioFeatures(
@@ -334,33 +458,70 @@ async function enrichAudioFeatures(
   return { updatedCount, skippedCount };
 }
 
-async function storePlayEvents(userId: string, items: SpotifyRecentlyPlayedItem[]): Promise<number> {
+// Recently played only reports when a play ended, not how long it lasted, so `msPlayed` stays
+// null and listening time falls back to the track duration.
+async function storePlayEvents(
+  userId: string,
+  importRunId: string,
+  items: RecentlyPlayedEntry[],
+): Promise<number> {
   if (items.length === 0) {
     return 0;
   }
 
-  const rows: Prisma.PlayEventCreateManyInput[] = items
+  const validItems = items
     .filter((item) => item.track?.id && item.played_at)
-    .map((item) => ({
+    .sort((a, b) => new Date(a.played_at).getTime() - new Date(b.played_at).getTime());
+
+  const trackRows: Prisma.PlayEventCreateManyInput[] = [];
+  const episodeRows: Prisma.EpisodePlayEventCreateManyInput[] = [];
+
+  validItems.forEach((item) => {
+    const row = {
       userId,
-      trackId: item.track.id,
       playedAt: new Date(item.played_at),
       importSource: "recently_played",
-    }));
-
-  if (rows.length === 0) {
-    return 0;
-  }
+      importRunId,
+    };
 
-  const result = await prisma.playEvent.createMany({
-    data: rows,
-    skipDuplicates: true,
+    if (isEpisodeEntry(item)) {
+      episodeRows.push({ ...row, episodeId: item.track.id });
+    } else {
+      trackRows.push({ ...row, trackId: item.track.id });
+    }
   });
 
-  return result.count;
+  const [trackResult, episodeResult] = await Promise.all([
+    trackRows.length > 0
+      ? prisma.playEvent.createMany({ data: trackRows, skipDuplicates: true })
+      : { count: 0 },
+    episodeRows.length > 0
+      ? prisma.episodePlayEvent.createMany({ data: episodeRows, skipDuplicates: true })
+      : { count: 0 },
+  ]);
+
+  if (trackResult.count > 0) {
+    const timeZone = await getUserTimeZone(userId);
+    await refreshListeningRollups(
+      userId,
+      trackRows.map((row) => toRollupDay(row.playedAt, timeZone)),
+    );
+    await refreshRecommendationOutcomes(
+      userId,
+      trackRows.map((row) => row.trackId),
+    );
+  }
+
+  return trackResult.count + episodeResult.count;
 }
 
-export async function runSpotifyImport(userId: string, importRunId: string): Promise<ImportSummary> {
+// Once `signal` aborts, the import stops before its next write and leaves the run untouched.
+export async function runSpotifyImport(
+  userId: string,
+  importRunId: string,
+  mode: SpotifyImportMode = "full",
+  signal?: AbortSignal,
+): Promise<ImportSummary> {
   let rateLimitedHits = 0;
 
   const onRateLimit = async () => {
@@ -380,14 +541,32 @@ export async function runSpotifyImport(userId: string, importRunId: string): Pro
       data: { status: "running", message: "Fetching recently played tracks..." },
     });
 
-    const recentlyPlayed = await fetchRecentlyPlayed(userId, onRateLimit);
-    const topTracks = await fetchTopTracks(userId, onRateLimit);
-    const topArtists = await fetchTopArtists(userId, onRateLimit);
+    const syncCursor = await resolveRecentlyPlayedCursor(userId);
+    const { items: recentlyPlayed, cursorAfter } = await fetchRecentlyPlayed(
+      userId,
+      onRateLimit,
+      syncCursor,
+    );
+    const oldestFetched = recentlyPlayed.reduce<Date | null>((oldest, item) => {
+      const playedAt = new Date(item.played_at);
+      return !oldest || playedAt < oldest ? playedAt : oldest;
+    }, null);
+    const cursorFrom = syncCursor ?? oldestFetched;
+
+    // Scheduled syncs only need the play history; top lists are refreshed by full imports.
+    const topTracks = mode === "full" ? await fetchTopTracks(userId, onRateLimit) : [];
+    const topArtists = mode === "full" ? await fetchTopArtists(userId, onRateLimit) : [];
 
     const mergedTracksMap = new Map<string, SpotifyTrack>();
 
+    const podcastCatalog = createPodcastCatalog();
+
     for (const item of recentlyPlayed) {
-      mergedTracksMap.set(item.track.id, item.track);
+      if (isEpisodeEntry(item)) {
+        addEpisodeToCatalog(podcastCatalog, item.track);
+      } else {
+        mergedTracksMap.set(item.track.id, item.track);
+      }
     }
 
     for (const track of topTracks) {
@@ -403,7 +582,9 @@ export async function runSpotifyImport(userId: string, importRunId: string): Pro
       },
     });
 
-    const importedTrackIds = await upsertTracksAndCoreMetadata(mergedTracks);
+    signal?.throwIfAborted();
+    const { trackIds: importedTrackIds, changedTrackIds } = await upsertTracksAndCoreMetadata(mergedTracks);
+    await upsertPodcastCatalog(podcastCatalog);
 
     const artistIdSet = new Set<string>();
     for (const track of mergedTracks) {
@@ -418,10 +599,13 @@ export async function runSpotifyImport(userId: string, importRunId: string): Pro
       },
     });
 
-    await enrichArtists(userId, [...artistIdSet], onRateLimit);
+    signal?.throwIfAborted();
+    const changedArtistIds = await enrichArtists(userId, [...artistIdSet], onRateLimit);
+    await refreshRollupsForCatalogChanges(changedTrackIds, changedArtistIds);
     const audioFeatureSummary = await enrichAudioFeatures(userId, importedTrackIds, onRateLimit);
 
-    const importedPlays = await storePlayEvents(userId, recentlyPlayed);
+    signal?.throwIfAborted();
+    const importedPlays = await storePlayEvents(userId, importRunId, recentlyPlayed);
 
     const audioFeaturesNote =
       audioFeatureSummary.skippedCount > 0
@@ -438,6 +622,7 @@ export async function runSpotifyImport(userId: string, importRunId: string): Pro
           rateLimitedHits > 0
             ? `${completionMessage} with ${rateLimitedHits} rate-limit retries`
             : completionMessage,
+        recentlyPlayedCursor: cursorAfter,
       },
     });
 
@@ -448,6 +633,8 @@ export async function runSpotifyImport(userId: string, importRunId: string): Pro
         importedPlays,
         importedTracks: importedTrackIds.length,
         rateLimitedHits,
+        cursorFrom,
+        cursorTo: cursorAfter,
         message: completionMessage,
         finishedAt: new Date(),
       },
@@ -461,6 +648,10 @@ export async function runSpotifyImport(userId: string, importRunId: string): Pro
       message: completionMessage,
     };
   } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
+
     const message =
       error instanceof Error ? error.message : "Spotify import failed for an unknown reason";
 
@@ -0,0 +1,140 @@
+import type { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import { SpotifyApiError, spotifyRequest } from "@/lib/spotify/client";
+import type {
+  SpotifyChapter,
+  SpotifyChaptersResponse,
+  SpotifyEpisode,
+  SpotifyEpisodesResponse,
+  SpotifyImage,
+} from "@/lib/spotify/types";
+
+export type PodcastCatalog = {
+  shows: Prisma.ShowCreateManyInput[];
+  episodes: Prisma.EpisodeCreateManyInput[];
+};
+
+export type ShowMediaType = "podcast" | "audiobook";
+
+const SPOTIFY_ID_REGEX = /^[A-Za-z0-9]{22}$/;
+const LOOKUP_CHUNK_SIZE = 50;
+
+function pickImage(input?: SpotifyImage[]): string | null {
+  return input?.[0]?.url ?? null;
+}
+
+export function createPodcastCatalog(): PodcastCatalog {
+  return { shows: [], episodes: [] };
+}
+
+export function addEpisodeToCatalog(catalog: PodcastCatalog, episode: SpotifyEpisode): void {
+  catalog.shows.push({
+    id: episode.show.id,
+    name: episode.show.name,
+    publisher: episode.show.publisher ?? null,
+    mediaType: "podcast",
+    imageUrl: pickImage(episode.show.images),
+  });
+
+  catalog.episodes.push({
+    id: episode.id,
+    showId: episode.show.id,
+    name: episode.name,
+    durationMs: episode.duration_ms,
+    releaseDate: episode.release_date ?? null,
+    imageUrl: pickImage(episode.images) ?? pickImage(episode.show.images),
+  });
+}
+
+export function addChapterToCatalog(catalog: PodcastCatalog, chapter: SpotifyChapter): void {
+  catalog.shows.push({
+    id: chapter.audiobook.id,
+    name: chapter.audiobook.name,
+    publisher: chapter.audiobook.publisher ?? null,
+    mediaType: "audiobook",
+    imageUrl: pickImage(chapter.audiobook.images),
+  });
+
+  catalog.episodes.push({
+    id: chapter.id,
+    showId: chapter.audiobook.id,
+    name: chapter.name,
+    durationMs: chapter.duration_ms,
+    releaseDate: chapter.release_date ?? null,
+    imageUrl: pickImage(chapter.images) ?? pickImage(chapter.audiobook.images),
+  });
+}
+
+// Looks up podcast episodes or audiobook chapters 50 at a time. Failed batches are logged and
+// left out, like unresolved track ids in the JSON import.
+export async function fetchPodcastCatalog(
+  userId: string,
+  ids: string[],
+  mediaType: ShowMediaType,
+): Promise<PodcastCatalog> {
+  const catalog = createPodcastCatalog();
+  const validIds = [...new Set(ids)].filter((id) => SPOTIFY_ID_REGEX.test(id));
+
+  for (let i = 0; i < validIds.length; i += LOOKUP_CHUNK_SIZE) {
+    const chunkIds = validIds.slice(i, i + LOOKUP_CHUNK_SIZE).join(",");
+
+    try {
+      if (mediaType === "podcast") {
+        const payload = await spotifyRequest<SpotifyEpisodesResponse>(
+          userId,
+          `/episodes?ids=${chunkIds}`,
+          undefined,
+          { maxRetries: 5 },
+        );
+        payload.episodes.forEach((episode) => episode && addEpisodeToCatalog(catalog, episode));
+      } else {
+        const payload = await spotifyRequest<SpotifyChaptersResponse>(
+          userId,
+          `/chapters?ids=${chunkIds}`,
+          undefined,
+          { maxRetries: 5 },
+        );
+        payload.chapters.forEach((chapter) => chapter && addChapterToCatalog(catalog, chapter));
+      }
+    } catch (error) {
+      if (error instanceof SpotifyApiError && error.status !== 401) {
+        console.warn(
+          `[JSON import] ${mediaType === "podcast" ? "Episode" : "Chapter"} lookup failed with status ${error.status}`,
+        );
+        continue;
+      }
+
+      throw error;
+    }
+  }
+
+  return catalog;
+}
+
+export async function upsertPodcastCatalog(catalog: PodcastCatalog): Promise<void> {
+  for (const show of new Map(catalog.shows.map((row) => [row.id, row])).values()) {
+    await prisma.show.upsert({
+      where: { id: show.id },
+      update: {
+        name: show.name,
+        publisher: show.publisher,
+        imageUrl: show.imageUrl,
+      },
+      create: show,
+    });
+  }
+
+  for (const episode of new Map(catalog.episodes.map((row) => [row.id, row])).values()) {
+    await prisma.episode.upsert({
+      where: { id: episode.id },
+      update: {
+        name: episode.name,
+        durationMs: episode.durationMs,
+        releaseDate: episode.releaseDate,
+        imageUrl: episode.imageUrl,
+      },
+      create: episode,
+    });
+  }
+}
@@ -20,23 +20,75 @@ export type SpotifyAlbum = {
 };
 
 export type SpotifyTrack = {
+  type?: "track";
   id: string;
   name: string;
   duration_ms: number;
   popularity?: number;
+  explicit?: boolean;
   preview_url?: string | null;
   album: SpotifyAlbum;
   artists: SpotifyArtist[];
 };
 
+export type SpotifyShow = {
+  id: string;
+  name: string;
+  publisher?: string;
+  images?: SpotifyImage[];
+};
+
+export type SpotifyEpisode = {
+  type: "episode";
+  id: string;
+  name: string;
+  duration_ms: number;
+  release_date?: string;
+  images?: SpotifyImage[];
+  show: SpotifyShow;
+};
+
+export type SpotifyAudiobook = {
+  id: string;
+  name: string;
+  publisher?: string;
+  images?: SpotifyImage[];
+};
+
+export type SpotifyChapter = {
+  id: string;
+  name: string;
+  duration_ms: number;
+  release_date?: string;
+  images?: SpotifyImage[];
+  audiobook: SpotifyAudiobook;
+};
+
 export type SpotifyRecentlyPlayedItem = {
   track: SpotifyTrack;
   played_at: string;
 };
 
+export type SpotifyRecentlyPlayedEpisodeItem = {
+  track: SpotifyEpisode;
+  played_at: string;
+};
+
 export type SpotifyRecentlyPlayedResponse = {
-  items: SpotifyRecentlyPlayedItem[];
+  items: Array<SpotifyRecentlyPlayedItem | SpotifyRecentlyPlayedEpisodeItem>;
   next: string | null;
+  cursors?: {
+    after?: string;
+    before?: string;
+  } | null;
+};
+
+export type SpotifyEpisodesResponse = {
+  episodes: Array<SpotifyEpisode | null>;
+};
+
+export type SpotifyChaptersResponse = {
+  chapters: Array<SpotifyChapter | null>;
 };
 
 export type SpotifyTopTracksResponse = {
@@ -0,0 +1,15 @@
+import { runImportWorker } from "@/lib/jobs/worker";
+import { prisma } from "@/lib/prisma";
+
+const controller = new AbortController();
+
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => controller.abort());
+}
+
+runImportWorker({ signal: controller.signal })
+  .catch((error) => {
+    console.error("Import worker crashed", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,18 @@
+import { rebuildListeningRollups } from "@/lib/analytics/rollups";
+import { prisma } from "@/lib/prisma";
+
+async function rebuildAllRollups() {
+  const users = await prisma.user.findMany({ select: { id: true }, orderBy: { createdAt: "asc" } });
+
+  for (const [index, user] of users.entries()) {
+    await rebuildListeningRollups(user.id);
+    console.log(`Rebuilt listening rollups for ${index + 1}/${users.length} users`);
+  }
+}
+
+rebuildAllRollups()
+  .catch((error) => {
+    console.error("Rollup rebuild failed", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
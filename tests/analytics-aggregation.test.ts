@@ -0,0 +1,308 @@
+import { type Album, type Artist, Prisma, type PrismaClient, type Track } from "@prisma/client";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { aggregatePlayEvents, type AggregationPlayEvent } from "@/lib/analytics/aggregate";
+import { insertRollupsSql } from "@/lib/analytics/rollups";
+import { aggregateRange } from "@/lib/analytics/service";
+import type { AggregationResult, EntityDetail, EntityRef } from "@/lib/analytics/types";
+import type { TimeRange } from "@/lib/date-range";
+
+import { createTestDatabase, type TestDatabase } from "./test-database";
+
+const testDatabaseUrl = process.env.TEST_DATABASE_URL;
+const suffix = Date.now().toString(36);
+
+function makeTrack(partial: Partial<Track> & Pick<Track, "id" | "durationMs">): Track {
+  return {
+    name: `Track ${partial.id}`,
+    albumId: null,
+    artistIds: [],
+    popularity: null,
+    explicit: null,
+    previewUrl: null,
+    imageUrl: null,
+    danceability: null,
+    energy: null,
+    valence: null,
+    tempo: null,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    ...partial,
+  };
+}
+
+const albums: Album[] = [`${suffix}-al-1`, `${suffix}-al-2`].map((id) => ({
+  id,
+  name: `Album ${id}`,
+  releaseDate: null,
+  imageUrl: null,
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+}));
+
+// The "-missing" artist has no row, so it is reported as "Unknown Artist" with the "Unknown" genre.
+const artists: Artist[] = [
+  { id: `${suffix}-ar-a`, genres: ["indie"] },
+  { id: `${suffix}-ar-b`, genres: ["rock"] },
+].map((artist) => ({
+  ...artist,
+  name: `Artist ${artist.id}`,
+  imageUrl: null,
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+}));
+
+const tracks: Track[] = [
+  makeTrack({
+    id: `${suffix}-t1`,
+    durationMs: 180_000,
+    albumId: `${suffix}-al-1`,
+    artistIds: [`${suffix}-ar-a`],
+    energy: 0.8,
+    danceability: 0.6,
+    valence: 0.5,
+    tempo: 120,
+  }),
+  makeTrack({
+    id: `${suffix}-t2`,
+    durationMs: 240_000,
+    albumId: `${suffix}-al-1`,
+    artistIds: [`${suffix}-ar-a`, `${suffix}-ar-b`],
+  }),
+  makeTrack({
+    id: `${suffix}-t3`,
+    durationMs: 210_000,
+    artistIds: [`${suffix}-ar-b`, `${suffix}-ar-missing`],
+    energy: 0.4,
+    danceability: 0.5,
+    valence: 0.3,
+    tempo: 90,
+  }),
+  makeTrack({
+    id: `${suffix}-t4`,
+    durationMs: 300_000,
+    albumId: `${suffix}-al-2`,
+    artistIds: [`${suffix}-ar-a`],
+    energy: 0.9,
+  }),
+];
+
+const playEvents: AggregationPlayEvent[] = [
+  { trackId: `${suffix}-t3`, playedAt: new Date("2024-01-21T07:00:00Z"), msPlayed: 90_000 },
+  { trackId: `${suffix}-t2`, playedAt: new Date("2024-01-20T13:00:00Z"), msPlayed: 30_000 },
+  { trackId: `${suffix}-t1`, playedAt: new Date("2024-01-20T12:00:00Z"), msPlayed: 60_000 },
+  { trackId: `${suffix}-t4`, playedAt: new Date("2024-01-10T22:30:00Z"), msPlayed: 180_000 },
+  { trackId: `${suffix}-t1`, playedAt: new Date("2024-01-05T08:00:00Z"), msPlayed: null },
+  { trackId: `${suffix}-t3`, playedAt: new Date("2024-01-04T18:00:00Z"), msPlayed: null },
+  { trackId: `${suffix}-t2`, playedAt: new Date("2024-01-03T09:00:00Z"), msPlayed: null },
+  { trackId: `${suffix}-t1`, playedAt: new Date("2024-01-02T10:00:00Z"), msPlayed: 120_000 },
+];
+
+const range: TimeRange = {
+  from: new Date("2024-01-01T00:00:00Z"),
+  to: new Date("2024-01-31T23:59:59.999Z"),
+  preset: "custom",
+};
+
+describe("aggregatePlayEvents", () => {
+  it("totals listening time from msPlayed and falls back to the track duration", () => {
+    const result = aggregatePlayEvents(playEvents, { tracks, artists, albums });
+
+    // 90 + 30 + 60 + 180 + 180 + 210 + 240 + 120 seconds
+    expect(result.totalListeningHours).toBe(0.31);
+    expect(result.totalUniqueSongs).toBe(4);
+    expect(result.totalUniqueAlbums).toBe(2);
+    expect(result.totalUniqueArtists).toBe(3);
+    expect(result.listeningOverTime[0]).toEqual({ date: "2024-01-02", plays: 1, minutes: 2 });
+  });
+
+  it("breaks play-count ties by the most recent play", () => {
+    const result = aggregatePlayEvents(playEvents, { tracks, artists, albums });
+
+    expect(result.songs.map((song) => song.id)).toEqual([
+      `${suffix}-t1`,
+      `${suffix}-t3`,
+      `${suffix}-t2`,
+      `${suffix}-t4`,
+    ]);
+    expect(result.artists.find((artist) => artist.id === `${suffix}-ar-missing`)?.name).toBe("Unknown Artist");
+    expect(result.genres.map((genre) => genre.id)).toEqual(["indie", "rock", "Unknown"]);
+  });
+});
+
+// Runs the Postgres aggregation on an in-process database and compares it with the reference.
+describe("aggregateRange", () => {
+  const userId = `${suffix}-user`;
+  let database: TestDatabase;
+
+  const expectMatchesInMemory = async (target: TimeRange, timeZone: string, fromRollups: boolean) => {
+    const inRange = playEvents.filter((event) => event.playedAt >= target.from && event.playedAt <= target.to);
+
+    expect(await aggregateRange(database.query, userId, target, { timeZone, fromRollups })).toEqual(
+      aggregatePlayEvents(inRange, { tracks, artists, albums }, timeZone),
+    );
+  };
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+
+    await database.insert(
+      "albums",
+      albums.map((album) => ({ id: album.id, name: album.name, image_url: album.imageUrl })),
+    );
+    await database.insert(
+      "artists",
+      artists.map((artist) => ({
+        id: artist.id,
+        name: artist.name,
+        image_url: artist.imageUrl,
+        genres: artist.genres,
+      })),
+    );
+    await database.insert(
+      "tracks",
+      tracks.map((track) => ({
+        id: track.id,
+        name: track.name,
+        duration_ms: track.durationMs,
+        album_id: track.albumId,
+        artist_ids: track.artistIds,
+        image_url: track.imageUrl,
+        energy: track.energy,
+        danceability: track.danceability,
+        valence: track.valence,
+        tempo: track.tempo,
+      })),
+    );
+    await database.insert(
+      "play_events",
+      playEvents.map((event, index) => ({
+        id: `${suffix}-pe-${index}`,
+        user_id: userId,
+        track_id: event.trackId,
+        played_at: event.playedAt,
+        ms_played: event.msPlayed,
+      })),
+    );
+  }, 60_000);
+
+  afterAll(async () => {
+    await database?.close();
+  });
+
+  it("matches the in-memory aggregation", async () => {
+    await expectMatchesInMemory(range, "UTC", false);
+    await expectMatchesInMemory({ from: range.from, to: new Date("2024-01-20T12:30:00Z") }, "UTC", false);
+    await expectMatchesInMemory(range, "America/New_York", false);
+  });
+
+  it("matches the in-memory aggregation when reading the daily rollups", async () => {
+    await database.execute(insertRollupsSql(userId, "UTC", Prisma.empty));
+
+    await expectMatchesInMemory(range, "UTC", true);
+    await expectMatchesInMemory(
+      { from: new Date("2024-01-04T00:00:00Z"), to: new Date("2024-01-20T23:59:59.999Z") },
+      "UTC",
+      true,
+    );
+  });
+});
+
+// Needs a Postgres database with the schema pushed; set TEST_DATABASE_URL to run it.
+describe.skipIf(!testDatabaseUrl)("aggregateForRange", () => {
+  let prisma: PrismaClient;
+  let aggregateForRange: (userId: string, range: TimeRange) => Promise<AggregationResult>;
+  let rebuildListeningRollups: (userId: string) => Promise<void>;
+  let getEntityDetail: (userId: string, range: TimeRange, entity: EntityRef) => Promise<EntityDetail | null>;
+  let userId: string;
+
+  const expectMatchesInMemory = async (target: TimeRange) => {
+    const stored = await prisma.playEvent.findMany({
+      where: { userId, playedAt: { gte: target.from, lte: target.to } },
+      orderBy: { playedAt: "desc" },
+    });
+
+    expect(await aggregateForRange(userId, target)).toEqual(
+      aggregatePlayEvents(stored, { tracks, artists, albums }),
+    );
+  };
+
+  beforeAll(async () => {
+    process.env.DATABASE_URL = testDatabaseUrl;
+    ({ prisma } = await import("@/lib/prisma"));
+    ({ aggregateForRange, getEntityDetail } = await import("@/lib/analytics/service"));
+    ({ rebuildListeningRollups } = await import("@/lib/analytics/rollups"));
+
+    const user = await prisma.user.create({ data: { spotifyId: `aggregation-test-${suffix}` } });
+    userId = user.id;
+
+    await prisma.album.createMany({ data: albums });
+    await prisma.artist.createMany({ data: artists });
+    await prisma.track.createMany({ data: tracks });
+    await prisma.playEvent.createMany({
+      data: [
+        ...playEvents,
+        // Outside the range.
+        { trackId: `${suffix}-t4`, playedAt: new Date("2024-02-02T10:00:00Z"), msPlayed: 60_000 },
+      ].map((event) => ({ ...event, userId })),
+    });
+  });
+
+  afterAll(async () => {
+    if (!prisma) {
+      return;
+    }
+
+    await prisma.user.deleteMany({ where: { id: userId } });
+    await prisma.track.deleteMany({ where: { id: { in: tracks.map((track) => track.id) } } });
+    await prisma.artist.deleteMany({ where: { id: { in: artists.map((artist) => artist.id) } } });
+    await prisma.album.deleteMany({ where: { id: { in: albums.map((album) => album.id) } } });
+    await prisma.$disconnect();
+  });
+
+  it("matches the in-memory aggregation", async () => {
+    await expectMatchesInMemory(range);
+  });
+
+  it("matches the in-memory aggregation when reading the daily rollups", async () => {
+    await rebuildListeningRollups(userId);
+
+    await expectMatchesInMemory(range);
+    // Not whole days, so this one is aggregated from the play events.
+    await expectMatchesInMemory({ from: range.from, to: new Date("2024-01-20T12:30:00Z") });
+  });
+
+  it("reports entity details that agree with the rankings", async () => {
+    const expected = aggregatePlayEvents(playEvents, { tracks, artists, albums });
+
+    for (const [type, entry] of [
+      ["artist", expected.artists.find((artist) => artist.id === `${suffix}-ar-a`)],
+      ["album", expected.albums.find((album) => album.id === `${suffix}-al-1`)],
+      ["genre", expected.genres.find((genre) => genre.id === "Unknown")],
+    ] as const) {
+      const detail = await getEntityDetail(userId, range, { type, id: entry!.id });
+
+      expect(detail?.totalPlays).toBe(entry!.playCount);
+      expect(detail?.totalMinutes).toBe(entry!.totalMinutes);
+      expect(detail?.lastListened).toBe(entry!.lastListened);
+      expect(detail?.hourOfDay.reduce((sum, hour) => sum + hour.plays, 0)).toBe(entry!.playCount);
+    }
+
+    const track = await getEntityDetail(userId, range, { type: "track", id: `${suffix}-t1` });
+    expect(track?.firstListened).toBe("2024-01-02T10:00:00.000Z");
+    expect(track?.artists).toEqual([{ id: `${suffix}-ar-a`, name: `Artist ${suffix}-ar-a` }]);
+    // One play each at 08:00, 10:00 and 12:00; ties go to the earliest hour.
+    expect(track?.peakHour).toBe(8);
+    expect(await getEntityDetail(userId, range, { type: "artist", id: `${suffix}-ar-none` })).toBeNull();
+  });
+
+  it("returns an empty aggregation when the range has no plays", async () => {
+    const empty = await aggregateForRange(userId, {
+      from: new Date("2023-01-01T00:00:00Z"),
+      to: new Date("2023-12-31T23:59:59.999Z"),
+    });
+
+    expect(empty.songs).toEqual([]);
+    expect(empty.totalListeningHours).toBe(0);
+  });
+});
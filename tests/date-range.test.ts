@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  getYearRange,
+  isWholeDayRange,
+  parseTimeRangeFromSearchParams,
+  resolveTimeZone,
+  startOfDateKey,
+  toDateKey,
+} from "@/lib/date-range";
+
+describe("time zone day boundaries", () => {
+  it("buckets an instant into the calendar day of the zone", () => {
+    const playedAt = new Date("2024-03-10T03:30:00Z");
+
+    expect(toDateKey(playedAt)).toBe("2024-03-10");
+    expect(toDateKey(playedAt, "America/New_York")).toBe("2024-03-09");
+    expect(toDateKey(playedAt, "Asia/Tokyo")).toBe("2024-03-10");
+  });
+
+  it("finds local midnight on days next to a DST change", () => {
+    // New York switches to EDT at 2am on 2024-03-10, and back to EST on 2024-11-03.
+    expect(startOfDateKey("2024-03-10", "America/New_York").toISOString()).toBe("2024-03-10T05:00:00.000Z");
+    expect(startOfDateKey("2024-03-11", "America/New_York").toISOString()).toBe("2024-03-11T04:00:00.000Z");
+    expect(startOfDateKey("2024-11-03", "America/New_York").toISOString()).toBe("2024-11-03T04:00:00.000Z");
+    expect(startOfDateKey("2024-11-04", "America/New_York").toISOString()).toBe("2024-11-04T05:00:00.000Z");
+  });
+
+  it("parses custom ranges as whole days in the zone", () => {
+    const range = parseTimeRangeFromSearchParams({ from: "2024-01-01", to: "2024-01-31" }, "Europe/Berlin");
+
+    expect(range.from.toISOString()).toBe("2023-12-31T23:00:00.000Z");
+    expect(range.to.toISOString()).toBe("2024-01-31T22:59:59.999Z");
+    expect(isWholeDayRange(range, "Europe/Berlin")).toBe(true);
+    expect(isWholeDayRange(range, "UTC")).toBe(false);
+  });
+
+  it("builds year ranges and falls back to UTC for unknown zones", () => {
+    const range = getYearRange(2024, "Asia/Kolkata");
+
+    expect(range.from.toISOString()).toBe("2023-12-31T18:30:00.000Z");
+    expect(range.to.toISOString()).toBe("2024-12-31T18:29:59.999Z");
+    expect(resolveTimeZone("Not/AZone")).toBe("UTC");
+    expect(resolveTimeZone(null)).toBe("UTC");
+  });
+});
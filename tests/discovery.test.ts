@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+
+import { buildDiscoveryReport, startOfPeriodKey } from "@/lib/analytics/discovery";
+import type { Discovery } from "@/lib/analytics/types";
+
+describe("startOfPeriodKey", () => {
+  it("starts weeks on Monday and months on the first", () => {
+    expect(startOfPeriodKey("2024-03-03", "week")).toBe("2024-02-26");
+    expect(startOfPeriodKey("2024-03-04", "week")).toBe("2024-03-04");
+    expect(startOfPeriodKey("2024-03-31", "month")).toBe("2024-03-01");
+  });
+});
+
+describe("buildDiscoveryReport", () => {
+  const discoveries: Discovery[] = [
+    { type: "track", id: "t1", name: "Track 1", firstPlayedAt: "2024-03-04T10:00:00.000Z" },
+    { type: "artist", id: "a1", name: "Artist 1", firstPlayedAt: "2024-03-04T10:00:00.000Z" },
+    { type: "genre", id: "indie", name: "indie", firstPlayedAt: "2024-03-04T10:00:00.000Z" },
+    // Sunday evening in UTC, but already Monday in Tokyo.
+    { type: "track", id: "t2", name: "Track 2", firstPlayedAt: "2024-03-10T20:00:00.000Z" },
+  ];
+
+  it("groups first plays by week in the user's time zone", () => {
+    const utc = buildDiscoveryReport(discoveries, [], "week", "UTC");
+    expect(utc.periods.map((period) => [period.periodStart, period.newTracks])).toEqual([["2024-03-04", 2]]);
+
+    const tokyo = buildDiscoveryReport(discoveries, [], "week", "Asia/Tokyo");
+    expect(tokyo.periods.map((period) => [period.periodStart, period.newTracks])).toEqual([
+      ["2024-03-11", 1],
+      ["2024-03-04", 1],
+    ]);
+    expect(tokyo.totals).toMatchObject({ newTracks: 2, newArtists: 1, newGenres: 1 });
+  });
+
+  it("computes novelty ratios per period and overall", () => {
+    const report = buildDiscoveryReport(
+      [],
+      [
+        { periodStart: "2024-03-01", listenedMs: 600_000, novelMs: 150_000 },
+        { periodStart: "2024-02-01", listenedMs: 0, novelMs: 0 },
+        { periodStart: "2024-01-01", listenedMs: 200_000, novelMs: 150_000 },
+      ],
+      "month",
+      "UTC",
+    );
+
+    expect(report.periods.map((period) => period.noveltyRatio)).toEqual([0.25, null, 0.75]);
+    expect(report.totals.noveltyRatio).toBe(0.375);
+  });
+});
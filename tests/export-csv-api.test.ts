@@ -37,6 +37,7 @@ describe("GET /api/export/csv", () => {
         topSongsPreview: [],
         topArtistsPreview: [],
         topAlbumsPreview: [],
+        topGenresPreview: [],
       },
       topSongs: [{ rank: 1, id: "t1", name: "S1", imageUrl: null, playCount: 10, totalMinutes: 25, lastListened: null }],
       topArtists: [],
@@ -49,12 +50,15 @@ describe("GET /api/export/csv", () => {
         topArtist: null,
         topAlbum: null,
         topGenres: [],
+        longestStreak: null,
+        milestones: [],
         personality: {
           label: "Balanced Explorer",
           description: "Test",
           traits: { energy: 0.5, danceability: 0.5, valence: 0.5, tempo: 120 },
         },
       },
+      milestones: { listeningStreak: { current: null, longest: null }, topArtistStreak: null, milestones: [] },
     });
 
     const request = new NextRequest("http://localhost:3000/api/export/csv?preset=month");
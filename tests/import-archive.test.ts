@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+
+import { classifyArchiveEntry, isZipUpload } from "@/lib/import/archive";
+
+describe("classifyArchiveEntry", () => {
+  it("imports audio history files and skips everything else", () => {
+    expect(
+      classifyArchiveEntry("Spotify Extended Streaming History/Streaming_History_Audio_2019-2021_0.json"),
+    ).toBeNull();
+    expect(
+      classifyArchiveEntry("Spotify Extended Streaming History/Streaming_History_Video_2019-2024.json"),
+    ).toBe("Video history is not imported");
+    expect(classifyArchiveEntry("Streaming_History_Podcast_2020.json")).toBe(
+      "Podcast history is not imported",
+    );
+    expect(classifyArchiveEntry("Spotify Extended Streaming History/ReadMeFirst_ExtendedStreamingHistory.pdf")).toBe(
+      "Not a Spotify audio streaming history file",
+    );
+  });
+});
+
+describe("isZipUpload", () => {
+  it("detects ZIP uploads by name or content type", () => {
+    expect(isZipUpload("my_spotify_data.zip", null)).toBe(true);
+    expect(isZipUpload("upload.bin", "application/zip")).toBe(true);
+    expect(isZipUpload("Streaming_History_Audio_2023.json", "application/json")).toBe(false);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+
+import { JsonStreamSyntaxError, streamJsonRecords } from "@/lib/import/json-stream";
+
+async function* chunked(text: string, size: number): AsyncGenerator<Uint8Array> {
+  const bytes = new TextEncoder().encode(text);
+  for (let index = 0; index < bytes.length; index += size) {
+    yield bytes.slice(index, index + size);
+  }
+}
+
+async function collect(text: string, size = 3) {
+  const records = [];
+  for await (const record of streamJsonRecords(chunked(text, size))) {
+    records.push(record);
+  }
+  return records;
+}
+
+describe("streamJsonRecords", () => {
+  it("yields elements of a top-level array across chunk boundaries", async () => {
+    const items = [
+      { ts: "2024-01-01T00:00:00Z", ms_played: 120000, name: "Café \"Live\" [remix]" },
+      { ts: "2024-01-02T00:00:00Z", ms_played: 30000, name: "東京" },
+    ];
+
+    const records = await collect(JSON.stringify(items, null, 2));
+
+    expect(records).toEqual(items.map((value) => ({ section: null, value })));
+  });
+
+  it("yields array sections of a top-level object and skips other values", async () => {
+    const payload = {
+      profile: { id: "user-1", tags: ["a"] },
+      albums: [{ id: "album-1" }],
+      plays: [{ trackId: "track-1" }, { trackId: "track-2" }],
+      aggregates: { totals: [1, 2, 3] },
+    };
+
+    const records = await collect(JSON.stringify(payload), 5);
+
+    expect(records).toEqual([
+      { section: "albums", value: { id: "album-1" } },
+      { section: "plays", value: { trackId: "track-1" } },
+      { section: "plays", value: { trackId: "track-2" } },
+    ]);
+  });
+
+  it("rejects truncated and malformed documents", async () => {
+    await expect(collect('[{"a": 1}, {"b"')).rejects.toBeInstanceOf(JsonStreamSyntaxError);
+    await expect(collect('[{"a": 1}]]')).rejects.toBeInstanceOf(JsonStreamSyntaxError);
+    await expect(collect('[{"a": tru}]')).rejects.toBeInstanceOf(JsonStreamSyntaxError);
+  });
+});
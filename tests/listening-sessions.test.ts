@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+
+import { buildListeningSessions, summarizeListeningSessions } from "@/lib/analytics/sessions";
+import type { SessionPlay } from "@/lib/analytics/types";
+
+function play(trackId: string, playedAt: string, listenedMs = 180_000): SessionPlay {
+  return { trackId, trackName: `Track ${trackId}`, artistIds: [], playedAt: new Date(playedAt), listenedMs };
+}
+
+const plays: SessionPlay[] = [
+  // Out of order on purpose; the builder sorts by playedAt.
+  play("b", "2024-01-01T08:03:00Z"),
+  play("a", "2024-01-01T08:00:00Z"),
+  // 29 minutes after "b" ended (08:06), so still the first session.
+  play("c", "2024-01-01T08:35:00Z", 600_000),
+  // 31 minutes after "c" ended (08:45).
+  play("a", "2024-01-01T09:16:00Z"),
+  play("d", "2024-01-01T20:00:00Z", 60_000),
+];
+
+describe("buildListeningSessions", () => {
+  it("splits plays on gaps longer than 30 minutes after the previous play ended", () => {
+    const sessions = buildListeningSessions(plays);
+
+    expect(sessions.map((session) => session.plays.map((entry) => entry.trackId))).toEqual([
+      ["a", "b", "c"],
+      ["a"],
+      ["d"],
+    ]);
+    expect(sessions[0].startedAt.toISOString()).toBe("2024-01-01T08:00:00.000Z");
+    expect(sessions[0].endedAt.toISOString()).toBe("2024-01-01T08:45:00.000Z");
+    expect(sessions[0].listenedMs).toBe(960_000);
+  });
+
+  it("summarizes session length, tracks per session and the most common opener", () => {
+    const stats = summarizeListeningSessions(buildListeningSessions(plays));
+
+    expect(stats).toEqual({
+      sessionCount: 3,
+      // 45 + 3 + 1 minutes
+      averageSessionMinutes: 16.3,
+      longestSessionMinutes: 45,
+      averageTracksPerSession: 1.7,
+      mostCommonFirstTrack: { id: "a", name: "Track a", sessionCount: 2 },
+    });
+  });
+
+  it("returns empty stats without plays", () => {
+    expect(summarizeListeningSessions(buildListeningSessions([])).sessionCount).toBe(0);
+  });
+});
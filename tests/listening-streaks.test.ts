@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+
+import { computeStreaks } from "@/lib/analytics/streaks";
+
+describe("computeStreaks", () => {
+  const days = ["2024-02-27", "2024-02-28", "2024-02-29", "2024-03-01", "2024-03-05", "2024-03-06", "2024-02-28"];
+
+  it("finds the longest run of consecutive days across month ends", () => {
+    expect(computeStreaks(days, "2024-03-20").longest).toEqual({
+      days: 4,
+      startDate: "2024-02-27",
+      endDate: "2024-03-01",
+    });
+  });
+
+  it("keeps the current streak alive until a full day is missed", () => {
+    expect(computeStreaks(days, "2024-03-07").current).toEqual({
+      days: 2,
+      startDate: "2024-03-05",
+      endDate: "2024-03-06",
+    });
+    expect(computeStreaks(days, "2024-03-08").current).toBeNull();
+  });
+
+  it("returns no streaks without listening days", () => {
+    expect(computeStreaks([], "2024-03-07")).toEqual({ current: null, longest: null });
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+
+import { moodQuadrant, toMoodHistogram } from "@/lib/analytics/mood";
+
+describe("toMoodHistogram", () => {
+  it("fills ten bins over 0-1 and converts listening time to minutes", () => {
+    const histogram = toMoodHistogram([
+      { bin: 1, plays: 2, listenedMs: 90_000 },
+      { bin: 10, plays: 1, listenedMs: 60_000 },
+    ]);
+
+    expect(histogram).toHaveLength(10);
+    expect(histogram[0]).toEqual({ from: 0, to: 0.1, plays: 2, minutes: 1.5 });
+    expect(histogram[4]).toEqual({ from: 0.4, to: 0.5, plays: 0, minutes: 0 });
+    expect(histogram[9]).toEqual({ from: 0.9, to: 1, plays: 1, minutes: 1 });
+  });
+});
+
+describe("moodQuadrant", () => {
+  it("splits energy and valence at the middle", () => {
+    expect(moodQuadrant(0.8, 0.7)).toBe("upbeat");
+    expect(moodQuadrant(0.8, 0.2)).toBe("intense");
+    expect(moodQuadrant(0.3, 0.5)).toBe("peaceful");
+    expect(moodQuadrant(0.2, 0.1)).toBe("melancholic");
+  });
+});
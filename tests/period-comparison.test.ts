@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+
+import { computeMetricDelta, findDroppedEntries, withRankMovement } from "@/lib/analytics/comparison";
+import type { TopEntry } from "@/lib/analytics/types";
+import { getPreviousRange, parseTimeRangeFromSearchParams } from "@/lib/date-range";
+
+function entry(id: string, rank: number): TopEntry {
+  return { rank, id, name: id, imageUrl: null, playCount: 10 - rank, totalMinutes: 0, lastListened: null };
+}
+
+describe("getPreviousRange", () => {
+  it("moves whole-day ranges back by their number of days in the time zone", () => {
+    const range = parseTimeRangeFromSearchParams({ from: "2024-03-01", to: "2024-03-31" }, "Europe/Berlin");
+    const previous = getPreviousRange(range, "Europe/Berlin");
+
+    // 31 days before March 1st, across the end of February in a leap year.
+    expect(previous.from.toISOString()).toBe("2024-01-29T23:00:00.000Z");
+    expect(previous.to.toISOString()).toBe("2024-02-29T22:59:59.999Z");
+  });
+
+  it("moves other ranges back by their duration", () => {
+    const previous = getPreviousRange({
+      from: new Date("2024-01-10T12:00:00Z"),
+      to: new Date("2024-01-10T17:59:59.999Z"),
+    });
+
+    expect(previous.from.toISOString()).toBe("2024-01-10T06:00:00.000Z");
+    expect(previous.to.toISOString()).toBe("2024-01-10T11:59:59.999Z");
+  });
+});
+
+describe("rank movement", () => {
+  const previous = [entry("a", 1), entry("b", 2), entry("c", 3), entry("d", 4)];
+  const current = [entry("b", 1), entry("a", 2), entry("c", 3), entry("e", 4)];
+
+  it("marks entries as up, down, same or new", () => {
+    expect(withRankMovement(current, previous).map((row) => row.movement)).toEqual([
+      { status: "up", previousRank: 2, change: 1 },
+      { status: "down", previousRank: 1, change: -1 },
+      { status: "same", previousRank: 3, change: 0 },
+      { status: "new", previousRank: null, change: 0 },
+    ]);
+  });
+
+  it("lists previous entries missing from the current ranking as dropped", () => {
+    expect(findDroppedEntries(current, previous, 10)).toEqual([
+      { ...entry("d", 4), movement: { status: "dropped", previousRank: 4, change: 0 } },
+    ]);
+  });
+
+  it("computes deltas with a percentage only when there is a previous value", () => {
+    expect(computeMetricDelta(15, 10)).toEqual({ previous: 10, change: 5, percentChange: 50 });
+    expect(computeMetricDelta(3, 0)).toEqual({ previous: 0, change: 3, percentChange: null });
+  });
+});
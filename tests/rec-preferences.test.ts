@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+
+import { rankRecommendationCandidates } from "@/lib/recommendations/engine";
+import {
+  DEFAULT_REC_PREFERENCES,
+  matchesRecPreferences,
+  noveltyWeights,
+  recPreferencesSchema,
+  tasteWindowStart,
+} from "@/lib/recommendations/preferences";
+import type { SpotifyTrack } from "@/lib/spotify/types";
+
+function makeTrack(partial: Partial<SpotifyTrack> & Pick<SpotifyTrack, "id">): SpotifyTrack {
+  return {
+    name: partial.id,
+    duration_ms: 180000,
+    album: { id: `album-${partial.id}`, name: partial.id },
+    artists: [{ id: "artist-1", name: "Artist One" }],
+    ...partial,
+  };
+}
+
+describe("recommendation preferences", () => {
+  it("rejects a popularity range whose minimum exceeds its maximum", () => {
+    expect(recPreferencesSchema.safeParse(DEFAULT_REC_PREFERENCES).success).toBe(true);
+    expect(
+      recPreferencesSchema.safeParse({ ...DEFAULT_REC_PREFERENCES, minPopularity: 80, maxPopularity: 20 }).success,
+    ).toBe(false);
+  });
+
+  it("filters explicit tracks, popularity and excluded artists and genres", () => {
+    const preferences = {
+      ...DEFAULT_REC_PREFERENCES,
+      allowExplicit: false,
+      minPopularity: 20,
+      maxPopularity: 80,
+      excludedGenres: ["Polka"],
+      excludedArtists: ["artist one"],
+    };
+    const other = [{ id: "artist-2", name: "Artist Two" }];
+
+    expect(matchesRecPreferences(makeTrack({ id: "ok", artists: other, popularity: 50 }), [], preferences)).toBe(true);
+    // Unknown popularity and explicitness pass.
+    expect(matchesRecPreferences(makeTrack({ id: "unknown", artists: other }), [], preferences)).toBe(true);
+    expect(matchesRecPreferences(makeTrack({ id: "explicit", artists: other, explicit: true }), [], preferences)).toBe(
+      false,
+    );
+    expect(matchesRecPreferences(makeTrack({ id: "obscure", artists: other, popularity: 5 }), [], preferences)).toBe(
+      false,
+    );
+    expect(matchesRecPreferences(makeTrack({ id: "by-name" }), [], preferences)).toBe(false);
+    expect(
+      matchesRecPreferences(makeTrack({ id: "by-id", artists: other }), [], preferences, new Set(["artist-2"])),
+    ).toBe(false);
+    expect(matchesRecPreferences(makeTrack({ id: "genre", artists: other }), ["polka"], preferences)).toBe(false);
+  });
+
+  it("keeps the previous novelty boosts by default and favours familiar artists below it", () => {
+    expect(noveltyWeights(DEFAULT_REC_PREFERENCES.novelty)).toEqual({
+      newArtist: 0.07,
+      newGenre: 0.04,
+      knownArtist: 0,
+    });
+
+    const profile = { energy: 0.5, danceability: 0.5, valence: 0.5, tempo: 120 };
+    const candidates = [
+      { id: "new-artist", artist: { id: "new", name: "New" } },
+      { id: "known-artist", artist: { id: "known", name: "Known" } },
+    ].map(({ id, artist }) => ({
+      track: makeTrack({ id, artists: [artist] }),
+      features: profile,
+      candidateGenres: [],
+    }));
+
+    const rank = (novelty: number) =>
+      rankRecommendationCandidates(candidates, profile, new Set(["known"]), new Set(), undefined, novelty).map(
+        (row) => row.track.id,
+      );
+
+    expect(rank(1)).toEqual(["new-artist", "known-artist"]);
+    expect(rank(0)).toEqual(["known-artist", "new-artist"]);
+  });
+
+  it("starts the taste window a month or a year back", () => {
+    const now = new Date("2024-03-31T12:00:00Z");
+
+    expect(tasteWindowStart("month", now).toISOString()).toBe("2024-02-29T12:00:00.000Z");
+    expect(tasteWindowStart("year", now).toISOString()).toBe("2023-03-31T12:00:00.000Z");
+    expect(tasteWindowStart("all", now).getTime()).toBe(0);
+  });
+});
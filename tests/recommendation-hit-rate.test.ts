@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+
+import { type RecOutcomeRecord, summarizeHitRates } from "@/lib/recommendations/hit-rate";
+
+const now = new Date("2024-03-20T12:00:00Z");
+
+function outcome(partial: Partial<RecOutcomeRecord> & Pick<RecOutcomeRecord, "strategy">): RecOutcomeRecord {
+  return {
+    itemType: "track",
+    recommendedAt: new Date("2024-03-01T08:00:00Z"),
+    firstPlayedAt: null,
+    playCount: 0,
+    ...partial,
+  };
+}
+
+describe("summarizeHitRates", () => {
+  it("counts plays within the conversion window as hits and repeat plays as kept", () => {
+    const [summary] = summarizeHitRates(
+      [
+        outcome({ strategy: "tracks-only", firstPlayedAt: new Date("2024-03-02T08:00:00Z"), playCount: 5 }),
+        outcome({ strategy: "tracks-only", firstPlayedAt: new Date("2024-03-03T08:00:00Z"), playCount: 1 }),
+        // Played, but only after the window closed.
+        outcome({ strategy: "tracks-only", firstPlayedAt: new Date("2024-03-15T08:00:00Z"), playCount: 4 }),
+        outcome({ strategy: "tracks-only" }),
+      ],
+      now,
+    );
+
+    expect(summary).toEqual({
+      strategy: "tracks-only",
+      recommended: 4,
+      pending: 0,
+      converted: 2,
+      kept: 2,
+      hitRate: 0.5,
+      keepRate: 0.5,
+      averagePlays: 2.5,
+    });
+  });
+
+  it("leaves unplayed picks inside their window out of the rates", () => {
+    const summaries = summarizeHitRates(
+      [
+        outcome({ strategy: "search", recommendedAt: new Date("2024-03-18T08:00:00Z") }),
+        outcome({
+          strategy: "search",
+          recommendedAt: new Date("2024-03-18T08:00:00Z"),
+          firstPlayedAt: new Date("2024-03-19T08:00:00Z"),
+          playCount: 1,
+        }),
+        outcome({ strategy: "artists-only" }),
+        outcome({ strategy: "artists-only" }),
+        outcome({ strategy: "artists-only" }),
+      ],
+      now,
+    );
+
+    expect(summaries.map((summary) => summary.strategy)).toEqual(["artists-only", "search"]);
+    expect(summaries[1]).toMatchObject({ recommended: 2, pending: 1, converted: 1, hitRate: 1 });
+    expect(summaries[0]).toMatchObject({ pending: 0, hitRate: 0, averagePlays: 0 });
+  });
+});
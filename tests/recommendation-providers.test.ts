@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  type CandidateProvider,
+  type CandidateRequest,
+  collectRecommendationCandidates,
+  type RecommendationCandidate,
+} from "@/lib/recommendations/providers";
+import { toCatalogCandidate } from "@/lib/recommendations/providers/local";
+
+const request: CandidateRequest = {
+  userId: "user-1",
+  profile: { energy: 0.5, danceability: 0.5, valence: 0.5, tempo: 120 },
+  seedTrackIds: [],
+  seedArtistIds: ["artist-1"],
+  seedArtistNames: ["Artist 1"],
+  seedGenres: ["indie"],
+  excludedTrackIds: new Set(["played"]),
+};
+
+function candidate(id: string, strategy: string): RecommendationCandidate {
+  return {
+    track: { id, name: id, duration_ms: 180000, album: { id: `album-${id}`, name: id }, artists: [] },
+    features: null,
+    genres: [],
+    strategy,
+  };
+}
+
+function provider(name: string, fetchCandidates: CandidateProvider["fetchCandidates"]): CandidateProvider {
+  return { name, fetchCandidates };
+}
+
+describe("collectRecommendationCandidates", () => {
+  it("asks later providers only while too few candidates were found, keeping the first strategy", async () => {
+    const calls: string[] = [];
+    const local = provider("local", async () => {
+      calls.push("local");
+      return [candidate("a", "local:seed-artists"), candidate("played", "local:seed-artists")];
+    });
+    const spotify = provider("spotify", async () => {
+      calls.push("spotify");
+      return [candidate("a", "tracks-only"), candidate("b", "tracks-only")];
+    });
+    const unused = provider("unused", async () => {
+      calls.push("unused");
+      return [];
+    });
+
+    const many = Array.from({ length: 30 }, (_, index) => candidate(`s${index}`, "search"));
+    const enough = provider("enough", async () => many);
+
+    const candidates = await collectRecommendationCandidates(request, [local, spotify, enough, unused]);
+
+    expect(calls).toEqual(["local", "spotify"]);
+    expect(candidates.slice(0, 2).map((row) => [row.track.id, row.strategy])).toEqual([
+      ["a", "local:seed-artists"],
+      ["b", "tracks-only"],
+    ]);
+    expect(candidates).toHaveLength(32);
+  });
+
+  it("only rethrows a provider error when nothing was found", async () => {
+    const failing = provider("spotify", async () => {
+      throw new Error("Spotify returned no recommendation candidates for your profile.");
+    });
+
+    await expect(
+      collectRecommendationCandidates(request, [provider("local", async () => [candidate("a", "local")]), failing]),
+    ).resolves.toHaveLength(1);
+    await expect(
+      collectRecommendationCandidates(request, [provider("local", async () => []), failing]),
+    ).rejects.toThrow("Spotify returned no recommendation candidates");
+  });
+});
+
+describe("toCatalogCandidate", () => {
+  const artist = (id: string, genres: string[]) => ({
+    id,
+    name: `Artist ${id}`,
+    imageUrl: null,
+    genres,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  });
+
+  it("maps a catalog track to a candidate with its stored features and artist genres", () => {
+    const result = toCatalogCandidate(
+      {
+        id: "track-1",
+        name: "Track 1",
+        durationMs: 200000,
+        albumId: "album-1",
+        artistIds: ["b", "a"],
+        popularity: 40,
+        explicit: null,
+        previewUrl: null,
+        imageUrl: null,
+        danceability: 0.6,
+        energy: 0.7,
+        valence: 0.3,
+        tempo: 128,
+        createdAt: new Date(0),
+        updatedAt: new Date(0),
+        album: {
+          id: "album-1",
+          name: "Album 1",
+          releaseDate: "2020-01-01",
+          imageUrl: "https://example.com/album.jpg",
+          createdAt: new Date(0),
+          updatedAt: new Date(0),
+        },
+        artists: [
+          { trackId: "track-1", artistId: "a", artist: artist("a", ["indie", "rock"]) },
+          { trackId: "track-1", artistId: "b", artist: artist("b", ["indie"]) },
+        ],
+      },
+      "local:genre-artists",
+    );
+
+    expect(result?.track.artists.map((row) => row.id)).toEqual(["b", "a"]);
+    expect(result?.track.album.images).toEqual([{ url: "https://example.com/album.jpg" }]);
+    expect(result?.features).toEqual({ energy: 0.7, danceability: 0.6, valence: 0.3, tempo: 128 });
+    expect(result?.genres).toEqual(["indie", "rock"]);
+    expect(result?.strategy).toBe("local:genre-artists");
+  });
+});
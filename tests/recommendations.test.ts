@@ -4,6 +4,7 @@ import {
   filterNewToMeTracks,
   rankRecommendationCandidates,
 } from "@/lib/recommendations/engine";
+import { buildFeedbackSignals } from "@/lib/recommendations/feedback";
 import type { SpotifyTrack } from "@/lib/spotify/types";
 
 function makeTrack(partial: Partial<SpotifyTrack> & Pick<SpotifyTrack, "id" | "name">): SpotifyTrack {
@@ -94,4 +95,97 @@ describe("recommendation engine", () => {
     expect(ranked[0]?.track.id).toBe("near-match");
     expect(ranked[0]?.score).toBeGreaterThan(ranked[1]?.score ?? 0);
   });
+
+  it("penalizes disliked artists and genres and skipped tracks", () => {
+    const profile = { energy: 0.5, danceability: 0.5, valence: 0.5, tempo: 120 };
+    const candidate = (id: string, artistId: string, genre: string) => ({
+      track: makeTrack({ id, name: id, artists: [{ id: artistId, name: artistId }], album: { id: `a-${id}`, name: id } }),
+      features: profile,
+      candidateGenres: [genre],
+    });
+
+    const feedback = buildFeedbackSignals([
+      { itemType: "track", itemId: "old-1", kind: "dislike", artistIds: ["disliked"], genres: [], features: null },
+      { itemType: "track", itemId: "old-2", kind: "dislike", artistIds: [], genres: ["polka"], features: null },
+      { itemType: "track", itemId: "skipped", kind: "skip", artistIds: [], genres: [], features: null },
+    ]);
+
+    const ranked = rankRecommendationCandidates(
+      [
+        candidate("by-disliked-artist", "disliked", "pop"),
+        candidate("in-disliked-genre", "artist-2", "polka"),
+        candidate("skipped", "artist-3", "pop"),
+        candidate("neutral", "artist-4", "pop"),
+      ],
+      profile,
+      new Set(),
+      new Set(["pop", "polka"]),
+      feedback,
+    );
+
+    expect(ranked.map((row) => row.track.id)).toEqual([
+      "neutral",
+      "in-disliked-genre",
+      "skipped",
+      "by-disliked-artist",
+    ]);
+  });
+
+  it("moves towards the features of liked tracks", () => {
+    const profile = { energy: 0.5, danceability: 0.5, valence: 0.5, tempo: 120 };
+    const liked = { energy: 0.9, danceability: 0.5, valence: 0.5, tempo: 120 };
+    const candidates = [
+      { id: "calmer", features: { ...profile, energy: 0.3 } },
+      { id: "livelier", features: { ...profile, energy: 0.7 } },
+    ].map(({ id, features }) => ({
+      track: makeTrack({ id, name: id, album: { id: `a-${id}`, name: id } }),
+      features,
+      candidateGenres: [],
+    }));
+
+    const withoutFeedback = rankRecommendationCandidates(candidates, profile, new Set(), new Set());
+    expect(withoutFeedback[0]?.score).toBe(withoutFeedback[1]?.score);
+
+    const withLike = rankRecommendationCandidates(
+      candidates,
+      profile,
+      new Set(),
+      new Set(),
+      buildFeedbackSignals([
+        { itemType: "track", itemId: "liked", kind: "like", artistIds: [], genres: [], features: liked },
+      ]),
+    );
+    expect(withLike[0]?.track.id).toBe("livelier");
+    expect(withLike[0]?.score).toBeGreaterThan(withLike[1]?.score ?? 0);
+  });
+
+  it("boosts candidates by their collaborative filtering similarity", () => {
+    const profile = { energy: 0.5, danceability: 0.5, valence: 0.5, tempo: 120 };
+    const candidate = (id: string, collaborativeScore?: number) => ({
+      track: makeTrack({ id, name: id, album: { id: `a-${id}`, name: id } }),
+      features: profile,
+      candidateGenres: [],
+      collaborativeScore,
+    });
+
+    const ranked = rankRecommendationCandidates(
+      [candidate("plain"), candidate("weak", 0.2), candidate("strong", 0.9)],
+      profile,
+      new Set(),
+      new Set(),
+    );
+
+    expect(ranked.map((row) => row.track.id)).toEqual(["strong", "weak", "plain"]);
+  });
+
+  it("collects already-known items to exclude", () => {
+    const feedback = buildFeedbackSignals([
+      { itemType: "track", itemId: "t1", kind: "already-know", artistIds: ["a1"], genres: [], features: null },
+      { itemType: "album", itemId: "al1", kind: "already-know", artistIds: ["a2"], genres: [], features: null },
+    ]);
+
+    expect([...feedback.knownTrackIds]).toEqual(["t1"]);
+    expect([...feedback.knownAlbumIds]).toEqual(["al1"]);
+    expect([...feedback.knownArtistIds]).toEqual(["a1", "a2"]);
+  });
 });
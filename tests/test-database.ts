@@ -0,0 +1,70 @@
+import { PGlite, types } from "@electric-sql/pglite";
+import { Prisma } from "@prisma/client";
+
+import type { RawQuery } from "@/lib/analytics/service";
+
+const COLUMN_TYPES: Record<string, string> = {
+  String: "text",
+  Int: "integer",
+  BigInt: "bigint",
+  Float: "double precision",
+  Boolean: "boolean",
+  DateTime: "timestamp(3)",
+  Json: "jsonb",
+};
+
+export type TestDatabase = {
+  query: RawQuery;
+  execute: (sql: Prisma.Sql) => Promise<void>;
+  insert: (table: string, rows: Array<Record<string, unknown>>) => Promise<void>;
+  close: () => Promise<void>;
+};
+
+function columnType(field: Prisma.DMMF.Field): string {
+  const type = field.nativeType?.[0] === "Date" ? "date" : COLUMN_TYPES[field.type];
+  return field.isList ? `${type}[]` : type;
+}
+
+// An in-process Postgres with a table per Prisma model, so raw SQL runs in the default test run
+// without a database server. Apart from primary keys, columns carry no constraints or defaults:
+// tests insert every value their queries read.
+export async function createTestDatabase(): Promise<TestDatabase> {
+  // Timestamp columns hold UTC wall-clock times, as Prisma reads them.
+  const db = await PGlite.create({
+    parsers: { [types.TIMESTAMP]: (value: string) => new Date(`${value.replace(" ", "T")}Z`) },
+  });
+
+  for (const model of Prisma.dmmf.datamodel.models) {
+    const scalars = model.fields.filter((field) => field.kind === "scalar");
+    const columnName = (name: string) => {
+      const field = scalars.find((candidate) => candidate.name === name);
+      return `"${field?.dbName ?? name}"`;
+    };
+    const columns = scalars.map((field) => `${columnName(field.name)} ${columnType(field)}`);
+    // Primary keys matter beyond uniqueness: queries may group by a key and select its other columns.
+    const keyFields = model.primaryKey?.fields ?? scalars.filter((field) => field.isId).map((field) => field.name);
+    if (keyFields.length > 0) {
+      columns.push(`PRIMARY KEY (${keyFields.map(columnName).join(", ")})`);
+    }
+
+    await db.exec(`CREATE TABLE "${model.dbName ?? model.name}" (${columns.join(", ")})`);
+  }
+
+  return {
+    query: async <T>(sql: Prisma.Sql) => (await db.query<T>(sql.text, sql.values)).rows,
+    execute: async (sql) => {
+      await db.query(sql.text, sql.values);
+    },
+    insert: async (table, rows) => {
+      for (const row of rows) {
+        const columns = Object.keys(row);
+        await db.query(
+          `INSERT INTO "${table}" (${columns.map((column) => `"${column}"`).join(", ")})
+           VALUES (${columns.map((_, index) => `$${index + 1}`).join(", ")})`,
+          Object.values(row),
+        );
+      }
+    },
+    close: () => db.close(),
+  };
+}